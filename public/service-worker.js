@@ -13,7 +13,7 @@
  */
 
 // Cache version - increment this to invalidate old caches
-const CACHE_VERSION = 'v1.1.0';
+const CACHE_VERSION = 'v1.2.0';
 const CACHE_NAME = `car-finder-${CACHE_VERSION}`;
 const TILES_CACHE_NAME = `car-finder-tiles-${CACHE_VERSION}`;
 
@@ -267,10 +267,13 @@ self.addEventListener('notificationclick', (event) => {
   // Close the notification
   event.notification.close();
   
-  // Determine the URL to open
-  const urlToOpen = event.action === 'find' 
-    ? '/?action=find'
-    : '/';
+  // Determine the URL to open, targeting the notification's vehicle if known
+  const vehicleId = event.notification.data && event.notification.data.vehicleId;
+  const params = new URLSearchParams();
+  if (event.action === 'find') params.set('action', 'find');
+  if (vehicleId) params.set('vehicle', vehicleId);
+  const query = params.toString();
+  const urlToOpen = query ? `/?${query}` : '/';
   
   event.waitUntil(
     clients.matchAll({ type: 'window', includeUncontrolled: true })
@@ -10,7 +10,8 @@
  * - Electric blue gradient for the arrow body
  * - Glowing shadow effect that pulses
  * - 3D depth using transforms and layered shadows
- * - Smooth rotation animation using CSS transitions
+ * - Smooth rotation animation using CSS transitions, always taking the
+ *   short way around (359° → 1° turns 2°, not 358°)
  * 
  * PROPS:
  * - rotation: The angle the arrow should point (0 = up, 90 = right, etc.)
@@ -18,7 +19,8 @@
  * =============================================================================
  */
 
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
+import { unwrapAngle } from '@/utils/gps';
 
 interface ArrowProps {
   /** Rotation angle in degrees (0 = pointing up/north) */
@@ -27,6 +29,24 @@ interface ArrowProps {
   isActive?: boolean;
 }
 
+/**
+ * Converts 0-360 rotations into a continuous value, so the CSS transition
+ * interpolates across north instead of spinning the long way around
+ * 
+ * @param rotation - Angle in degrees (0-360)
+ * @returns Equivalent angle closest to the previous one rendered
+ */
+function useUnwrappedRotation(rotation: number): number {
+  const previousRef = useRef(rotation);
+  const unwrapped = unwrapAngle(previousRef.current, rotation);
+  
+  useEffect(() => {
+    previousRef.current = unwrapped;
+  }, [unwrapped]);
+  
+  return unwrapped;
+}
+
 /**
  * 3D Arrow Component
  * 
@@ -37,6 +57,8 @@ interface ArrowProps {
  * @param isActive - Whether to show pulse animation (default true)
  */
 export function Arrow({ rotation, isActive = true }: ArrowProps) {
+  const displayRotation = useUnwrappedRotation(rotation);
+  
   return (
     <div className="relative flex items-center justify-center w-64 h-64">
       {/* 
@@ -61,7 +83,7 @@ export function Arrow({ rotation, isActive = true }: ArrowProps) {
       <div 
         className="relative arrow-transition"
         style={{
-          transform: `rotate(${rotation}deg)`,
+          transform: `rotate(${displayRotation}deg)`,
           // Smooth rotation with slight easing
           transition: 'transform 0.15s cubic-bezier(0.4, 0, 0.2, 1)',
         }}
@@ -10,7 +10,10 @@
  * - Managing compass vs simple mode
  * 
  * STATE MANAGEMENT:
- * - savedLocation: Car's stored GPS coordinates (persisted in localStorage)
+ * - vehicles / activeVehicleId: Garage profiles and the one being saved/found
+ * - savedLocations: Each vehicle's stored GPS coordinates (persisted in IndexedDB)
+ * - temporaryTarget: A past spot from the history being navigated to, if any
+ * - pendingPhotos: Photos taken before saving, attached to the next save
  * - mode: Current view ('set' for saving, 'find' for navigation)
  * - useSimpleMode: Whether to use GPS-only direction (no compass)
  * 
@@ -23,37 +26,89 @@
  * =============================================================================
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Arrow } from './Arrow';
-import { CarMap } from './CarMap';
+import { CarMap, VehicleMarker } from './CarMap';
 import { SuperPreciseSettings } from './SuperPreciseSettings';
+import { VehicleSwitcher } from './VehicleSwitcher';
+import { PhotoCarousel, AddPhotoButton } from './PhotoCarousel';
+import { ParkingDetailsForm, ParkingDetailsSummary } from './ParkingDetailsForm';
+import { ParkingMeterForm, MeterCountdown } from './ParkingMeter';
+import { ParkedTime } from './ParkedTime';
+import { ShowQrDialog, ScanQrDialog } from './QrCodeDialogs';
+import { CompassCalibrationDialog } from './CompassCalibration';
 import { useGeolocation } from '../hooks/useGeolocation';
+import { useFusedLocation } from '../hooks/useFusedLocation';
 import { useDeviceOrientation } from '../hooks/useDeviceOrientation';
+import { useLocale } from '../hooks/useLocale';
 import {
   SavedLocation,
   calculateDistance,
   calculateBearing,
   calculateRelativeHeading,
-  formatDistance,
   formatTimestamp,
-  getCardinalDirection,
 } from '../utils/gps';
 import {
   saveCarLocation,
-  getCarLocation,
+  getAllCarLocations,
   clearCarLocation,
+  SavedLocationMap,
 } from '../utils/storage';
+import {
+  Vehicle,
+  createDefaultVehicle,
+  getVehicles,
+  addVehicle,
+  updateVehicle,
+  removeVehicle,
+  getActiveVehicleId,
+  setActiveVehicleId as persistActiveVehicleId,
+} from '../utils/vehicles';
+import {
+  startParkingSession,
+  endParkingSession,
+  updateOpenParkingSession,
+  getParkingSession,
+} from '../utils/history';
+import { ParkingDetails, formatParkingDetails } from '../utils/parkingDetails';
+import { ParkingMeter, setPreferredReminderMinutes } from '../utils/meter';
+import { SharedLocation, buildShareUrl, shareLink } from '../utils/share';
 import {
   showCarSavedNotification,
+  refreshCarSavedNotification,
   dismissCarNotification,
+  scheduleMeterReminders,
+  cancelMeterReminders,
 } from '../utils/notifications';
 import {
   getSuperPreciseMode,
   getGoogleGeolocation,
 } from '../utils/googleGeolocation';
+import { createLocationProviders } from '../utils/locationProviders';
+import { fuseHeading } from '../utils/headingFusion';
+import { DirectionStyle, describeDirection, getDirectionStyle } from '../utils/directions';
+import { DEFAULT_FLOOR_HEIGHT, compareAltitude, formatFloorDifference, getFloorHeight } from '../utils/altitude';
+import {
+  DEFAULT_DECLINATION_CORRECTION,
+  DeclinationCorrection,
+  getDeclinationCorrection,
+  getMagneticDeclination,
+  toTrueHeading,
+} from '../utils/magneticModel';
+import { requestMotionPermission } from '../utils/stepDetector';
+import {
+  UnitSystem,
+  formatAccuracy,
+  formatAltitude,
+  formatDistance,
+  formatDistanceText,
+  formatSpeed,
+  getUnitSystem,
+} from '../utils/units';
+import { t } from '../utils/i18n';
 import { Button } from '@/components/ui/button';
-import { MapPin, Navigation, Trash2, Compass, Map as MapIcon, AlertTriangle, Check } from 'lucide-react';
+import { MapPin, Navigation, Trash2, Compass, Map as MapIcon, AlertTriangle, Check, History, ClipboardList, Timer, Share2, QrCode, ScanLine, Layers, ArrowLeft } from 'lucide-react';
 import { toast } from 'sonner';
 
 /**
@@ -63,6 +118,63 @@ import { toast } from 'sonner';
  */
 type AppMode = 'set' | 'find';
 
+/**
+ * A navigation target other than the active vehicle's saved location
+ * (e.g. a past spot opened from the history page)
+ */
+interface TemporaryTarget {
+  location: SavedLocation;
+  label: string;
+  marker: Pick<VehicleMarker, 'color' | 'icon' | 'name'>;
+}
+
+/**
+ * Map marker used when navigating to a past spot from the history
+ */
+const HISTORY_TARGET_MARKER = { color: 'hsl(200, 100%, 50%)', icon: '📍' };
+
+/**
+ * Map marker used when navigating to a location someone shared
+ */
+const SHARED_TARGET_MARKER = { color: 'hsl(280, 80%, 60%)', icon: '📌' };
+
+/**
+ * Ground speed (m/s) above which the accuracy indicator shows speed
+ */
+const MIN_DISPLAYED_SPEED = 0.5;
+
+/**
+ * How often the "parked ... ago" text of saved notifications is updated
+ * while the app is open (ms)
+ */
+const NOTIFICATION_REFRESH_MS = 60000;
+
+/**
+ * Screen reader direction announcements (ms): at most this often when the
+ * direction changes, and a reminder with the distance when it doesn't
+ */
+const ANNOUNCEMENT_MIN_GAP_MS = 3000;
+const ANNOUNCEMENT_REPEAT_MS = 15000;
+
+/**
+ * Builds the navigation target for a location shared by someone else
+ */
+function createSharedTarget(shared: SharedLocation): TemporaryTarget {
+  return {
+    location: shared.location,
+    label: shared.name ? t('target.sharedNamed', { name: shared.name }) : t('target.sharedUnnamed'),
+    marker: { ...SHARED_TARGET_MARKER, name: t('target.sharedSpot') },
+  };
+}
+
+interface CarFinderProps {
+  /**
+   * Location received through a shared link (see share.ts)
+   * Opens find mode for it without touching the user's own saved car
+   */
+  sharedLocation?: SharedLocation;
+}
+
 /**
  * Main CarFinder Component
  * 
@@ -72,16 +184,70 @@ type AppMode = 'set' | 'find';
  * - Compass/simple mode navigation
  * - Distance and direction calculations
  */
-export function CarFinder() {
+export function CarFinder({ sharedLocation }: CarFinderProps = {}) {
+  // Re-render in the new language when it changes in Settings
+  useLocale();
+  
   // =========================================================================
   // STATE DECLARATIONS
   // =========================================================================
   
   /**
-   * Saved car location from localStorage
-   * null means no car location is currently saved
+   * Vehicle profiles in the garage and the one currently selected
+   * The selected vehicle is the target of both save and find flows
+   * Start with the default vehicle until the garage loads from storage
    */
-  const [savedLocation, setSavedLocation] = useState<SavedLocation | null>(null);
+  const [vehicles, setVehicles] = useState<Vehicle[]>(() => [createDefaultVehicle()]);
+  const [activeVehicleId, setActiveVehicleId] = useState<string>(() => vehicles[0].id);
+  
+  /**
+   * Whether stored vehicles and locations have finished loading
+   * Saving is disabled until then so data isn't written to the placeholder
+   */
+  const [isStorageLoaded, setIsStorageLoaded] = useState<boolean>(false);
+  
+  /**
+   * Saved locations from storage, keyed by vehicle ID
+   * A missing entry means that vehicle has no saved location
+   */
+  const [savedLocations, setSavedLocations] = useState<SavedLocationMap>({});
+  
+  const activeVehicle = vehicles.find((v) => v.id === activeVehicleId) ?? vehicles[0];
+  const savedLocation: SavedLocation | null = savedLocations[activeVehicle.id] ?? null;
+  
+  /**
+   * Temporary navigation target, overriding the saved location in find mode
+   * Never persisted; cleared when leaving find mode or switching vehicle
+   */
+  const [temporaryTarget, setTemporaryTarget] = useState<TemporaryTarget | null>(null);
+  
+  /**
+   * Where find mode is currently navigating to
+   */
+  const targetLocation: SavedLocation | null = temporaryTarget?.location ?? savedLocation;
+  
+  /**
+   * Photos taken before the location is saved
+   * Attached to the next saved location, then cleared
+   */
+  const [pendingPhotos, setPendingPhotos] = useState<string[]>([]);
+  
+  /**
+   * Parking details form visibility
+   * Opened automatically after each save so level/spot can be noted quickly
+   */
+  const [isDetailsFormOpen, setIsDetailsFormOpen] = useState<boolean>(false);
+  
+  /**
+   * Parking meter (time limit) form visibility
+   */
+  const [isMeterFormOpen, setIsMeterFormOpen] = useState<boolean>(false);
+  
+  /**
+   * QR dialogs: showing the saved spot, and scanning someone else's
+   */
+  const [isQrCodeOpen, setIsQrCodeOpen] = useState<boolean>(false);
+  const [isQrScannerOpen, setIsQrScannerOpen] = useState<boolean>(false);
   
   /**
    * Current application mode
@@ -114,15 +280,33 @@ export function CarFinder() {
   const [superPreciseEnabled, setSuperPreciseEnabled] = useState<boolean>(false);
   
   /**
-   * Google-enhanced position for navigation (when Super Precise is enabled)
+   * Meters per garage level, for floor-difference guidance
    */
-  const [googlePosition, setGooglePosition] = useState<{ latitude: number; longitude: number } | null>(null);
-  const [googleAccuracy, setGoogleAccuracy] = useState<number | null>(null);
-  const [isGooglePolling, setIsGooglePolling] = useState<boolean>(false);
+  const [floorHeight, setFloorHeight] = useState<number>(DEFAULT_FLOOR_HEIGHT);
   
-  // Load Super Precise Mode setting on mount
+  /**
+   * Which platforms' compass headings are corrected to true north
+   */
+  const [declinationCorrection, setDeclinationCorrection] =
+    useState<DeclinationCorrection>(DEFAULT_DECLINATION_CORRECTION);
+  
+  /**
+   * Units for distances, accuracy, altitude and speed
+   */
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('auto');
+  
+  /**
+   * How directions to the car are phrased
+   */
+  const [directionStyle, setDirectionStyle] = useState<DirectionStyle>('relative');
+  
+  // Load Super Precise Mode, floor height, compass, unit and direction settings on mount
   useEffect(() => {
-    setSuperPreciseEnabled(getSuperPreciseMode());
+    getSuperPreciseMode().then(setSuperPreciseEnabled);
+    getFloorHeight().then(setFloorHeight);
+    getDeclinationCorrection().then(setDeclinationCorrection);
+    getUnitSystem().then(setUnitSystem);
+    getDirectionStyle().then(setDirectionStyle);
   }, []);
   
   // =========================================================================
@@ -131,17 +315,13 @@ export function CarFinder() {
   
   /**
    * Geolocation hook for GPS access
-   * Provides position tracking and one-shot position capture
+   * Provides the adaptive capture used when saving
    */
   const {
-    position,
-    accuracy,
     error: geoError,
-    isTracking,
-    isLoading: isGeoLoading,
-    startTracking,
-    stopTracking,
-    getBestReading,
+    captureProgress,
+    captureBestReading,
+    acceptCapture,
   } = useGeolocation();
   
   /**
@@ -160,7 +340,12 @@ export function CarFinder() {
    * Provides the direction the device is facing
    */
   const {
-    heading: compassHeading,
+    heading: magneticHeading,
+    headingAccuracy: compassAccuracy,
+    compassPlatform,
+    orientationSource,
+    isAbsolute: isAbsoluteOrientation,
+    compassQuality,
     isAvailable: isCompassAvailable,
     needsPermission,
     error: compassError,
@@ -169,6 +354,47 @@ export function CarFinder() {
     stopListening: stopCompass,
   } = useDeviceOrientation();
   
+  /**
+   * Magnetic declination at the navigation target
+   * Evaluated at the car rather than the user: it changes by far less than
+   * a degree over walking distance, and this avoids a dependency on the
+   * position the heading itself feeds into
+   */
+  const declination = useMemo(
+    () => (targetLocation ? getMagneticDeclination(targetLocation) : null),
+    [targetLocation]
+  );
+  
+  /**
+   * Compass heading relative to true north, matching calculateBearing()
+   */
+  const isDeclinationCorrected =
+    compassPlatform !== null && declination !== null && declinationCorrection[compassPlatform];
+  const compassHeading = magneticHeading !== null && isDeclinationCorrected
+    ? toTrueHeading(magneticHeading, declination)
+    : magneticHeading;
+  
+  /**
+   * Position sources for navigation (GPS, plus Google in Super Precise Mode)
+   */
+  const locationProviders = useMemo(
+    () => createLocationProviders({ superPrecise: superPreciseEnabled }),
+    [superPreciseEnabled]
+  );
+  
+  /**
+   * Fused position tracking for find mode
+   * Falls back to step counting along the compass heading when GPS is lost
+   */
+  const {
+    position,
+    accuracy,
+    location: fusedLocation,
+    isTracking,
+    startTracking,
+    stopTracking,
+  } = useFusedLocation(locationProviders, compassHeading);
+  
   // =========================================================================
   // EFFECTS
   // =========================================================================
@@ -179,28 +405,102 @@ export function CarFinder() {
   const [searchParams, setSearchParams] = useSearchParams();
   
   /**
-   * Load saved location on component mount and handle deep link
-   * Checks localStorage for previously saved car location
+   * Load the garage and saved locations on component mount and handle deep link
+   * Reads previously saved vehicles and locations from storage
+   * If ?vehicle=<id> is present, selects that vehicle
+   * If ?session=<id> is present, navigates to that past spot from the history
    * If ?action=find is present, auto-start navigation
    */
   useEffect(() => {
-    const stored = getCarLocation();
-    if (stored) {
-      setSavedLocation(stored);
+    let cancelled = false;
+    
+    const action = searchParams.get('action');
+    const sessionId = searchParams.get('session');
+    const linkedVehicleId = searchParams.get('vehicle');
+    if (linkedVehicleId || action || sessionId) {
+      // Clear the query params to prevent re-triggering
+      setSearchParams({}, { replace: true });
+    }
+    
+    const loadStoredData = async () => {
+      const [storedVehicles, storedActiveId, stored, session] = await Promise.all([
+        getVehicles(),
+        getActiveVehicleId(),
+        getAllCarLocations(),
+        sessionId ? getParkingSession(sessionId) : null,
+      ]);
+      if (cancelled) return;
+      
+      setVehicles(storedVehicles);
+      setSavedLocations(stored);
+      setIsStorageLoaded(true);
+      
+      // Page-side reminder timers don't survive a reload, so reschedule them.
+      // Only when already permitted: no permission prompt without a user gesture.
+      if ('Notification' in window && Notification.permission === 'granted') {
+        storedVehicles.forEach((vehicle) => {
+          const meter = stored[vehicle.id]?.meter;
+          if (meter && meter.expiresAt > Date.now()) {
+            scheduleMeterReminders(vehicle, meter);
+          }
+        });
+      }
       
       // Check for deep link from notification
-      const action = searchParams.get('action');
-      if (action === 'find') {
-        // Clear the query param to prevent re-triggering
-        setSearchParams({}, { replace: true });
+      const targetVehicleId = linkedVehicleId && storedVehicles.some((v) => v.id === linkedVehicleId)
+        ? linkedVehicleId
+        : storedActiveId;
+      setActiveVehicleId(targetVehicleId);
+      if (targetVehicleId !== storedActiveId) {
+        persistActiveVehicleId(targetVehicleId);
+      }
+      
+      if (sharedLocation) {
+        setTemporaryTarget(createSharedTarget(sharedLocation));
+        handleStartNavigation();
+      } else if (action === 'find' && session) {
+        setTemporaryTarget({
+          location: session.location,
+          label: session.name || formatTimestamp(session.startedAt),
+          marker: { ...HISTORY_TARGET_MARKER, name: t('target.pastSpot') },
+        });
+        handleStartNavigation();
+      } else if (action === 'find' && stored[targetVehicleId]) {
         // Auto-start navigation
         handleStartNavigation();
       } else {
         setMode('set'); // Keep in 'set' mode, user can switch to 'find'
       }
-    }
+    };
+    
+    loadStoredData().catch((err) => {
+      console.error('[CarFinder] Failed to load stored data:', err);
+      if (!cancelled) setIsStorageLoaded(true);
+    });
+    
+    return () => {
+      cancelled = true;
+    };
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
   
+  /**
+   * Keep the elapsed time in each vehicle's saved notification current
+   * while the app is open (only notifications still in the tray are updated)
+   */
+  useEffect(() => {
+    const refresh = () => {
+      vehicles.forEach((vehicle) => {
+        const location = savedLocations[vehicle.id];
+        if (location) {
+          refreshCarSavedNotification(vehicle, location, unitSystem);
+        }
+      });
+    };
+    
+    const intervalId = setInterval(refresh, NOTIFICATION_REFRESH_MS);
+    return () => clearInterval(intervalId);
+  }, [vehicles, savedLocations, unitSystem]);
+  
   /**
    * Auto-enable simple mode if compass is unavailable
    * This provides a fallback when device orientation isn't supported
@@ -211,77 +511,46 @@ export function CarFinder() {
     }
   }, [isCompassAvailable, mode]);
 
-  /**
-   * Google Geolocation polling for real-time navigation
-   * Polls Google API every 3 seconds when in find mode with Super Precise enabled
-   */
-  useEffect(() => {
-    if (mode !== 'find' || !superPreciseEnabled || !savedLocation) {
-      setIsGooglePolling(false);
-      return;
-    }
-
-    setIsGooglePolling(true);
-    let isMounted = true;
-
-    const pollGoogleLocation = async () => {
-      if (!isMounted) return;
-      
-      try {
-        const result = await getGoogleGeolocation();
-        if (result && isMounted) {
-          setGooglePosition({ latitude: result.latitude, longitude: result.longitude });
-          setGoogleAccuracy(result.accuracy);
-        }
-      } catch (err) {
-        console.error('[CarFinder] Google polling error:', err);
-        // Don't spam errors, just silently fall back to GPS
-      }
-    };
-
-    // Initial fetch
-    pollGoogleLocation();
-
-    // Poll every 3 seconds
-    const intervalId = setInterval(pollGoogleLocation, 3000);
-
-    return () => {
-      isMounted = false;
-      clearInterval(intervalId);
-      setIsGooglePolling(false);
-    };
-  }, [mode, superPreciseEnabled, savedLocation]);
-  
   // =========================================================================
   // CALCULATED VALUES
   // =========================================================================
   
-  /**
-   * Use Google position when available and Super Precise is enabled, otherwise fall back to GPS
-   */
-  const effectivePosition = (superPreciseEnabled && googlePosition) ? googlePosition : position;
-  const effectiveAccuracy = (superPreciseEnabled && googleAccuracy !== null) ? googleAccuracy : accuracy;
-  
   /**
    * Calculate distance to car in meters
    * Returns null if we don't have both positions
+   * Uses the WGS-84 ellipsoid, the same model GPS positions are given in
    */
-  const distanceMeters = effectivePosition && savedLocation
-    ? calculateDistance(effectivePosition, savedLocation)
+  const distanceMeters = position && targetLocation
+    ? calculateDistance(position, targetLocation, 'wgs84')
     : null;
   
   /**
    * Calculate bearing (direction) to car
    * Returns angle in degrees from north (0-360)
    */
-  const bearingToCar = effectivePosition && savedLocation
-    ? calculateBearing(effectivePosition, savedLocation)
+  const bearingToCar = position && targetLocation
+    ? calculateBearing(position, targetLocation, 'wgs84')
     : null;
   
+  /**
+   * Direction the user is facing: compass heading fused with GPS course
+   * while walking (course is skipped for step-estimated positions, where
+   * it would just echo the compass)
+   */
+  const fusedHeading = useMemo(
+    () => fuseHeading({
+      compass: compassHeading,
+      compassAccuracy,
+      course: fusedLocation && !fusedLocation.estimated ? fusedLocation.course : null,
+      speed: fusedLocation?.speed ?? null,
+    }),
+    [compassHeading, compassAccuracy, fusedLocation]
+  );
+  
   /**
    * Calculate arrow rotation based on mode
    * 
-   * In COMPASS MODE: Arrow rotates relative to device heading
+   * In COMPASS MODE: Arrow rotates relative to the fused heading
    * - If facing east and car is east, arrow points up (0°)
    * - If facing north and car is east, arrow points right (90°)
    * 
@@ -292,44 +561,103 @@ export function CarFinder() {
   const arrowRotation = bearingToCar !== null
     ? useSimpleMode
       ? bearingToCar // Simple mode: show absolute bearing
-      : calculateRelativeHeading(bearingToCar, compassHeading ?? 0) // Compass mode: relative to heading
+      : calculateRelativeHeading(bearingToCar, fusedHeading?.heading ?? 0) // Compass mode: relative to heading
     : 0;
   
   /**
-   * Format distance for display
-   * Switches between feet and meters based on threshold
+   * Markers for the other parked vehicles in the garage (map context)
+   */
+  const otherVehicleMarkers = useMemo<VehicleMarker[]>(() =>
+    vehicles
+      .filter((v) => v.id !== activeVehicle.id && savedLocations[v.id])
+      .map((v) => ({
+        id: v.id,
+        name: v.name,
+        color: v.color,
+        icon: v.icon,
+        latitude: savedLocations[v.id].latitude,
+        longitude: savedLocations[v.id].longitude,
+      })),
+    [vehicles, activeVehicle.id, savedLocations]
+  );
+  
+  /**
+   * Format distance for display in the preferred units
    */
   const formattedDistance = distanceMeters !== null
-    ? formatDistance(distanceMeters)
+    ? formatDistance(distanceMeters, unitSystem)
     : { value: '--', unit: '' };
   
   /**
-   * Get cardinal direction to car for accessibility
+   * Which way to go, in words: relative to the fused heading in compass
+   * mode, otherwise on the compass rose (see directions.ts)
    */
-  const cardinalDirection = bearingToCar !== null
-    ? getCardinalDirection(bearingToCar)
+  const directionText = bearingToCar !== null
+    ? describeDirection(bearingToCar, !useSimpleMode && fusedHeading ? fusedHeading.heading : null, directionStyle)
     : '';
   
+  /**
+   * Vertical difference to the car (multi-level garages)
+   * Null when either altitude is unknown
+   */
+  const floorDifference = mode === 'find' && targetLocation
+    ? compareAltitude(targetLocation, fusedLocation?.altitude ?? null, floorHeight)
+    : null;
+  const floorDifferenceLabel = formatFloorDifference(floorDifference);
+  
   /**
    * Determine arrival zone status
-   * - Under 5m: You found it!
-   * - Under 15m: You're close
+   * - Under 5m on the same level: You found it!
+   * - Under 15m (or under 5m on another level): You're close
    * - Otherwise: Show distance normally
    */
   const arrivalStatus = distanceMeters !== null
-    ? distanceMeters < 5
+    ? distanceMeters < 5 && !floorDifference?.significant
       ? 'found'
       : distanceMeters < 15
         ? 'close'
         : 'navigating'
     : 'navigating';
 
+  /**
+   * Compass calibration overlay state
+   * Opens when the compass looks uncalibrated during compass navigation and
+   * stays open until it settles; a dismissal lasts for the find session
+   */
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [dismissedCalibration, setDismissedCalibration] = useState(false);
+  const showCalibration = isCalibrating && mode === 'find' && !useSimpleMode;
+  
+  useEffect(() => {
+    if (mode === 'set') {
+      setIsCalibrating(false);
+      setDismissedCalibration(false);
+      return;
+    }
+    if (useSimpleMode || !compassQuality) return;
+    
+    if (compassQuality.calibration === 'poor' && !isCalibrating && !dismissedCalibration) {
+      setIsCalibrating(true);
+    } else if (compassQuality.calibration === 'good' && isCalibrating) {
+      setIsCalibrating(false);
+      toast.success(t('find.compassCalibrated'));
+    }
+  }, [compassQuality, isCalibrating, dismissedCalibration, mode, useSimpleMode]);
+  
+  /**
+   * Reset arrival state when switching to a different vehicle or target
+   */
+  useEffect(() => {
+    setHasArrived(false);
+    setDismissedArrival(false);
+  }, [activeVehicleId, temporaryTarget]);
+
   /**
    * Arrival detection - trigger celebration when first entering arrival zone
    */
   useEffect(() => {
     // Only auto-trigger arrival if user hasn't manually dismissed it
-    if (distanceMeters !== null && distanceMeters < 5 && !hasArrived && !dismissedArrival && mode === 'find') {
+    if (arrivalStatus === 'found' && !hasArrived && !dismissedArrival && mode === 'find') {
       setHasArrived(true);
       // Celebration haptic pattern
       if ('vibrate' in navigator) {
@@ -341,18 +669,47 @@ export function CarFinder() {
       setHasArrived(false);
       setDismissedArrival(false);
     }
-  }, [distanceMeters, hasArrived, dismissedArrival, mode]);
+  }, [arrivalStatus, hasArrived, dismissedArrival, mode]);
+  
+  /**
+   * Screen reader announcement of the direction and distance
+   * Announced when the direction changes, and repeated now and then while
+   * it doesn't, without reading out every GPS update
+   */
+  const [announcement, setAnnouncement] = useState('');
+  const lastAnnouncementRef = useRef({ direction: '', at: 0 });
+  
+  useEffect(() => {
+    if (mode !== 'find') {
+      lastAnnouncementRef.current = { direction: '', at: 0 };
+      setAnnouncement('');
+      return;
+    }
+    if (arrivalStatus === 'found' || !directionText || distanceMeters === null) return;
+    
+    const now = Date.now();
+    const last = lastAnnouncementRef.current;
+    const gap = directionText !== last.direction ? ANNOUNCEMENT_MIN_GAP_MS : ANNOUNCEMENT_REPEAT_MS;
+    if (now - last.at < gap) return;
+    
+    lastAnnouncementRef.current = { direction: directionText, at: now };
+    setAnnouncement(t('find.announcement', {
+      direction: directionText,
+      distance: formatDistanceText(distanceMeters, unitSystem),
+    }));
+  }, [mode, arrivalStatus, directionText, distanceMeters, unitSystem]);
   
   // =========================================================================
   // EVENT HANDLERS
   // =========================================================================
   
   /**
-   * Handle saving car location with best-reading capture
+   * Handle saving car location with adaptive capture
    * 
-   * 1. Takes multiple GPS readings
-   * 2. Selects the one with best accuracy
-   * 3. Stores in localStorage with timestamp and accuracy
+   * 1. Samples GPS until accuracy is good enough or stops improving
+   *    (the user can accept the current fix early from the save button)
+   * 2. Keeps the fix with the best accuracy
+   * 3. Stores it with timestamp and accuracy
    * 4. Shows confirmation toast with precision info
    */
   const handleSaveLocation = useCallback(async () => {
@@ -364,8 +721,8 @@ export function CarFinder() {
       // Try Super Precise Mode first if enabled
       if (superPreciseEnabled) {
         try {
-          toast.info('Using Super Precise Mode...', {
-            description: 'Fetching enhanced location from Google.',
+          toast.info(t('save.usingSuperPrecise'), {
+            description: t('save.usingSuperPreciseDescription'),
           });
           
           const googleLocation = await getGoogleGeolocation();
@@ -376,18 +733,22 @@ export function CarFinder() {
               longitude: googleLocation.longitude,
               timestamp: Date.now(),
               accuracy: googleLocation.accuracy,
+              provider: 'google',
+              photos: pendingPhotos.length > 0 ? pendingPhotos : undefined,
             };
             
-            const saved = saveCarLocation(location);
+            const saved = await saveCarLocation(activeVehicle.id, location);
             
             if (saved) {
-              setSavedLocation(location);
+              setSavedLocations((prev) => ({ ...prev, [activeVehicle.id]: location }));
+              setPendingPhotos([]);
+              cancelMeterReminders(activeVehicle.id);
+              startParkingSession(activeVehicle.id, location);
               if ('vibrate' in navigator) {
                 navigator.vibrate([50, 30, 50, 30, 50]);
               }
-              const accuracyFeet = Math.round(googleLocation.accuracy * 3.28084);
-              toast.success('Car location saved! (Super Precise)', {
-                description: `Precision: ±${accuracyFeet}ft • Caching map tiles...`,
+              toast.success(t('save.savedSuperPrecise', { vehicle: activeVehicle.name }), {
+                description: t('save.savedDescription', { accuracy: formatAccuracy(googleLocation.accuracy, unitSystem) }),
               });
               
               // Pre-cache map tiles
@@ -400,21 +761,22 @@ export function CarFinder() {
                 });
               }
               
-              showCarSavedNotification();
+              showCarSavedNotification(activeVehicle, location, unitSystem);
+              setIsDetailsFormOpen(true);
               setIsSaving(false);
               return;
             }
           }
         } catch (err) {
           console.error('[CarFinder] Google Geolocation failed, falling back to GPS:', err);
-          toast.warning('Super Precise Mode failed', {
-            description: 'Falling back to standard GPS.',
+          toast.warning(t('save.superPreciseFailed'), {
+            description: t('save.superPreciseFailedDescription'),
           });
         }
       }
       
       // Standard GPS fallback (or primary if Super Precise is disabled)
-      const bestReading = await getBestReading(3);
+      const bestReading = await captureBestReading();
       
       if (bestReading) {
         location = {
@@ -422,18 +784,26 @@ export function CarFinder() {
           longitude: bestReading.coords.longitude,
           timestamp: Date.now(),
           accuracy: bestReading.accuracy,
+          ...(bestReading.altitude && {
+            altitude: bestReading.altitude.altitude,
+            altitudeAccuracy: bestReading.altitude.altitudeAccuracy,
+          }),
+          provider: 'gps',
+          photos: pendingPhotos.length > 0 ? pendingPhotos : undefined,
         };
         
-        const saved = saveCarLocation(location);
+        const saved = await saveCarLocation(activeVehicle.id, location);
         
         if (saved) {
-          setSavedLocation(location);
+          setSavedLocations((prev) => ({ ...prev, [activeVehicle.id]: location }));
+          setPendingPhotos([]);
+          cancelMeterReminders(activeVehicle.id);
+          startParkingSession(activeVehicle.id, location);
           if ('vibrate' in navigator) {
             navigator.vibrate([50, 30, 50]);
           }
-          const accuracyFeet = Math.round(bestReading.accuracy * 3.28084);
-          toast.success('Car location saved!', {
-            description: `Precision: ±${accuracyFeet}ft • Caching map tiles...`,
+          toast.success(t('save.saved', { vehicle: activeVehicle.name }), {
+            description: t('save.savedDescription', { accuracy: formatAccuracy(bestReading.accuracy, unitSystem) }),
           });
           
           // Pre-cache map tiles around the saved location for offline use
@@ -446,22 +816,126 @@ export function CarFinder() {
             });
           }
           
-          showCarSavedNotification();
+          showCarSavedNotification(activeVehicle, location, unitSystem);
+          setIsDetailsFormOpen(true);
         } else {
-          toast.error('Failed to save location', {
-            description: 'Storage may be full or disabled.',
+          toast.error(t('save.failed'), {
+            description: t('save.storageFull'),
           });
         }
       }
     } catch (err) {
       console.error('[CarFinder] Failed to save location:', err);
-      toast.error('Failed to get location', {
-        description: 'Please check your GPS settings.',
+      toast.error(t('save.locationFailed'), {
+        description: t('save.locationFailedDescription'),
       });
     } finally {
       setIsSaving(false);
     }
-  }, [getBestReading, superPreciseEnabled]);
+  }, [captureBestReading, superPreciseEnabled, activeVehicle, pendingPhotos, unitSystem]);
+  
+  /**
+   * Apply changes to the active vehicle's saved location
+   * Keeps the open history session in step with the stored location
+   * (photos are not kept in the history, so photo-only changes skip it)
+   * 
+   * @returns true if saved successfully
+   */
+  const updateSavedLocation = useCallback(async (changes: Partial<SavedLocation>) => {
+    if (!savedLocation) return false;
+    
+    const updated: SavedLocation = { ...savedLocation, ...changes };
+    if (!(await saveCarLocation(activeVehicle.id, updated))) {
+      toast.error(t('saved.updateFailed'), {
+        description: t('save.storageFull'),
+      });
+      return false;
+    }
+    setSavedLocations((prev) => ({ ...prev, [activeVehicle.id]: updated }));
+    if (Object.keys(changes).some((key) => key !== 'photos')) {
+      await updateOpenParkingSession(activeVehicle.id, updated);
+    }
+    return true;
+  }, [savedLocation, activeVehicle]);
+  
+  /**
+   * Handle attaching photos to the already saved location
+   */
+  const handleAddSavedPhotos = useCallback(async (photos: string[]) => {
+    const saved = await updateSavedLocation({
+      photos: [...(savedLocation?.photos ?? []), ...photos],
+    });
+    if (saved) {
+      toast.success(t('saved.photosAttached', { count: photos.length }));
+    }
+  }, [updateSavedLocation, savedLocation]);
+  
+  /**
+   * Handle submitting the parking details form
+   */
+  const handleSaveDetails = useCallback(async (details: ParkingDetails | undefined) => {
+    if (!details && !savedLocation?.details) return;
+    if (await updateSavedLocation({ details })) {
+      toast.success(t(details ? 'saved.detailsSaved' : 'saved.detailsRemoved'));
+    }
+  }, [updateSavedLocation, savedLocation]);
+  
+  /**
+   * Handle starting or changing the parking meter countdown
+   */
+  const handleSaveMeter = useCallback(async (meter: ParkingMeter) => {
+    if (!(await updateSavedLocation({ meter }))) return;
+    
+    setPreferredReminderMinutes(meter.reminderMinutes);
+    const scheduled = await scheduleMeterReminders(activeVehicle, meter);
+    toast.success(t('saved.timerSet'), {
+      description: t(scheduled ? 'saved.timerReminders' : 'saved.timerNoReminders'),
+    });
+  }, [updateSavedLocation, activeVehicle]);
+  
+  /**
+   * Handle removing the parking meter countdown
+   */
+  const handleRemoveMeter = useCallback(async () => {
+    cancelMeterReminders(activeVehicle.id);
+    if (await updateSavedLocation({ meter: undefined })) {
+      toast.success(t('saved.timerRemoved'));
+    }
+  }, [updateSavedLocation, activeVehicle]);
+  
+  /**
+   * Handle sharing the saved location as a link that opens in find mode
+   * Uses the native share sheet where available, otherwise the clipboard
+   */
+  const handleShareLocation = useCallback(async () => {
+    if (!savedLocation) return;
+    
+    const url = buildShareUrl(savedLocation, activeVehicle.name);
+    const details = formatParkingDetails(savedLocation.details);
+    const result = await shareLink(
+      url,
+      t('share.title', { vehicle: activeVehicle.name }),
+      details
+        ? t('share.textWithDetails', { icon: activeVehicle.icon, vehicle: activeVehicle.name, details })
+        : t('share.text', { icon: activeVehicle.icon, vehicle: activeVehicle.name })
+    );
+    
+    if (result === 'copied') {
+      toast.success(t('share.copied'), {
+        description: t('share.copiedDescription'),
+      });
+    } else if (result === 'failed') {
+      toast.error(t('share.failed'));
+    }
+  }, [savedLocation, activeVehicle]);
+  
+  /**
+   * Handle removing a photo from the saved location
+   */
+  const handleRemoveSavedPhoto = useCallback((index: number) => {
+    const photos = (savedLocation?.photos ?? []).filter((_, i) => i !== index);
+    updateSavedLocation({ photos: photos.length > 0 ? photos : undefined });
+  }, [updateSavedLocation, savedLocation]);
   
   /**
    * Handle starting navigation mode
@@ -472,17 +946,24 @@ export function CarFinder() {
    * 4. Switches to 'find' mode
    */
   const handleStartNavigation = useCallback(async () => {
+    // Motion sensors for step counting (iOS asks separately). Requested
+    // before any await so it still counts as part of the user's tap;
+    // without them navigation simply works without dead reckoning
+    const motionPermission = requestMotionPermission();
+    
     // Request compass permission on iOS if needed
     if (needsPermission) {
       const granted = await requestPermission();
       if (!granted) {
         setUseSimpleMode(true);
-        toast.info('Using simple mode', {
-          description: 'Compass unavailable. Arrow shows GPS direction.',
+        toast.info(t('find.simpleMode'), {
+          description: t('find.simpleModeDescription'),
         });
       }
     }
     
+    await motionPermission;
+    
     // Start GPS tracking
     startTracking();
     
@@ -501,24 +982,113 @@ export function CarFinder() {
   const handleBackToSet = useCallback(() => {
     stopTracking();
     stopCompass();
+    setTemporaryTarget(null);
     setMode('set');
   }, [stopTracking, stopCompass]);
   
   /**
-   * Handle clearing saved location
-   * Removes from localStorage and resets UI
+   * Handle clearing the active vehicle's saved location
+   * Removes it from storage and resets UI
    */
-  const handleClearLocation = useCallback(() => {
-    clearCarLocation();
-    setSavedLocation(null);
+  const handleClearLocation = useCallback(async () => {
+    await clearCarLocation(activeVehicle.id);
+    await endParkingSession(activeVehicle.id);
+    setSavedLocations((prev) => {
+      const next = { ...prev };
+      delete next[activeVehicle.id];
+      return next;
+    });
     stopTracking();
     stopCompass();
+    setTemporaryTarget(null);
     setMode('set');
-    toast.success('Location cleared');
+    toast.success(t('saved.cleared', { vehicle: activeVehicle.name }));
     
-    // Dismiss the notification
-    dismissCarNotification();
-  }, [stopTracking, stopCompass]);
+    // Dismiss this vehicle's notification and reminders
+    dismissCarNotification(activeVehicle.id);
+    cancelMeterReminders(activeVehicle.id);
+  }, [stopTracking, stopCompass, activeVehicle]);
+  
+  /**
+   * Handle selecting a vehicle in the switcher
+   * In find mode this retargets navigation to the selected vehicle
+   */
+  const handleSelectVehicle = useCallback((vehicleId: string) => {
+    setTemporaryTarget(null);
+    setActiveVehicleId(vehicleId);
+    persistActiveVehicleId(vehicleId);
+  }, []);
+  
+  /**
+   * Handle creating a new vehicle profile and selecting it
+   */
+  const handleAddVehicle = useCallback(async (profile: Omit<Vehicle, 'id'>) => {
+    const vehicle = await addVehicle(profile);
+    if (!vehicle) {
+      toast.error(t('vehicle.addFailed'));
+      return;
+    }
+    setVehicles(await getVehicles());
+    handleSelectVehicle(vehicle.id);
+  }, [handleSelectVehicle]);
+  
+  /**
+   * Handle editing a vehicle profile
+   */
+  const handleUpdateVehicle = useCallback(async (vehicle: Vehicle) => {
+    if (await updateVehicle(vehicle)) {
+      setVehicles(await getVehicles());
+    } else {
+      toast.error(t('vehicle.updateFailed'));
+    }
+  }, []);
+  
+  /**
+   * Handle removing a vehicle profile along with its saved location
+   */
+  const handleRemoveVehicle = useCallback(async (vehicleId: string) => {
+    await clearCarLocation(vehicleId);
+    await endParkingSession(vehicleId);
+    dismissCarNotification(vehicleId);
+    cancelMeterReminders(vehicleId);
+    await removeVehicle(vehicleId);
+    setSavedLocations((prev) => {
+      const next = { ...prev };
+      delete next[vehicleId];
+      return next;
+    });
+    setVehicles(await getVehicles());
+    setActiveVehicleId(await getActiveVehicleId());
+  }, []);
+  
+  /**
+   * Handle navigating to a location scanned from a QR code
+   * Uses it as a temporary target, leaving the saved car untouched
+   */
+  const handleNavigateToScanned = useCallback((shared: SharedLocation) => {
+    setTemporaryTarget(createSharedTarget(shared));
+    handleStartNavigation();
+  }, [handleStartNavigation]);
+  
+  /**
+   * Handle saving a location scanned from a QR code as the active vehicle's spot
+   */
+  const handleSaveScannedAsMine = useCallback(async (shared: SharedLocation) => {
+    const location: SavedLocation = { ...shared.location };
+    if (!(await saveCarLocation(activeVehicle.id, location))) {
+      toast.error(t('save.failed'), {
+        description: t('save.storageFull'),
+      });
+      return;
+    }
+    
+    setSavedLocations((prev) => ({ ...prev, [activeVehicle.id]: location }));
+    setTemporaryTarget(null);
+    cancelMeterReminders(activeVehicle.id);
+    startParkingSession(activeVehicle.id, location);
+    showCarSavedNotification(activeVehicle, location, unitSystem);
+    toast.success(t('save.savedFromQr', { vehicle: activeVehicle.name }));
+  }, [activeVehicle, unitSystem]);
   
   /**
    * Trigger haptic feedback if available
@@ -547,14 +1117,47 @@ export function CarFinder() {
     setShowMap(prev => !prev);
   }, [triggerHaptic]);
   
+  /**
+   * While a capture runs, the save button shows its progress and
+   * accepts the best fix so far when tapped
+   */
+  const canAcceptCapture = captureProgress?.bestAccuracy != null;
+  const handleSaveButtonClick = captureProgress ? acceptCapture : handleSaveLocation;
+  const captureLabel = canAcceptCapture
+    ? t('save.tapToSaveNow', { accuracy: formatAccuracy(captureProgress.bestAccuracy, unitSystem) })
+    : t('save.waitingForGps');
+  
   // =========================================================================
   // RENDER
   // =========================================================================
   
   return (
     <div className="min-h-screen flex flex-col items-center justify-between p-6 bg-background relative">
+      {/* History Button */}
+      <Button
+        asChild
+        variant="ghost"
+        size="icon"
+        className="absolute top-4 start-4 text-muted-foreground hover:text-foreground"
+        aria-label={t('app.history')}
+      >
+        <Link to="/history">
+          <History className="w-5 h-5" />
+        </Link>
+      </Button>
+      
       {/* Settings Button */}
-      <SuperPreciseSettings onModeChange={setSuperPreciseEnabled} />
+      <SuperPreciseSettings
+        onModeChange={setSuperPreciseEnabled}
+        onFloorHeightChange={setFloorHeight}
+        onDeclinationCorrectionChange={setDeclinationCorrection}
+        onUnitSystemChange={setUnitSystem}
+        onDirectionStyleChange={setDirectionStyle}
+        declination={declination}
+        compassPlatform={compassPlatform}
+        orientationSource={orientationSource}
+        isAbsoluteOrientation={isAbsoluteOrientation}
+      />
       
       {/* 
         HEADER SECTION
@@ -562,18 +1165,34 @@ export function CarFinder() {
       */}
       <header className="w-full text-center pt-safe">
         <h1 className="text-2xl font-bold text-foreground tracking-tight">
-          Car Finder
+          {t('app.title')}
         </h1>
         <p className="text-sm text-muted-foreground mt-1">
           {mode === 'set' 
-            ? 'Save your car location' 
-            : 'Navigate to your car'}
+            ? t('header.save', { vehicle: activeVehicle.name }) 
+            : temporaryTarget
+              ? t('header.navigateTo', { target: temporaryTarget.label })
+              : t('header.navigateToVehicle', { vehicle: activeVehicle.name })}
         </p>
         {superPreciseEnabled && mode === 'set' && (
           <span className="inline-flex items-center gap-1 text-xs text-primary mt-1">
-            ✨ Super Precise Mode Active
+            {t('app.superPreciseActive')}
           </span>
         )}
+        
+        {/* Vehicle switcher - drives both save and find flows */}
+        <div className="flex justify-center mt-4">
+          <VehicleSwitcher
+            vehicles={vehicles}
+            activeVehicleId={activeVehicle.id}
+            parkedVehicleIds={Object.keys(savedLocations)}
+            onSelect={handleSelectVehicle}
+            onAdd={handleAddVehicle}
+            onUpdate={handleUpdateVehicle}
+            onRemove={handleRemoveVehicle}
+            disabled={isSaving || !isStorageLoaded}
+          />
+        </div>
       </header>
       
       {/* 
@@ -581,6 +1200,11 @@ export function CarFinder() {
         Changes based on current mode
       */}
       <main className="flex-1 flex flex-col items-center justify-center w-full max-w-md py-8">
+        {/* Direction announcements for screen readers */}
+        <p className="sr-only" role="status" aria-live="polite">
+          {announcement}
+        </p>
+        
         {mode === 'set' ? (
           /* ===== SET LOCATION MODE ===== */
           <div className="flex flex-col items-center gap-8 animate-fade-in">
@@ -590,16 +1214,74 @@ export function CarFinder() {
                 <div className="glass rounded-2xl p-6 border border-border/50 text-center neon-border">
                   <div className="flex items-center justify-center gap-2 text-primary mb-2">
                     <Check className="w-5 h-5" />
-                    <span className="font-medium">Location Saved</span>
+                    <span className="font-medium">{t('saved.title')}</span>
                   </div>
-                  <p className="text-sm text-muted-foreground">
-                    {formatTimestamp(savedLocation.timestamp)}
-                  </p>
+                  <ParkedTime timestamp={savedLocation.timestamp} />
                   {savedLocation.accuracy && (
                     <p className="text-xs text-muted-foreground/70 mt-1">
-                      Accuracy: ±{Math.round(savedLocation.accuracy)}m
+                      {t('saved.accuracy', { accuracy: formatAccuracy(savedLocation.accuracy, unitSystem) })}
+                      {savedLocation.altitude !== undefined && (
+                        <> • {t('saved.altitude', { altitude: formatAltitude(savedLocation.altitude, unitSystem) })}</>
+                      )}
                     </p>
                   )}
+                  
+                  {/* Parking meter countdown */}
+                  {savedLocation.meter && (
+                    <MeterCountdown meter={savedLocation.meter} className="mt-3" />
+                  )}
+                  
+                  {/* Level / section / spot / note */}
+                  <ParkingDetailsSummary details={savedLocation.details} className="mt-4" />
+                  
+                  {/* Spot photos */}
+                  <PhotoCarousel
+                    photos={savedLocation.photos ?? []}
+                    onRemove={handleRemoveSavedPhoto}
+                    className="mt-4 w-64"
+                  />
+                  <div className="flex flex-wrap justify-center gap-2 mt-4">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="rounded-full"
+                      onClick={() => setIsDetailsFormOpen(true)}
+                    >
+                      <ClipboardList className="w-4 h-4 me-2" />
+                      {t(savedLocation.details ? 'saved.editDetails' : 'saved.addDetails')}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="rounded-full"
+                      onClick={() => setIsMeterFormOpen(true)}
+                    >
+                      <Timer className="w-4 h-4 me-2" />
+                      {t(savedLocation.meter ? 'saved.editTimer' : 'saved.setTimer')}
+                    </Button>
+                    <AddPhotoButton
+                      photoCount={savedLocation.photos?.length ?? 0}
+                      onAdd={handleAddSavedPhotos}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="rounded-full"
+                      onClick={handleShareLocation}
+                    >
+                      <Share2 className="w-4 h-4 me-2" />
+                      {t('saved.share')}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="rounded-full"
+                      onClick={() => setIsQrCodeOpen(true)}
+                    >
+                      <QrCode className="w-4 h-4 me-2" />
+                      {t('saved.showQr')}
+                    </Button>
+                  </div>
                 </div>
                 
                 <Button
@@ -607,19 +1289,19 @@ export function CarFinder() {
                   size="lg"
                   className="h-20 w-64 text-xl font-semibold rounded-2xl shadow-glow"
                 >
-                  <Navigation className="w-6 h-6 mr-3" />
-                  Find My Car
+                  <Navigation className="w-6 h-6 me-3" />
+                  {t('saved.find', { vehicle: activeVehicle.name })}
                 </Button>
                 
                 <Button
-                  onClick={handleSaveLocation}
+                  onClick={handleSaveButtonClick}
                   variant="secondary"
                   size="lg"
                   className="h-14 w-64 rounded-xl"
-                  disabled={isSaving || isGeoLoading}
+                  disabled={(isSaving && !canAcceptCapture) || !isStorageLoaded}
                 >
-                  <MapPin className="w-5 h-5 mr-2" />
-                  {isSaving ? 'Saving...' : 'Update Location'}
+                  <MapPin className="w-5 h-5 me-2" />
+                  {captureProgress ? captureLabel : isSaving ? t('save.saving') : t('save.updateLocation')}
                 </Button>
               </>
             ) : (
@@ -628,27 +1310,58 @@ export function CarFinder() {
                 <div className="text-center mb-4">
                   <MapPin className="w-16 h-16 mx-auto text-primary/50 mb-4" />
                   <p className="text-muted-foreground">
-                    Tap the button below when you park
+                    {t('save.prompt')}
                   </p>
                 </div>
                 
+                {/* Photos to attach to the spot when it is saved */}
+                <div className="flex flex-col items-center gap-3 -mt-4">
+                  <PhotoCarousel
+                    photos={pendingPhotos}
+                    onRemove={(index) => setPendingPhotos((prev) => prev.filter((_, i) => i !== index))}
+                    className="w-64"
+                  />
+                  <AddPhotoButton
+                    photoCount={pendingPhotos.length}
+                    onAdd={(photos) => setPendingPhotos((prev) => [...prev, ...photos])}
+                    disabled={isSaving}
+                  />
+                </div>
+                
                 <Button
-                  onClick={handleSaveLocation}
+                  onClick={handleSaveButtonClick}
                   size="lg"
                   className="h-24 w-72 text-xl font-semibold rounded-2xl shadow-glow-lg"
-                  disabled={isSaving || isGeoLoading}
+                  disabled={(isSaving && !canAcceptCapture) || !isStorageLoaded}
                 >
-                  <MapPin className="w-7 h-7 mr-3" />
-                  {isSaving ? 'Getting Location...' : 'Set Car Location'}
+                  <MapPin className="w-7 h-7 me-3" />
+                  {captureProgress ? (
+                    <span className="flex flex-col items-start leading-tight">
+                      <span>{t('save.gettingLocation')}</span>
+                      <span className="text-sm font-normal opacity-80">{captureLabel}</span>
+                    </span>
+                  ) : isSaving ? t('save.saving') : t('save.setLocation')}
                 </Button>
               </>
             )}
             
+            {/* Receive a spot from another phone */}
+            <Button
+              onClick={() => setIsQrScannerOpen(true)}
+              variant="ghost"
+              size="sm"
+              className="text-muted-foreground"
+              disabled={isSaving || !isStorageLoaded}
+            >
+              <ScanLine className="w-4 h-4 me-2" />
+              {t('save.scanQr')}
+            </Button>
+            
             {/* GPS Error Display */}
             {geoError && (
               <div className="flex items-center gap-2 text-destructive text-sm animate-fade-in">
                 <AlertTriangle className="w-4 h-4" />
-                <span>{geoError}</span>
+                <span>{t(geoError)}</span>
               </div>
             )}
           </div>
@@ -661,9 +1374,9 @@ export function CarFinder() {
                 <div className="w-32 h-32 rounded-full bg-primary/20 border-2 border-primary flex items-center justify-center animate-pulse">
                   <Check className="w-16 h-16 text-primary" />
                 </div>
-                <h2 className="text-3xl font-bold text-primary text-glow">You found it!</h2>
+                <h2 className="text-3xl font-bold text-primary text-glow">{t('find.found')}</h2>
                 <p className="text-muted-foreground text-center">
-                  Your car should be right here
+                  {t('find.foundDescription')}
                 </p>
                 <Button
                   onClick={() => {
@@ -674,27 +1387,29 @@ export function CarFinder() {
                   size="sm"
                   className="mt-2"
                 >
-                  I'm not close to my car
+                  {t('find.notClose')}
                 </Button>
               </div>
             ) : arrivalStatus === 'close' ? (
               <div className="flex flex-col items-center gap-4">
                 <Arrow rotation={arrowRotation} isActive={isTracking} />
                 <div className="text-center">
-                  <h2 className="text-2xl font-bold text-primary">Almost there!</h2>
+                  <h2 className="text-2xl font-bold text-primary">{t('find.almostThere')}</h2>
                   <p className="text-muted-foreground mt-1">
-                    Within ~{Math.round((distanceMeters ?? 0) * 3.28084)}ft
+                    {floorDifferenceLabel ?? t('find.within', { distance: formatDistanceText(distanceMeters ?? 0, unitSystem) })}
                   </p>
                 </div>
               </div>
             ) : (
               <>
                 {/* Map or Arrow view */}
-                {showMap && savedLocation ? (
+                {showMap && targetLocation ? (
                   <CarMap
-                    carLocation={savedLocation}
-                    userLocation={effectivePosition}
-                    accuracy={effectiveAccuracy ?? undefined}
+                    carLocation={targetLocation}
+                    carMarker={temporaryTarget?.marker ?? activeVehicle}
+                    otherVehicles={otherVehicleMarkers}
+                    userLocation={position}
+                    accuracy={accuracy ?? undefined}
                   />
                 ) : (
                   <Arrow rotation={arrowRotation} isActive={isTracking} />
@@ -710,11 +1425,17 @@ export function CarFinder() {
                       {formattedDistance.unit}
                     </span>
                   </div>
+                  {floorDifferenceLabel && (
+                    <p className="flex items-center justify-center gap-1 text-sm font-medium text-warning mt-2">
+                      <Layers className="w-4 h-4" />
+                      {floorDifferenceLabel}
+                    </p>
+                  )}
                   <p className="text-sm text-muted-foreground mt-2">
-                    {cardinalDirection && `Head ${cardinalDirection}`}
-                    {!useSimpleMode && compassHeading !== null && !showMap && (
-                      <span className="ml-2 text-primary/70">
-                        • Compass active
+                    {directionText}
+                    {!useSimpleMode && fusedHeading && !showMap && (
+                      <span className="ms-2 text-primary/70">
+                        • {t(`headingSource.${fusedHeading.source}`)}
                       </span>
                     )}
                   </p>
@@ -734,13 +1455,13 @@ export function CarFinder() {
                 >
                   {showMap ? (
                     <>
-                      <Navigation className="w-4 h-4 mr-2" />
-                      Show Arrow
+                      <Navigation className="w-4 h-4 me-2" />
+                      {t('find.showArrow')}
                     </>
                   ) : (
                     <>
-                      <MapIcon className="w-4 h-4 mr-2" />
-                      Show Map
+                      <MapIcon className="w-4 h-4 me-2" />
+                      {t('find.showMap')}
                     </>
                   )}
                 </Button>
@@ -755,13 +1476,13 @@ export function CarFinder() {
                   >
                     {useSimpleMode ? (
                       <>
-                        <Compass className="w-4 h-4 mr-2" />
-                        Compass
+                        <Compass className="w-4 h-4 me-2" />
+                        {t('find.compass')}
                       </>
                     ) : (
                       <>
-                        <MapIcon className="w-4 h-4 mr-2" />
-                        Simple
+                        <MapIcon className="w-4 h-4 me-2" />
+                        {t('find.simple')}
                       </>
                     )}
                   </Button>
@@ -772,17 +1493,33 @@ export function CarFinder() {
             {/* Compass error/warning */}
             {compassError && !useSimpleMode && !showMap && arrivalStatus === 'navigating' && (
               <p className="text-xs text-warning text-center max-w-xs">
-                {compassError}
+                {t(compassError)}
               </p>
             )}
             
-            {/* GPS/Google accuracy indicator */}
-            {effectiveAccuracy && arrivalStatus !== 'found' && (
+            {/* Position source and accuracy indicator */}
+            {fusedLocation && arrivalStatus !== 'found' && (
               <p className="text-xs text-muted-foreground/70">
-                {superPreciseEnabled && isGooglePolling ? '✨ Super Precise' : 'GPS'}: ±{Math.round(effectiveAccuracy * 3.28084)}ft
+                {fusedLocation.estimated ? (
+                  <span className="text-warning">{t('find.estimatedFromSteps')}</span>
+                ) : t(fusedLocation.primary.label)}: {formatAccuracy(fusedLocation.accuracy, unitSystem)}
+                {fusedLocation.speed >= MIN_DISPLAYED_SPEED && ` • ${formatSpeed(fusedLocation.speed, unitSystem)}`}
               </p>
             )}
             
+            {/* Parking meter countdown (not for past spots from the history) */}
+            {!temporaryTarget && savedLocation?.meter && (
+              <MeterCountdown meter={savedLocation.meter} />
+            )}
+            
+            {/* Level / section / spot / note, readable while walking */}
+            <ParkingDetailsSummary details={targetLocation?.details} />
+            
+            {/* Spot photos, e.g. the pillar or row sign next to the car */}
+            {targetLocation?.photos && (
+              <PhotoCarousel photos={targetLocation.photos} className="w-64" />
+            )}
+            
             {/* Back button */}
             <Button
               onClick={handleBackToSet}
@@ -790,12 +1527,59 @@ export function CarFinder() {
               size="sm"
               className="mt-4"
             >
-              ← Back
+              <ArrowLeft className="w-4 h-4 me-2 rtl:-scale-x-100" />
+              {t('app.back')}
             </Button>
           </div>
         )}
       </main>
       
+      {/* Parking details form (opened after saving or from the saved card) */}
+      <ParkingDetailsForm
+        open={isDetailsFormOpen}
+        onOpenChange={setIsDetailsFormOpen}
+        initialDetails={savedLocation?.details}
+        onSave={handleSaveDetails}
+      />
+      
+      {/* Parking meter form */}
+      <ParkingMeterForm
+        open={isMeterFormOpen}
+        onOpenChange={setIsMeterFormOpen}
+        meter={savedLocation?.meter}
+        onSave={handleSaveMeter}
+        onRemove={handleRemoveMeter}
+      />
+      
+      {/* QR code of the saved spot */}
+      {savedLocation && (
+        <ShowQrDialog
+          open={isQrCodeOpen}
+          onOpenChange={setIsQrCodeOpen}
+          value={buildShareUrl(savedLocation, activeVehicle.name)}
+          title={`${activeVehicle.icon} ${activeVehicle.name}`}
+        />
+      )}
+      
+      {/* QR scanner for spots shared from another phone */}
+      <ScanQrDialog
+        open={isQrScannerOpen}
+        onOpenChange={setIsQrScannerOpen}
+        vehicleName={activeVehicle.name}
+        onNavigate={handleNavigateToScanned}
+        onSaveAsMine={handleSaveScannedAsMine}
+      />
+      
+      {/* Guided figure-8 when the compass looks uncalibrated */}
+      <CompassCalibrationDialog
+        open={showCalibration}
+        quality={compassQuality}
+        onDismiss={() => {
+          setIsCalibrating(false);
+          setDismissedCalibration(true);
+        }}
+      />
+      
       {/* 
         FOOTER SECTION
         Clear location button (only when location is saved)
@@ -808,8 +1592,8 @@ export function CarFinder() {
             size="sm"
             className="w-full text-destructive/70 hover:text-destructive hover:bg-destructive/10"
           >
-            <Trash2 className="w-4 h-4 mr-2" />
-            Clear Saved Location
+            <Trash2 className="w-4 h-4 me-2" />
+            {t('saved.clear')}
           </Button>
         )}
       </footer>
@@ -8,7 +8,8 @@
  * full control over map lifecycle.
  *
  * Shows:
- * - Car location as a red/orange pin
+ * - Target car location as a pin in its vehicle's color
+ * - Other parked vehicles as smaller, dimmed pins
  * - User location as a pulsing blue dot
  * - Accuracy circle around user position
  * - Auto-fit between car and user when both are available
@@ -19,11 +20,27 @@ import React, { useEffect, useMemo, useRef } from 'react';
 import L, { Map as LeafletMap, LayerGroup } from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 
+/**
+ * A parked vehicle to draw on the map
+ */
+export interface VehicleMarker {
+  id: string;
+  latitude: number;
+  longitude: number;
+  color: string;
+  icon: string;
+  name: string;
+}
+
 interface CarMapProps {
   carLocation: {
     latitude: number;
     longitude: number;
   };
+  /** Marker styling for the target car (defaults to the original orange pin) */
+  carMarker?: Pick<VehicleMarker, 'color' | 'icon' | 'name'>;
+  /** Other parked vehicles, shown for context but not used for fitting the view */
+  otherVehicles?: VehicleMarker[];
   userLocation?: {
     latitude: number;
     longitude: number;
@@ -31,18 +48,24 @@ interface CarMapProps {
   accuracy?: number;
 }
 
-// Custom car marker icon
-const carIcon = L.divIcon({
-  className: 'car-marker',
-  html: `<div class="car-pin">
-    <svg width="32" height="32" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-      <circle cx="12" cy="12" r="10" fill="hsl(25, 100%, 50%)" stroke="white" stroke-width="2"/>
-      <text x="12" y="16" text-anchor="middle" font-size="12">🚗</text>
-    </svg>
-  </div>`,
-  iconSize: [32, 32],
-  iconAnchor: [16, 16],
-});
+// Custom vehicle marker icon, colored per vehicle
+// Non-target vehicles are drawn smaller and translucent
+function createVehicleIcon(color: string, icon: string, isTarget: boolean) {
+  const size = isTarget ? 32 : 24;
+  return L.divIcon({
+    className: 'car-marker',
+    html: `<div class="car-pin" style="opacity: ${isTarget ? 1 : 0.7}">
+      <svg width="${size}" height="${size}" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+        <circle cx="12" cy="12" r="10" fill="${color}" stroke="white" stroke-width="2"/>
+        <text x="12" y="16" text-anchor="middle" font-size="12">${icon}</text>
+      </svg>
+    </div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+}
+
+const DEFAULT_CAR_MARKER = { color: 'hsl(25, 100%, 50%)', icon: '🚗', name: 'Car' };
 
 // Custom user marker icon (pulsing blue dot)
 const userIcon = L.divIcon({
@@ -52,7 +75,13 @@ const userIcon = L.divIcon({
   iconAnchor: [10, 10],
 });
 
-export function CarMap({ carLocation, userLocation, accuracy }: CarMapProps) {
+export function CarMap({
+  carLocation,
+  carMarker = DEFAULT_CAR_MARKER,
+  otherVehicles = [],
+  userLocation,
+  accuracy,
+}: CarMapProps) {
   const mapContainerRef = useRef<HTMLDivElement | null>(null);
   const mapRef = useRef<LeafletMap | null>(null);
   const layersRef = useRef<LayerGroup | null>(null);
@@ -102,11 +131,23 @@ export function CarMap({ carLocation, userLocation, accuracy }: CarMapProps) {
 
     layers.clearLayers();
 
-    // Car marker
+    // Other parked vehicles (context only)
+    for (const vehicle of otherVehicles) {
+      L.marker(L.latLng(vehicle.latitude, vehicle.longitude), {
+        icon: createVehicleIcon(vehicle.color, vehicle.icon, false),
+        title: vehicle.name,
+      }).addTo(layers);
+    }
+
+    // Target car marker
     const carLatLng = L.latLng(carLocation.latitude, carLocation.longitude);
-    L.marker(carLatLng, { icon: carIcon }).addTo(layers);
+    L.marker(carLatLng, {
+      icon: createVehicleIcon(carMarker.color, carMarker.icon, true),
+      title: carMarker.name,
+      zIndexOffset: 1000,
+    }).addTo(layers);
 
-    let bounds = L.latLngBounds(carLatLng, carLatLng);
+    const bounds = L.latLngBounds(carLatLng, carLatLng);
 
     // User marker + accuracy
     if (userLocation) {
@@ -128,7 +169,7 @@ export function CarMap({ carLocation, userLocation, accuracy }: CarMapProps) {
     } else {
       map.setView(carLatLng, 17);
     }
-  }, [carLocation, userLocation, accuracy]);
+  }, [carLocation, carMarker, otherVehicles, userLocation, accuracy]);
 
   return (
     <div className="w-screen max-w-none -mx-4 sm:-mx-6 md:-mx-8 h-72 overflow-hidden border-y border-border/50 shadow-lg" style={{ minHeight: '288px' }}>
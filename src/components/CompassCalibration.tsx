@@ -0,0 +1,117 @@
+/**
+ * =============================================================================
+ * COMPASS CALIBRATION OVERLAY
+ * =============================================================================
+ *
+ * Guides the user through the figure-8 motion that recalibrates a phone's
+ * magnetometer: an animated phone traces the figure while a live meter
+ * shows the compass quality. CarFinder closes it once the compass settles.
+ * =============================================================================
+ */
+
+import React from 'react';
+import { Compass } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useLocale } from '@/hooks/useLocale';
+import { CompassCalibration, CompassQuality } from '@/utils/compassQuality';
+import type { MessageKey } from '@/utils/i18n';
+
+/**
+ * Meter label and text color for each calibration level
+ */
+const CALIBRATION_DISPLAY: Record<CompassCalibration, { label: MessageKey; className: string }> = {
+  poor: { label: 'calibration.poor', className: 'text-destructive' },
+  fair: { label: 'calibration.fair', className: 'text-warning' },
+  good: { label: 'calibration.good', className: 'text-primary' },
+};
+
+/**
+ * Figure-8 the phone follows (viewBox 0 0 100 60)
+ */
+const FIGURE_EIGHT_PATH =
+  'M 50 30 C 65 5, 95 5, 95 30 C 95 55, 65 55, 50 30 C 35 5, 5 5, 5 30 C 5 55, 35 55, 50 30 Z';
+
+interface CompassCalibrationDialogProps {
+  open: boolean;
+  /** Called when the user closes the overlay without finishing */
+  onDismiss: () => void;
+  /** Live compass quality, null while waiting for readings */
+  quality: CompassQuality | null;
+}
+
+export function CompassCalibrationDialog({ open, onDismiss, quality }: CompassCalibrationDialogProps) {
+  const { t } = useLocale();
+  const display = quality ? CALIBRATION_DISPLAY[quality.calibration] : null;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onDismiss()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Compass className="w-5 h-5 text-primary" />
+            {t('calibration.title')}
+          </DialogTitle>
+          <DialogDescription>
+            {t('calibration.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Animated figure-8 guide */}
+        <div className="flex justify-center py-2">
+          <svg viewBox="0 0 100 60" className="w-64 h-40" aria-hidden="true">
+            <path
+              d={FIGURE_EIGHT_PATH}
+              fill="none"
+              stroke="hsl(200 100% 50% / 0.3)"
+              strokeWidth="2"
+              strokeDasharray="3 3"
+            />
+            <g>
+              <rect
+                x="-5"
+                y="-8"
+                width="10"
+                height="16"
+                rx="2"
+                fill="hsl(200 100% 50%)"
+                stroke="hsl(190 100% 70%)"
+                strokeWidth="0.75"
+              />
+              <animateMotion dur="3s" repeatCount="indefinite" rotate="auto" path={FIGURE_EIGHT_PATH} />
+            </g>
+          </svg>
+        </div>
+
+        {/* Live quality meter */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">{t('calibration.quality')}</span>
+            {quality && display ? (
+              <span className={`font-medium ${display.className}`}>
+                {t(display.label)} • ±{Math.round(quality.error)}°
+              </span>
+            ) : (
+              <span className="text-muted-foreground">{t('calibration.measuring')}</span>
+            )}
+          </div>
+          <Progress value={(quality?.score ?? 0) * 100} aria-label={t('calibration.quality')} />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onDismiss}>
+            {t('calibration.skip')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
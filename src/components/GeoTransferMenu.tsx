@@ -0,0 +1,179 @@
+/**
+ * =============================================================================
+ * GEO EXPORT / IMPORT MENU
+ * =============================================================================
+ *
+ * Menu on the history page for moving parking data in and out of the app:
+ * - Export the vehicles' current spots or the full history as GPX, KML
+ *   or GeoJSON
+ * - Import spots from any of those formats into the history
+ *
+ * Imported spots are added to the history of the selected vehicle as past
+ * sessions; they never overwrite a current saved location.
+ * =============================================================================
+ */
+
+import React, { useRef } from 'react';
+import { Download, Upload, MoreVertical } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useLocale } from '@/hooks/useLocale';
+import { formatTimestamp } from '@/utils/gps';
+import { getAllCarLocations } from '@/utils/storage';
+import { getActiveVehicleId, Vehicle } from '@/utils/vehicles';
+import { ParkingSession, importParkingSessions } from '@/utils/history';
+import {
+  GeoFormat,
+  GeoPlace,
+  GEO_FORMATS,
+  downloadGeoFile,
+  exportPlaces,
+  parseGeoFile,
+} from '@/utils/geoFormats';
+
+interface GeoTransferMenuProps {
+  sessions: ParkingSession[];
+  vehicles: Vehicle[];
+  /** Called after spots were imported so the page can reload the history */
+  onImported: () => void;
+}
+
+const FORMAT_ORDER: GeoFormat[] = ['gpx', 'kml', 'geojson'];
+
+/**
+ * File name stamp, e.g. "2024-05-01"
+ */
+function dateStamp(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function GeoTransferMenu({ sessions, vehicles, onImported }: GeoTransferMenuProps) {
+  const { t } = useLocale();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const vehicleName = (id: string) => vehicles.find((v) => v.id === id)?.name;
+
+  const handleExportCurrent = async (format: GeoFormat) => {
+    const locations = await getAllCarLocations();
+    const places: GeoPlace[] = Object.entries(locations).map(([vehicleId, location]) => ({
+      name: vehicleName(vehicleId) ?? t('vehicleType.car'),
+      vehicleName: vehicleName(vehicleId),
+      location,
+    }));
+    if (places.length === 0) {
+      toast.info(t('transfer.noCurrent'));
+      return;
+    }
+    downloadGeoFile(exportPlaces(places, format, t('transfer.currentTitle')), format, `car-finder-spots-${dateStamp()}`);
+  };
+
+  const handleExportHistory = (format: GeoFormat) => {
+    if (sessions.length === 0) {
+      toast.info(t('transfer.noHistory'));
+      return;
+    }
+    const places: GeoPlace[] = sessions.map((session) => ({
+      name: session.name || formatTimestamp(session.startedAt),
+      vehicleName: vehicleName(session.vehicleId),
+      location: session.location,
+      endedAt: session.endedAt,
+    }));
+    downloadGeoFile(exportPlaces(places, format, t('transfer.historyTitle')), format, `car-finder-history-${dateStamp()}`);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { format, places, skipped } = parseGeoFile(await file.text());
+      if (places.length === 0) {
+        toast.error(t('transfer.nothingFound'), {
+          description: skipped > 0 ? t('transfer.invalidEntries', { count: skipped }) : undefined,
+        });
+        return;
+      }
+
+      // Assign to the vehicle the file names, falling back to the selected one
+      const activeVehicleId = await getActiveVehicleId();
+      const byVehicle = new Map<string, GeoPlace[]>();
+      places.forEach((place) => {
+        const vehicleId = vehicles.find((v) => v.name === place.vehicleName)?.id ?? activeVehicleId;
+        byVehicle.set(vehicleId, [...(byVehicle.get(vehicleId) ?? []), place]);
+      });
+
+      let added = 0;
+      for (const [vehicleId, vehiclePlaces] of byVehicle) {
+        const count = await importParkingSessions(vehicleId, vehiclePlaces);
+        if (count === null) {
+          toast.error(t('transfer.importFailed'), { description: t('save.storageFull') });
+          return;
+        }
+        added += count;
+      }
+
+      const duplicates = places.length - added;
+      toast.success(t('transfer.imported', { count: added, format: GEO_FORMATS[format].label }), {
+        description: [
+          duplicates > 0 && t('transfer.duplicates', { count: duplicates }),
+          skipped > 0 && t('transfer.skipped', { count: skipped }),
+        ].filter(Boolean).join(' • ') || undefined,
+      });
+      onImported();
+    } catch (error) {
+      console.error('[GeoTransferMenu] Import failed:', error);
+      toast.error(t('transfer.readFailed'), {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".gpx,.kml,.geojson,.json,application/gpx+xml,application/vnd.google-earth.kml+xml,application/geo+json,application/json"
+        className="hidden"
+        onChange={handleImport}
+      />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" aria-label={t('transfer.menu')}>
+            <MoreVertical className="w-5 h-5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>{t('transfer.exportCurrent')}</DropdownMenuLabel>
+          {FORMAT_ORDER.map((format) => (
+            <DropdownMenuItem key={`current-${format}`} onSelect={() => handleExportCurrent(format)}>
+              <Download className="w-4 h-4 me-2" />
+              {GEO_FORMATS[format].label}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>{t('transfer.exportHistory')}</DropdownMenuLabel>
+          {FORMAT_ORDER.map((format) => (
+            <DropdownMenuItem key={`history-${format}`} onSelect={() => handleExportHistory(format)}>
+              <Download className="w-4 h-4 me-2" />
+              {GEO_FORMATS[format].label}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => inputRef.current?.click()}>
+            <Upload className="w-4 h-4 me-2" />
+            {t('transfer.import')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+}
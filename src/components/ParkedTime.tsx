@@ -0,0 +1,56 @@
+/**
+ * =============================================================================
+ * PARKED TIME - CAR FINDER PWA
+ * =============================================================================
+ *
+ * How long the car has been parked ("Parked 2h 14m ago") and when it was
+ * saved ("Yesterday at 6:40 PM"), kept current while the card is visible.
+ * =============================================================================
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useLocale } from '@/hooks/useLocale';
+import { formatParkedAgo, formatRelativeTimestamp } from '@/utils/time';
+
+/**
+ * How often the elapsed time is recalculated (ms).
+ * Durations are shown to the minute, so this keeps them at most 30s stale.
+ */
+const TICK_MS = 30000;
+
+interface ParkedTimeProps {
+  /** When the location was saved (ms) */
+  timestamp: number;
+  className?: string;
+}
+
+/**
+ * Live "parked for" duration above the relative save time.
+ */
+export function ParkedTime({ timestamp, className }: ParkedTimeProps) {
+  const [now, setNow] = useState(() => Date.now());
+  // Re-render when the language changes
+  useLocale();
+
+  useEffect(() => {
+    setNow(Date.now());
+    const intervalId = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(intervalId);
+  }, [timestamp]);
+
+  return (
+    <div className={cn('text-sm text-muted-foreground', className)}>
+      <p className="inline-flex items-center gap-1.5 font-medium text-foreground tabular-nums">
+        <Clock className="w-4 h-4" />
+        {formatParkedAgo(timestamp, now)}
+      </p>
+      <p>
+        <time dateTime={new Date(timestamp).toISOString()}>
+          {formatRelativeTimestamp(timestamp, now)}
+        </time>
+      </p>
+    </div>
+  );
+}
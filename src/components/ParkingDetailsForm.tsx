@@ -0,0 +1,154 @@
+/**
+ * =============================================================================
+ * PARKING DETAILS COMPONENTS
+ * =============================================================================
+ *
+ * Quick form for the level / section / spot number / note of a parking spot,
+ * shown right after a location is saved, plus the large summary displayed on
+ * the saved card and the find screen.
+ *
+ * The form is deliberately skippable: every field is optional and the
+ * location is already saved by the time it opens.
+ * =============================================================================
+ */
+
+import React, { useEffect, useState } from 'react';
+import { StickyNote } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { useLocale } from '@/hooks/useLocale';
+import type { MessageKey } from '@/utils/i18n';
+import {
+  ParkingDetails,
+  PARKING_DETAIL_LIMITS,
+  formatParkingDetails,
+  normalizeParkingDetails,
+} from '@/utils/parkingDetails';
+
+interface ParkingDetailsFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Details already stored with the location, if any */
+  initialDetails?: ParkingDetails;
+  /** Called with the cleaned details (undefined when every field is empty) */
+  onSave: (details: ParkingDetails | undefined) => void;
+}
+
+/**
+ * Short fields shown side by side at the top of the form
+ */
+const SHORT_FIELDS: { field: 'level' | 'section' | 'spot'; label: MessageKey; placeholder: string }[] = [
+  { field: 'level', label: 'details.levelLabel', placeholder: 'P2' },
+  { field: 'section', label: 'details.sectionLabel', placeholder: 'C' },
+  { field: 'spot', label: 'details.spotLabel', placeholder: '47' },
+];
+
+export function ParkingDetailsForm({ open, onOpenChange, initialDetails, onSave }: ParkingDetailsFormProps) {
+  const { t } = useLocale();
+  const [draft, setDraft] = useState<ParkingDetails>({});
+
+  // Start from the stored details every time the form opens
+  useEffect(() => {
+    if (open) {
+      setDraft(initialDetails ?? {});
+    }
+  }, [open, initialDetails]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSave(normalizeParkingDetails(draft));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{t('details.title')}</DialogTitle>
+            <DialogDescription>
+              {t('details.description')}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-3 gap-3">
+              {SHORT_FIELDS.map(({ field, label, placeholder }) => (
+                <div key={field} className="space-y-1.5">
+                  <Label htmlFor={`parking-${field}`}>{t(label)}</Label>
+                  <Input
+                    id={`parking-${field}`}
+                    value={draft[field] ?? ''}
+                    placeholder={placeholder}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, [field]: e.target.value }))}
+                    maxLength={PARKING_DETAIL_LIMITS[field]}
+                    autoComplete="off"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="parking-note">{t('details.noteLabel')}</Label>
+              <Textarea
+                id="parking-note"
+                value={draft.note ?? ''}
+                placeholder={t('details.notePlaceholder')}
+                onChange={(e) => setDraft((prev) => ({ ...prev, note: e.target.value }))}
+                maxLength={PARKING_DETAIL_LIMITS.note}
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              {t('details.skip')}
+            </Button>
+            <Button type="submit">{t('details.save')}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ParkingDetailsSummaryProps {
+  details?: ParkingDetails;
+  className?: string;
+}
+
+/**
+ * Large, glanceable display of the details, readable while walking
+ */
+export function ParkingDetailsSummary({ details, className }: ParkingDetailsSummaryProps) {
+  // Re-render when the language changes
+  useLocale();
+  const line = formatParkingDetails(details);
+  if (!line && !details?.note) return null;
+
+  return (
+    <div className={cn('text-center', className)}>
+      {line && (
+        <p className="text-xl font-semibold text-foreground tracking-tight">{line}</p>
+      )}
+      {details?.note && (
+        <p className="flex items-start justify-center gap-1.5 text-sm text-muted-foreground mt-1 break-words">
+          <StickyNote className="w-4 h-4 mt-0.5 shrink-0" />
+          <span>{details.note}</span>
+        </p>
+      )}
+    </div>
+  );
+}
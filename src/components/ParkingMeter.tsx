@@ -0,0 +1,248 @@
+/**
+ * =============================================================================
+ * PARKING METER COMPONENTS
+ * =============================================================================
+ *
+ * Dialog for attaching a time limit to the saved spot (quick durations or
+ * an exact end time, plus reminder lead times), and the live countdown
+ * shown on the saved card and the find screen.
+ * =============================================================================
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Timer, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import {
+  ParkingMeter,
+  REMINDER_OPTIONS,
+  METER_DURATION_PRESETS,
+  METER_WARNING_MS,
+  formatCountdown,
+  formatReminderLead,
+  getPreferredReminderMinutes,
+} from '@/utils/meter';
+import { t } from '@/utils/i18n';
+import { useLocale } from '@/hooks/useLocale';
+
+/**
+ * Formats a timestamp as the "HH:MM" value of a time input
+ */
+function toTimeInputValue(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+}
+
+/**
+ * Resolves an "HH:MM" time input value to the next occurrence of that time
+ */
+function fromTimeInputValue(value: string, now: number): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const date = new Date(now);
+  date.setHours(Number(match[1]), Number(match[2]), 0, 0);
+  if (date.getTime() <= now) {
+    date.setDate(date.getDate() + 1);
+  }
+  return date.getTime();
+}
+
+/**
+ * Formats a preset duration, e.g. "30m" or "2h"
+ */
+function formatPreset(minutes: number): string {
+  return minutes % 60 === 0
+    ? t('duration.hours', { hours: minutes / 60 })
+    : t('duration.minutes', { minutes });
+}
+
+interface ParkingMeterFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Meter already attached to the location, if any */
+  meter?: ParkingMeter;
+  onSave: (meter: ParkingMeter) => void;
+  onRemove: () => void;
+}
+
+export function ParkingMeterForm({ open, onOpenChange, meter, onSave, onRemove }: ParkingMeterFormProps) {
+  const { t } = useLocale();
+  const [endTime, setEndTime] = useState('');
+  const [reminderMinutes, setReminderMinutes] = useState<number[]>([]);
+
+  // Start from the current meter, or two hours from now, every time the form opens
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setEndTime(toTimeInputValue(meter?.expiresAt ?? Date.now() + 120 * 60000));
+    if (meter) {
+      setReminderMinutes(meter.reminderMinutes);
+    } else {
+      getPreferredReminderMinutes().then((minutes) => {
+        if (!cancelled) setReminderMinutes(minutes);
+      });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [open, meter]);
+
+  const toggleReminder = (minutes: number) => {
+    setReminderMinutes((prev) =>
+      prev.includes(minutes)
+        ? prev.filter((m) => m !== minutes)
+        : [...prev, minutes].sort((a, b) => b - a)
+    );
+  };
+
+  const expiresAt = fromTimeInputValue(endTime, Date.now());
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (expiresAt === null) return;
+    onSave({ expiresAt, reminderMinutes });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{t('meter.title')}</DialogTitle>
+            <DialogDescription>
+              {t('meter.description')}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-5 py-4">
+            {/* Quick durations from now */}
+            <div className="grid grid-cols-4 gap-2">
+              {METER_DURATION_PRESETS.map((minutes) => (
+                <Button
+                  key={minutes}
+                  type="button"
+                  variant="secondary"
+                  onClick={() => setEndTime(toTimeInputValue(Date.now() + minutes * 60000))}
+                >
+                  {formatPreset(minutes)}
+                </Button>
+              ))}
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="meter-end-time">{t('meter.expiresAt')}</Label>
+              <Input
+                id="meter-end-time"
+                type="time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+                required
+              />
+              {expiresAt !== null && (
+                <p className="text-xs text-muted-foreground">
+                  {t('meter.fromNow', { countdown: formatCountdown(expiresAt - Date.now()) })}
+                </p>
+              )}
+            </div>
+
+            {/* Reminder lead times */}
+            <div className="space-y-1.5">
+              <Label>{t('meter.remindBefore')}</Label>
+              <div className="flex flex-wrap gap-2">
+                {REMINDER_OPTIONS.map((minutes) => (
+                  <button
+                    key={minutes}
+                    type="button"
+                    onClick={() => toggleReminder(minutes)}
+                    aria-pressed={reminderMinutes.includes(minutes)}
+                    className={cn(
+                      'rounded-full border px-3 py-1 text-sm transition-colors',
+                      reminderMinutes.includes(minutes)
+                        ? 'border-primary bg-primary/10 text-foreground'
+                        : 'border-border/50 text-muted-foreground'
+                    )}
+                  >
+                    {formatReminderLead(minutes)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2 sm:justify-between">
+            {meter ? (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => {
+                  onRemove();
+                  onOpenChange(false);
+                }}
+                className="text-destructive hover:text-destructive"
+              >
+                <Trash2 className="w-4 h-4 me-2" />
+                {t('meter.remove')}
+              </Button>
+            ) : <span />}
+            <Button type="submit" disabled={expiresAt === null}>
+              {meter ? t('meter.update') : t('meter.start')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface MeterCountdownProps {
+  meter: ParkingMeter;
+  className?: string;
+}
+
+/**
+ * Live countdown to the meter's expiry, updated every second.
+ * Turns amber in the last 15 minutes and red once expired.
+ */
+export function MeterCountdown({ meter, className }: MeterCountdownProps) {
+  const { t } = useLocale();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const remaining = meter.expiresAt - now;
+
+  return (
+    <div
+      className={cn(
+        'inline-flex items-center gap-2 rounded-full border px-3 py-1 text-sm font-medium tabular-nums',
+        remaining <= 0
+          ? 'border-destructive/50 bg-destructive/10 text-destructive'
+          : remaining <= METER_WARNING_MS
+            ? 'border-warning/50 bg-warning/10 text-warning'
+            : 'border-border/50 text-foreground',
+        className
+      )}
+      role="timer"
+      aria-live="off"
+    >
+      <Timer className="w-4 h-4" />
+      {remaining > 0 ? t('meter.left', { countdown: formatCountdown(remaining) }) : t('meter.expired')}
+    </div>
+  );
+}
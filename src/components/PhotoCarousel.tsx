@@ -0,0 +1,145 @@
+/**
+ * =============================================================================
+ * PHOTO CAROUSEL COMPONENT
+ * =============================================================================
+ *
+ * Swipeable strip of photos attached to a parking spot, plus the button
+ * used to take or pick new ones.
+ *
+ * On phones the picker offers the rear camera directly (capture attribute)
+ * while still allowing photos to be chosen from the gallery.
+ * =============================================================================
+ */
+
+import React, { useRef, useState } from 'react';
+import { Camera, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel';
+import { cn } from '@/lib/utils';
+import { useLocale } from '@/hooks/useLocale';
+import { MAX_PHOTOS_PER_LOCATION, readPhotos } from '@/utils/photos';
+
+interface PhotoCarouselProps {
+  /** Photo data URLs */
+  photos: string[];
+  /** When set, each photo gets a remove button */
+  onRemove?: (index: number) => void;
+  className?: string;
+}
+
+export function PhotoCarousel({ photos, onRemove, className }: PhotoCarouselProps) {
+  const { dir, t } = useLocale();
+  if (photos.length === 0) return null;
+
+  return (
+    <Carousel className={cn('w-full', className)} opts={{ loop: photos.length > 1, direction: dir }}>
+      <CarouselContent>
+        {photos.map((photo, index) => (
+          <CarouselItem key={`${index}-${photo.length}`}>
+            <div className="relative aspect-video overflow-hidden rounded-xl border border-border/50 bg-muted">
+              <img
+                src={photo}
+                alt={t('photos.alt', { index: index + 1, total: photos.length })}
+                className="h-full w-full object-cover"
+              />
+              {onRemove && (
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  className="absolute top-2 end-2 h-7 w-7 rounded-full opacity-90"
+                  onClick={() => onRemove(index)}
+                  aria-label={t('photos.remove', { index: index + 1 })}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+              {photos.length > 1 && (
+                <span className="absolute bottom-2 end-2 rounded-full bg-background/80 px-2 py-0.5 text-xs text-foreground">
+                  {index + 1}/{photos.length}
+                </span>
+              )}
+            </div>
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+      {photos.length > 1 && (
+        <>
+          <CarouselPrevious className="start-2" aria-label={t('photos.previous')} />
+          <CarouselNext className="end-2" aria-label={t('photos.next')} />
+        </>
+      )}
+    </Carousel>
+  );
+}
+
+interface AddPhotoButtonProps {
+  /** Number of photos already attached (used to enforce the limit) */
+  photoCount: number;
+  /** Called with the processed photos */
+  onAdd: (photos: string[]) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function AddPhotoButton({ photoCount, onAdd, disabled = false, className }: AddPhotoButtonProps) {
+  const { t } = useLocale();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const remaining = MAX_PHOTOS_PER_LOCATION - photoCount;
+
+  const handleChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files || files.length === 0) return;
+
+    if (files.length > remaining) {
+      toast.info(t('photos.limit', { count: MAX_PHOTOS_PER_LOCATION }), {
+        description: t('photos.keeping', { count: remaining }),
+      });
+    }
+
+    setIsProcessing(true);
+    try {
+      const photos = await readPhotos(files, remaining);
+      if (photos.length > 0) {
+        onAdd(photos);
+      } else {
+        toast.error(t('photos.readFailed'));
+      }
+    } finally {
+      setIsProcessing(false);
+      // Allow picking the same file again
+      event.target.value = '';
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        multiple
+        className="hidden"
+        onChange={handleChange}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        className={cn('rounded-full', className)}
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || isProcessing || remaining <= 0}
+      >
+        <Camera className="w-4 h-4 me-2" />
+        {t(isProcessing ? 'photos.processing' : photoCount > 0 ? 'photos.addOne' : 'photos.addMany')}
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,182 @@
+/**
+ * =============================================================================
+ * QR CODE DIALOGS
+ * =============================================================================
+ *
+ * - ShowQrDialog: displays the saved spot as a QR code for another phone
+ * - ScanQrDialog: scans such a code with the camera and lets the user
+ *   either navigate to it or save it as their own car's location
+ * =============================================================================
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Navigation, MapPin, RotateCcw, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useLocale } from '@/hooks/useLocale';
+import { useQrScanner } from '@/hooks/useQrScanner';
+import { formatTimestamp } from '@/utils/gps';
+import { formatParkingDetails } from '@/utils/parkingDetails';
+import { SharedLocation } from '@/utils/share';
+import { generateQrDataUrl, parseScannedLocation } from '@/utils/qr';
+
+interface ShowQrDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Content to encode (the share link) */
+  value: string;
+  title: string;
+}
+
+export function ShowQrDialog({ open, onOpenChange, value, title }: ShowQrDialogProps) {
+  const { t } = useLocale();
+  const [image, setImage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setImage(null);
+    generateQrDataUrl(value)
+      .then((dataUrl) => {
+        if (!cancelled) setImage(dataUrl);
+      })
+      .catch((error) => console.error('[ShowQrDialog] QR generation failed:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, value]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {t('qr.showDescription')}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex justify-center py-2">
+          {image ? (
+            <img
+              src={image}
+              alt={t('qr.imageAlt')}
+              className="w-72 h-72 rounded-xl bg-white p-2"
+            />
+          ) : (
+            <div className="w-72 h-72 rounded-xl bg-muted animate-pulse" />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ScanQrDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Name of the active vehicle, for the "save as" action */
+  vehicleName: string;
+  onNavigate: (shared: SharedLocation) => void;
+  onSaveAsMine: (shared: SharedLocation) => void;
+}
+
+export function ScanQrDialog({ open, onOpenChange, vehicleName, onNavigate, onSaveAsMine }: ScanQrDialogProps) {
+  const { t } = useLocale();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { result, isScanning, error, start, stop } = useQrScanner(videoRef);
+
+  // Camera runs only while the dialog is open
+  useEffect(() => {
+    if (open) {
+      start();
+    } else {
+      stop();
+    }
+  }, [open, start, stop]);
+
+  const scanned = useMemo(() => (result ? parseScannedLocation(result) : null), [result]);
+  const detailsLine = formatParkingDetails(scanned?.location.details);
+
+  const finish = (action: (shared: SharedLocation) => void) => {
+    if (!scanned) return;
+    action(scanned);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{t('qr.scanTitle')}</DialogTitle>
+          <DialogDescription>
+            {t('qr.scanDescription')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {scanned ? (
+          /* Scanned a location */
+          <div className="text-center space-y-1 py-4">
+            <p className="font-medium text-foreground">
+              {scanned.name ?? t('target.sharedSpot')}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {formatTimestamp(scanned.location.timestamp)}
+            </p>
+            {detailsLine && <p className="text-sm text-foreground">{detailsLine}</p>}
+            {scanned.location.details?.note && (
+              <p className="text-sm text-muted-foreground">{scanned.location.details.note}</p>
+            )}
+          </div>
+        ) : result ? (
+          /* Scanned something that isn't a location */
+          <div className="flex flex-col items-center gap-2 py-6 text-center">
+            <AlertTriangle className="w-8 h-8 text-warning" />
+            <p className="text-sm text-muted-foreground">{t('qr.notALocation')}</p>
+          </div>
+        ) : (
+          /* Camera preview */
+          <div className="relative aspect-square w-full overflow-hidden rounded-xl bg-muted">
+            <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+            {isScanning && (
+              <div className="pointer-events-none absolute inset-[15%] rounded-xl border-2 border-primary/80" />
+            )}
+            {error && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-6 text-center">
+                <AlertTriangle className="w-8 h-8 text-warning" />
+                <p className="text-sm text-muted-foreground">{t(error)}</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {scanned ? (
+            <>
+              <Button variant="secondary" onClick={() => finish(onSaveAsMine)}>
+                <MapPin className="w-4 h-4 me-2" />
+                {t('qr.saveAs', { vehicle: vehicleName })}
+              </Button>
+              <Button onClick={() => finish(onNavigate)}>
+                <Navigation className="w-4 h-4 me-2" />
+                {t('qr.navigate')}
+              </Button>
+            </>
+          ) : (result || error) && (
+            <Button variant="secondary" onClick={start}>
+              <RotateCcw className="w-4 h-4 me-2" />
+              {t('qr.tryAgain')}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
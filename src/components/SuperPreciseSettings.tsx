@@ -5,11 +5,14 @@
  * 
  * Settings toggle and modal for configuring Super Precise Mode.
  * Users can enable the mode and paste their Google Geolocation API key.
+ * Also holds the language, the unit system, the floor height used for "levels
+ * above/below" guidance and the per-platform true-north compass correction,
+ * with the current declination shown for diagnostics.
  * =============================================================================
  */
 
 import React, { useState, useEffect } from 'react';
-import { Settings, AlertTriangle, Key, X, ExternalLink } from 'lucide-react';
+import { Settings, AlertTriangle, Key, X, ExternalLink, Layers, Compass, Ruler, Languages, Signpost } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import {
@@ -21,36 +24,130 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { toast } from 'sonner';
 import {
   saveGoogleApiKey,
   getGoogleApiKey,
   clearGoogleApiKey,
-  hasGoogleApiKey,
   setSuperPreciseMode,
   getSuperPreciseMode,
 } from '@/utils/googleGeolocation';
+import { FLOOR_HEIGHT_LIMITS, getFloorHeight, setFloorHeight } from '@/utils/altitude';
+import {
+  COMPASS_PLATFORM_LABELS,
+  CompassPlatform,
+  DEFAULT_DECLINATION_CORRECTION,
+  DeclinationCorrection,
+  formatDeclination,
+  getDeclinationCorrection,
+  setDeclinationCorrection,
+} from '@/utils/magneticModel';
+import { ORIENTATION_SOURCE_LABELS, OrientationSource } from '@/utils/orientation';
+import {
+  UNIT_SYSTEMS,
+  UnitSystem,
+  getLengthUnit,
+  getUnitSystem,
+  lengthToMeters,
+  metersToLength,
+  setUnitSystem as persistUnitSystem,
+} from '@/utils/units';
+import {
+  DIRECTION_STYLES,
+  DirectionStyle,
+  getDirectionStyle,
+  setDirectionStyle as persistDirectionStyle,
+} from '@/utils/directions';
+import {
+  LOCALE_LABELS,
+  Locale,
+  LocalePreference,
+  getLocalePreference,
+  setLocalePreference,
+} from '@/utils/i18n';
+import { useLocale } from '@/hooks/useLocale';
 
 interface SuperPreciseSettingsProps {
   onModeChange?: (enabled: boolean) => void;
+  onFloorHeightChange?: (meters: number) => void;
+  onDeclinationCorrectionChange?: (correction: DeclinationCorrection) => void;
+  onUnitSystemChange?: (system: UnitSystem) => void;
+  onDirectionStyleChange?: (style: DirectionStyle) => void;
+  /** Declination at the navigation target, for diagnostics */
+  declination?: number | null;
+  /** Compass API this device is using, null until it has reported */
+  compassPlatform?: CompassPlatform | null;
+  /** Orientation API in use and whether it's relative to north, for diagnostics */
+  orientationSource?: OrientationSource | null;
+  isAbsoluteOrientation?: boolean;
 }
 
-export function SuperPreciseSettings({ onModeChange }: SuperPreciseSettingsProps) {
+export function SuperPreciseSettings({
+  onModeChange,
+  onFloorHeightChange,
+  onDeclinationCorrectionChange,
+  onUnitSystemChange,
+  onDirectionStyleChange,
+  declination = null,
+  compassPlatform = null,
+  orientationSource = null,
+  isAbsoluteOrientation = false,
+}: SuperPreciseSettingsProps) {
+  const { t } = useLocale();
   const [isOpen, setIsOpen] = useState(false);
   const [showApiKeyInput, setShowApiKeyInput] = useState(false);
   const [apiKey, setApiKey] = useState('');
   const [isEnabled, setIsEnabled] = useState(false);
   const [hasKey, setHasKey] = useState(false);
+  const [floorHeight, setFloorHeightInput] = useState('');
+  const [correction, setCorrection] = useState<DeclinationCorrection>(DEFAULT_DECLINATION_CORRECTION);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('auto');
+  const [directionStyle, setDirectionStyle] = useState<DirectionStyle>('relative');
+  const [localePreference, setLocalePreferenceState] = useState<LocalePreference>('auto');
+  const lengthUnit = getLengthUnit(unitSystem);
+
+  /**
+   * Shows a floor height (meters) in the input, in the preferred unit
+   */
+  const showFloorHeight = (meters: number, system: UnitSystem) => {
+    setFloorHeightInput((Math.round(metersToLength(meters, system) * 10) / 10).toString());
+  };
 
   // Load saved state on mount
   useEffect(() => {
-    setIsEnabled(getSuperPreciseMode());
-    setHasKey(hasGoogleApiKey());
-    const savedKey = getGoogleApiKey();
-    if (savedKey) {
-      // Show masked key
-      setApiKey('••••••••' + savedKey.slice(-8));
-    }
+    let cancelled = false;
+    Promise.all([
+      getSuperPreciseMode(),
+      getGoogleApiKey(),
+      getFloorHeight(),
+      getDeclinationCorrection(),
+      getUnitSystem(),
+      getLocalePreference(),
+      getDirectionStyle(),
+    ]).then(([enabled, savedKey, meters, savedCorrection, savedUnits, savedLocale, savedDirectionStyle]) => {
+      if (cancelled) return;
+      setIsEnabled(enabled);
+      setLocalePreferenceState(savedLocale);
+      setUnitSystem(savedUnits);
+      setDirectionStyle(savedDirectionStyle);
+      showFloorHeight(meters, savedUnits);
+      setCorrection(savedCorrection);
+      setHasKey(!!savedKey);
+      if (savedKey) {
+        // Show masked key
+        setApiKey('••••••••' + savedKey.slice(-8));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
   const handleToggle = (checked: boolean) => {
@@ -63,51 +160,117 @@ export function SuperPreciseSettings({ onModeChange }: SuperPreciseSettingsProps
       onModeChange?.(checked);
       
       if (checked) {
-        toast.success('Super Precise Mode enabled', {
-          description: 'Using Google Geolocation API for enhanced accuracy.',
+        toast.success(t('settings.superPreciseEnabled'), {
+          description: t('settings.superPreciseEnabledDescription'),
         });
       } else {
-        toast.info('Super Precise Mode disabled', {
-          description: 'Using standard GPS.',
+        toast.info(t('settings.superPreciseDisabled'), {
+          description: t('settings.superPreciseDisabledDescription'),
         });
       }
     }
   };
 
-  const handleSaveApiKey = () => {
+  const handleSaveApiKey = async () => {
     const trimmedKey = apiKey.trim();
     
     if (!trimmedKey || trimmedKey.startsWith('••••')) {
-      toast.error('Please enter a valid API key');
+      toast.error(t('settings.apiKeyInvalid'));
       return;
     }
 
-    if (saveGoogleApiKey(trimmedKey)) {
+    if (await saveGoogleApiKey(trimmedKey)) {
       setHasKey(true);
       setIsEnabled(true);
-      setSuperPreciseMode(true);
+      await setSuperPreciseMode(true);
       onModeChange?.(true);
       setShowApiKeyInput(false);
       setApiKey('••••••••' + trimmedKey.slice(-8));
       
-      toast.success('API key saved!', {
-        description: 'Super Precise Mode is now active.',
+      toast.success(t('settings.apiKeySaved'), {
+        description: t('settings.apiKeySavedDescription'),
       });
     } else {
-      toast.error('Failed to save API key');
+      toast.error(t('settings.apiKeySaveFailed'));
     }
   };
 
-  const handleClearApiKey = () => {
-    clearGoogleApiKey();
+  const handleClearApiKey = async () => {
+    await clearGoogleApiKey();
     setHasKey(false);
     setIsEnabled(false);
-    setSuperPreciseMode(false);
+    await setSuperPreciseMode(false);
     onModeChange?.(false);
     setApiKey('');
     setShowApiKeyInput(false);
     
-    toast.success('API key removed');
+    toast.success(t('settings.apiKeyRemoved'));
+  };
+
+  const handleSaveFloorHeight = async () => {
+    // Allow for rounding of the displayed value when checking the limits
+    const meters = lengthToMeters(Number(floorHeight), unitSystem);
+    if (
+      !Number.isFinite(meters) ||
+      meters < FLOOR_HEIGHT_LIMITS.min - 0.05 ||
+      meters > FLOOR_HEIGHT_LIMITS.max + 0.05
+    ) {
+      const min = Math.ceil(metersToLength(FLOOR_HEIGHT_LIMITS.min, unitSystem) * 10) / 10;
+      const max = Math.floor(metersToLength(FLOOR_HEIGHT_LIMITS.max, unitSystem) * 10) / 10;
+      toast.error(t('settings.floorHeightRange', { min, max, unit: lengthUnit }));
+      showFloorHeight(await getFloorHeight(), unitSystem);
+      return;
+    }
+
+    const clamped = Math.min(FLOOR_HEIGHT_LIMITS.max, Math.max(FLOOR_HEIGHT_LIMITS.min, meters));
+    if (await setFloorHeight(clamped)) {
+      onFloorHeightChange?.(clamped);
+    } else {
+      toast.error(t('settings.floorHeightSaveFailed'));
+    }
+  };
+
+  const handleUnitSystemChange = async (system: UnitSystem) => {
+    const previous = unitSystem;
+    setUnitSystem(system);
+    showFloorHeight(await getFloorHeight(), system);
+
+    if (await persistUnitSystem(system)) {
+      onUnitSystemChange?.(system);
+    } else {
+      toast.error(t('settings.unitsSaveFailed'));
+      setUnitSystem(previous);
+      showFloorHeight(await getFloorHeight(), previous);
+    }
+  };
+
+  const handleDirectionStyleChange = async (style: DirectionStyle) => {
+    const previous = directionStyle;
+    setDirectionStyle(style);
+
+    if (await persistDirectionStyle(style)) {
+      onDirectionStyleChange?.(style);
+    } else {
+      toast.error(t('settings.directionsSaveFailed'));
+      setDirectionStyle(previous);
+    }
+  };
+
+  const handleLocaleChange = (preference: LocalePreference) => {
+    setLocalePreferenceState(preference);
+    setLocalePreference(preference);
+  };
+
+  const handleCorrectionToggle = async (platform: CompassPlatform, checked: boolean) => {
+    const updated = { ...correction, [platform]: checked };
+    setCorrection(updated);
+
+    if (await setDeclinationCorrection(updated)) {
+      onDeclinationCorrectionChange?.(updated);
+    } else {
+      toast.error(t('settings.compassSaveFailed'));
+      setCorrection(correction);
+    }
   };
 
   return (
@@ -116,7 +279,8 @@ export function SuperPreciseSettings({ onModeChange }: SuperPreciseSettingsProps
         <Button
           variant="ghost"
           size="icon"
-          className="absolute top-4 right-4 text-muted-foreground hover:text-foreground"
+          className="absolute top-4 end-4 text-muted-foreground hover:text-foreground"
+          aria-label={t('app.settings')}
         >
           <Settings className="w-5 h-5" />
         </Button>
@@ -126,10 +290,10 @@ export function SuperPreciseSettings({ onModeChange }: SuperPreciseSettingsProps
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Settings className="w-5 h-5 text-primary" />
-            Settings
+            {t('app.settings')}
           </DialogTitle>
           <DialogDescription>
-            Configure location precision and preferences.
+            {t('settings.description')}
           </DialogDescription>
         </DialogHeader>
 
@@ -139,11 +303,11 @@ export function SuperPreciseSettings({ onModeChange }: SuperPreciseSettingsProps
             <div className="flex-1">
               <div className="flex items-center gap-2">
                 <Key className="w-4 h-4 text-primary" />
-                <span className="font-medium">Super Precise Mode</span>
+                <span className="font-medium">{t('settings.superPrecise')}</span>
               </div>
               <p className="text-sm text-muted-foreground mt-1">
-                <AlertTriangle className="w-3 h-3 inline mr-1 text-warning" />
-                Warning: By activating this mode, you agree to use your own Google API key.
+                <AlertTriangle className="w-3 h-3 inline me-1 text-warning" />
+                {t('settings.superPreciseWarning')}
               </p>
             </div>
             <Switch
@@ -156,15 +320,15 @@ export function SuperPreciseSettings({ onModeChange }: SuperPreciseSettingsProps
           {showApiKeyInput ? (
             <div className="space-y-4 p-4 rounded-lg bg-muted/50 border border-border animate-fade-in">
               <div className="space-y-2">
-                <p className="text-sm font-medium">Enter your Google Geolocation API Key</p>
+                <p className="text-sm font-medium">{t('settings.apiKeyPrompt')}</p>
                 <p className="text-xs text-muted-foreground">
-                  Your key is stored locally on your device. Nothing is collected or sent to our servers.
+                  {t('settings.apiKeyPrivacy')}
                 </p>
               </div>
               
               <Input
                 type="password"
-                placeholder="Paste your API key here..."
+                placeholder={t('settings.apiKeyPlaceholder')}
                 value={apiKey.startsWith('••••') ? '' : apiKey}
                 onChange={(e) => setApiKey(e.target.value)}
                 className="font-mono text-sm"
@@ -176,13 +340,13 @@ export function SuperPreciseSettings({ onModeChange }: SuperPreciseSettingsProps
                   className="flex-1"
                   disabled={!apiKey || apiKey.startsWith('••••')}
                 >
-                  Save & Enable
+                  {t('settings.apiKeySave')}
                 </Button>
                 <Button
                   variant="outline"
                   onClick={() => setShowApiKeyInput(false)}
                 >
-                  Cancel
+                  {t('settings.cancel')}
                 </Button>
               </div>
 
@@ -192,15 +356,15 @@ export function SuperPreciseSettings({ onModeChange }: SuperPreciseSettingsProps
                 rel="noopener noreferrer"
                 className="flex items-center gap-1 text-xs text-primary hover:underline"
               >
-                Get an API key from Google Cloud Console
-                <ExternalLink className="w-3 h-3" />
+                {t('settings.apiKeyLink')}
+                <ExternalLink className="w-3 h-3 rtl:-scale-x-100" />
               </a>
             </div>
           ) : hasKey ? (
             <div className="p-4 rounded-lg bg-muted/50 border border-border">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm font-medium text-primary">API Key Configured</p>
+                  <p className="text-sm font-medium text-primary">{t('settings.apiKeyConfigured')}</p>
                   <p className="text-xs text-muted-foreground font-mono mt-1">
                     {apiKey}
                   </p>
@@ -211,12 +375,156 @@ export function SuperPreciseSettings({ onModeChange }: SuperPreciseSettingsProps
                   onClick={handleClearApiKey}
                   className="text-destructive hover:text-destructive"
                 >
-                  <X className="w-4 h-4 mr-1" />
-                  Remove
+                  <X className="w-4 h-4 me-1" />
+                  {t('settings.apiKeyRemove')}
                 </Button>
               </div>
             </div>
           ) : null}
+
+          {/* Language of the interface and notifications */}
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex-1">
+              <div className="flex items-center gap-2">
+                <Languages className="w-4 h-4 text-primary" />
+                <span className="font-medium">{t('settings.language')}</span>
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">
+                {t('settings.languageDescription')}
+              </p>
+            </div>
+            <Select value={localePreference} onValueChange={(value) => handleLocaleChange(value as LocalePreference)}>
+              <SelectTrigger className="w-40" aria-label={t('settings.language')}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">{t('settings.languageAuto')}</SelectItem>
+                {(Object.keys(LOCALE_LABELS) as Locale[]).map((locale) => (
+                  <SelectItem key={locale} value={locale} lang={locale}>
+                    {LOCALE_LABELS[locale]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Units for distances, accuracy, altitude and speed */}
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex-1">
+              <div className="flex items-center gap-2">
+                <Ruler className="w-4 h-4 text-primary" />
+                <span className="font-medium">{t('settings.units')}</span>
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">
+                {t('settings.unitsDescription')}
+              </p>
+            </div>
+            <Select value={unitSystem} onValueChange={(value) => handleUnitSystemChange(value as UnitSystem)}>
+              <SelectTrigger className="w-40" aria-label={t('settings.units')}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {UNIT_SYSTEMS.map((system) => (
+                  <SelectItem key={system} value={system}>
+                    {t(`units.system.${system}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* How the way to the car is phrased */}
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex-1">
+              <div className="flex items-center gap-2">
+                <Signpost className="w-4 h-4 text-primary" />
+                <span className="font-medium">{t('settings.directions')}</span>
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">
+                {t('settings.directionsDescription')}
+              </p>
+            </div>
+            <Select value={directionStyle} onValueChange={(value) => handleDirectionStyleChange(value as DirectionStyle)}>
+              <SelectTrigger className="w-40" aria-label={t('settings.directions')}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DIRECTION_STYLES.map((style) => (
+                  <SelectItem key={style} value={style}>
+                    {t(`directions.style.${style}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Floor height for multi-level garages */}
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex-1">
+              <div className="flex items-center gap-2">
+                <Layers className="w-4 h-4 text-primary" />
+                <span className="font-medium">{t('settings.floorHeight')}</span>
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">
+                {t('settings.floorHeightDescription')}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                inputMode="decimal"
+                step={lengthUnit === 'ft' ? 1 : 0.5}
+                value={floorHeight}
+                onChange={(e) => setFloorHeightInput(e.target.value)}
+                onBlur={handleSaveFloorHeight}
+                className="w-20 text-end"
+                aria-label={t(lengthUnit === 'ft' ? 'settings.floorHeightFeet' : 'settings.floorHeightMeters')}
+              />
+              <span className="text-sm text-muted-foreground">{lengthUnit}</span>
+            </div>
+          </div>
+
+          {/* True-north compass correction, per platform */}
+          <div className="space-y-3">
+            <div>
+              <div className="flex items-center gap-2">
+                <Compass className="w-4 h-4 text-primary" />
+                <span className="font-medium">{t('settings.trueNorth')}</span>
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">
+                {t('settings.trueNorthDescription')}
+              </p>
+            </div>
+            {(Object.keys(COMPASS_PLATFORM_LABELS) as CompassPlatform[]).map((platform) => (
+              <div key={platform} className="flex items-center justify-between gap-4">
+                <span className="text-sm">
+                  {COMPASS_PLATFORM_LABELS[platform]}
+                  {platform === compassPlatform && (
+                    <span className="text-muted-foreground"> {t('settings.thisDevice')}</span>
+                  )}
+                </span>
+                <Switch
+                  checked={correction[platform]}
+                  onCheckedChange={(checked) => handleCorrectionToggle(platform, checked)}
+                  aria-label={t('settings.trueNorthToggle', { platform: COMPASS_PLATFORM_LABELS[platform] })}
+                />
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground font-mono">
+              {declination !== null
+                ? t('settings.declination', { declination: formatDeclination(declination) })
+                : t('settings.declinationUnknown')}
+              {compassPlatform && declination !== null && (
+                <> • {t(correction[compassPlatform] ? 'settings.declinationApplied' : 'settings.declinationNotApplied')}</>
+              )}
+            </p>
+            {orientationSource && (
+              <p className="text-xs text-muted-foreground font-mono">
+                {t('settings.sensor', { source: ORIENTATION_SOURCE_LABELS[orientationSource] })} •{' '}
+                {t(isAbsoluteOrientation ? 'settings.sensorAbsolute' : 'settings.sensorRelative')}
+              </p>
+            )}
+          </div>
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,228 @@
+/**
+ * =============================================================================
+ * VEHICLE SWITCHER COMPONENT
+ * =============================================================================
+ *
+ * Horizontal row of vehicle chips used to pick which vehicle the save and
+ * find flows act on. Also hosts the add/edit dialog for vehicle profiles.
+ *
+ * Chips show the vehicle's color and icon, plus a dot when that vehicle
+ * currently has a saved location.
+ * =============================================================================
+ */
+
+import React, { useState } from 'react';
+import { Plus, Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { useLocale } from '@/hooks/useLocale';
+import {
+  Vehicle,
+  VehicleType,
+  VEHICLE_TYPES,
+  VEHICLE_COLORS,
+} from '@/utils/vehicles';
+
+interface VehicleSwitcherProps {
+  vehicles: Vehicle[];
+  activeVehicleId: string;
+  /** IDs of vehicles that currently have a saved location */
+  parkedVehicleIds: string[];
+  onSelect: (vehicleId: string) => void;
+  onAdd: (profile: Omit<Vehicle, 'id'>) => void;
+  onUpdate: (vehicle: Vehicle) => void;
+  onRemove: (vehicleId: string) => void;
+  /** Disables switching, e.g. while a save is in progress */
+  disabled?: boolean;
+}
+
+/**
+ * Editable fields of the profile dialog
+ */
+type VehicleDraft = Omit<Vehicle, 'id'>;
+
+const EMPTY_DRAFT: VehicleDraft = {
+  name: '',
+  type: 'car',
+  icon: VEHICLE_TYPES.car.icon,
+  color: VEHICLE_COLORS[1],
+};
+
+export function VehicleSwitcher({
+  vehicles,
+  activeVehicleId,
+  parkedVehicleIds,
+  onSelect,
+  onAdd,
+  onUpdate,
+  onRemove,
+  disabled = false,
+}: VehicleSwitcherProps) {
+  const { t } = useLocale();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<VehicleDraft>(EMPTY_DRAFT);
+
+  const openAddDialog = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (vehicle: Vehicle) => {
+    setEditingId(vehicle.id);
+    setDraft({ name: vehicle.name, type: vehicle.type, icon: vehicle.icon, color: vehicle.color });
+    setIsDialogOpen(true);
+  };
+
+  const handleTypeChange = (type: VehicleType) => {
+    setDraft((prev) => ({ ...prev, type, icon: VEHICLE_TYPES[type].icon }));
+  };
+
+  const handleSubmit = () => {
+    const name = draft.name.trim();
+    if (!name) return;
+
+    if (editingId) {
+      onUpdate({ ...draft, name, id: editingId });
+    } else {
+      onAdd({ ...draft, name });
+    }
+    setIsDialogOpen(false);
+  };
+
+  const handleRemove = () => {
+    if (editingId) {
+      onRemove(editingId);
+    }
+    setIsDialogOpen(false);
+  };
+
+  return (
+    <>
+      <div className="flex items-center gap-2 overflow-x-auto max-w-full px-1 py-1">
+        {vehicles.map((vehicle) => {
+          const isActive = vehicle.id === activeVehicleId;
+          const isParked = parkedVehicleIds.includes(vehicle.id);
+
+          return (
+            <button
+              key={vehicle.id}
+              type="button"
+              disabled={disabled}
+              onClick={() => (isActive ? openEditDialog(vehicle) : onSelect(vehicle.id))}
+              className={cn(
+                'relative flex items-center gap-2 shrink-0 rounded-full border px-3 py-1.5 text-sm transition-colors disabled:opacity-50',
+                isActive
+                  ? 'bg-primary/10 text-foreground'
+                  : 'border-border/50 text-muted-foreground hover:text-foreground'
+              )}
+              style={isActive ? { borderColor: vehicle.color } : undefined}
+              aria-pressed={isActive}
+              aria-label={t(isActive ? 'vehicle.edit' : 'vehicle.switchTo', { name: vehicle.name })}
+            >
+              <span aria-hidden>{vehicle.icon}</span>
+              <span className="max-w-[7rem] truncate">{vehicle.name}</span>
+              {isActive && <Pencil className="w-3 h-3 opacity-60" />}
+              {isParked && (
+                <span
+                  className="absolute -top-0.5 -end-0.5 w-2.5 h-2.5 rounded-full border border-background"
+                  style={{ backgroundColor: vehicle.color }}
+                />
+              )}
+            </button>
+          );
+        })}
+
+        <Button
+          variant="ghost"
+          size="icon"
+          className="shrink-0 rounded-full h-8 w-8"
+          onClick={openAddDialog}
+          disabled={disabled}
+          aria-label={t('vehicle.add')}
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t(editingId ? 'vehicle.editTitle' : 'vehicle.addTitle')}</DialogTitle>
+            <DialogDescription>
+              {t('vehicle.description')}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-5 py-2">
+            <Input
+              placeholder={t('vehicle.namePlaceholder')}
+              value={draft.name}
+              onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+              maxLength={40}
+            />
+
+            {/* Vehicle type picker */}
+            <div className="grid grid-cols-4 gap-2">
+              {(Object.keys(VEHICLE_TYPES) as VehicleType[]).map((type) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => handleTypeChange(type)}
+                  className={cn(
+                    'flex flex-col items-center gap-1 rounded-lg border p-2 text-xs transition-colors',
+                    draft.type === type
+                      ? 'border-primary bg-primary/10 text-foreground'
+                      : 'border-border/50 text-muted-foreground'
+                  )}
+                >
+                  <span className="text-xl" aria-hidden>{VEHICLE_TYPES[type].icon}</span>
+                  {t(VEHICLE_TYPES[type].label)}
+                </button>
+              ))}
+            </div>
+
+            {/* Color swatches */}
+            <div className="flex gap-3">
+              {VEHICLE_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setDraft((prev) => ({ ...prev, color }))}
+                  className={cn(
+                    'w-8 h-8 rounded-full border-2 transition-transform',
+                    draft.color === color ? 'border-foreground scale-110' : 'border-transparent'
+                  )}
+                  style={{ backgroundColor: color }}
+                  aria-label={t('vehicle.color', { color })}
+                />
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2 sm:justify-between">
+            {editingId && vehicles.length > 1 ? (
+              <Button variant="ghost" onClick={handleRemove} className="text-destructive hover:text-destructive">
+                <Trash2 className="w-4 h-4 me-2" />
+                {t('vehicle.remove')}
+              </Button>
+            ) : <span />}
+            <Button onClick={handleSubmit} disabled={!draft.name.trim()}>
+              {t(editingId ? 'vehicle.save' : 'vehicle.addTitle')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
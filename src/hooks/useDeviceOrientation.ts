@@ -6,14 +6,33 @@
  * Custom React hook for accessing device compass heading.
  * Provides the direction the device is facing in degrees from north.
  * 
- * COMPASS DATA SOURCES:
- * - iOS: Uses webkitCompassHeading (true north)
- * - Android: Uses alpha with screen orientation adjustment
+ * COMPASS DATA SOURCES (first available wins):
+ * 1. AbsoluteOrientationSensor (Generic Sensor API, Chrome on Android)
+ * 2. deviceorientationabsolute events (Chrome)
+ * 3. deviceorientation events: webkitCompassHeading on iOS (true north),
+ *    alpha/beta/gamma elsewhere (often relative to an arbitrary direction)
+ * - Except for iOS, heading is computed from the full 3D orientation (see
+ *   utils/orientation.ts), so it's right whether the phone is flat or upright
+ * - orientationSource and isAbsolute report what is in use; compassPlatform
+ *   lets callers apply magnetic declination where needed (see
+ *   utils/magneticModel.ts)
  * 
  * PERMISSION HANDLING:
  * - iOS 13+ requires explicit permission request via DeviceOrientationEvent.requestPermission()
  * - Android grants permission automatically on user gesture
  * 
+ * SMOOTHING:
+ * - Raw readings jitter by several degrees, so headings pass through a
+ *   circular low-pass filter (see utils/circularFilter.ts) that handles
+ *   the 359° → 0° wrap correctly
+ * - React state is updated at most maxUpdatesPerSecond times, and only
+ *   when the heading has visibly changed
+ * 
+ * CALIBRATION:
+ * - compassQuality reports whether the magnetometer looks calibrated, from
+ *   webkitCompassAccuracy on iOS or from erratic raw headings elsewhere
+ *   (see utils/compassQuality.ts)
+ * 
  * FALLBACK STRATEGY:
  * - If compass unavailable, isAvailable = false
  * - Parent component should offer "Simple Mode" as alternative
@@ -21,6 +40,17 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { createCircularFilter } from '../utils/circularFilter';
+import { angleDifference } from '../utils/gps';
+import { CompassPlatform } from '../utils/magneticModel';
+import { CompassQuality, createCompassQualityMonitor } from '../utils/compassQuality';
+import type { MessageKey } from '../utils/i18n';
+import {
+  OrientationSource,
+  Quaternion,
+  headingFromQuaternion,
+  quaternionFromEuler,
+} from '../utils/orientation';
 
 /**
  * Type definitions for the hook's return value
@@ -28,14 +58,24 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 interface DeviceOrientationState {
   /** Current compass heading in degrees (0-360, 0 = North) */
   heading: number | null;
+  /** Compass accuracy in degrees (iOS only), null if unknown */
+  headingAccuracy: number | null;
+  /** Which compass API the heading comes from, null until the first reading */
+  compassPlatform: CompassPlatform | null;
+  /** Orientation API in use, null until the first reading */
+  orientationSource: OrientationSource | null;
+  /** Whether headings are relative to north (false: relative to an arbitrary start) */
+  isAbsolute: boolean;
+  /** Whether the compass looks calibrated, null until enough readings */
+  compassQuality: CompassQuality | null;
   /** Whether device orientation is available and working */
   isAvailable: boolean;
   /** Whether compass data is being received */
   isActive: boolean;
   /** Whether we need to request permission (iOS 13+) */
   needsPermission: boolean;
-  /** Error message if orientation access failed */
-  error: string | null;
+  /** Message key of the error if orientation access failed */
+  error: MessageKey | null;
 }
 
 interface DeviceOrientationHook extends DeviceOrientationState {
@@ -47,6 +87,88 @@ interface DeviceOrientationHook extends DeviceOrientationState {
   stopListening: () => void;
 }
 
+/**
+ * Tuning for heading smoothing
+ */
+interface DeviceOrientationOptions {
+  /** Low-pass time constant in ms (higher = smoother but laggier, 0 = raw) */
+  smoothingMs?: number;
+  /** Upper bound on heading state updates per second */
+  maxUpdatesPerSecond?: number;
+}
+
+/**
+ * Default smoothing: steady enough to read, quick enough to follow a turn
+ */
+const DEFAULT_SMOOTHING_MS = 200;
+const DEFAULT_MAX_UPDATES_PER_SECOND = 20;
+
+/**
+ * Heading changes smaller than this (degrees) are not published
+ */
+const MIN_HEADING_CHANGE = 0.5;
+
+/**
+ * Quality score changes smaller than this are not published
+ */
+const MIN_QUALITY_CHANGE = 0.05;
+
+/**
+ * Sampling rate requested from AbsoluteOrientationSensor (Hz)
+ */
+const SENSOR_FREQUENCY = 60;
+
+/**
+ * A heading from any source, before smoothing
+ */
+interface RawHeading {
+  heading: number;
+  timestamp: number;                // DOMHighResTimeStamp (ms)
+  reportedAccuracy: number | null;  // Degrees, iOS only; negative = uncalibrated
+  platform: CompassPlatform;
+  source: OrientationSource;
+  isAbsolute: boolean;
+}
+
+/**
+ * The parts of the Generic Sensor API used here (not in TypeScript's DOM types)
+ */
+interface OrientationSensor extends EventTarget {
+  quaternion: Quaternion | null;
+  timestamp: number | null;
+  start: () => void;
+  stop: () => void;
+}
+
+type OrientationSensorConstructor = new (options: {
+  frequency?: number;
+  referenceFrame?: 'device' | 'screen';
+}) => OrientationSensor;
+
+/**
+ * Creates an AbsoluteOrientationSensor if the browser has one
+ * Construction throws when blocked by permissions policy
+ */
+function createAbsoluteOrientationSensor(): OrientationSensor | null {
+  const SensorConstructor = (window as Window & { AbsoluteOrientationSensor?: OrientationSensorConstructor })
+    .AbsoluteOrientationSensor;
+  if (!SensorConstructor) return null;
+
+  try {
+    return new SensorConstructor({ frequency: SENSOR_FREQUENCY, referenceFrame: 'device' });
+  } catch (err) {
+    console.error('[Orientation] AbsoluteOrientationSensor unavailable:', err);
+    return null;
+  }
+}
+
+/**
+ * Current screen rotation in degrees (0 in portrait)
+ */
+function getScreenAngle(): number {
+  return window.screen?.orientation?.angle || 0;
+}
+
 /**
  * Check if we're on iOS and need to request permission
  * iOS 13+ requires explicit permission for DeviceOrientationEvent
@@ -62,59 +184,144 @@ function checkNeedsPermission(): boolean {
 /**
  * Custom hook for device orientation/compass access
  * 
+ * @param options - Smoothing and update rate (defaults suit the arrow)
  * @returns DeviceOrientationHook object with heading data and control functions
  * 
  * USAGE:
  * const { heading, isAvailable, requestPermission, startListening } = useDeviceOrientation();
  */
-export function useDeviceOrientation(): DeviceOrientationHook {
+export function useDeviceOrientation(options: DeviceOrientationOptions = {}): DeviceOrientationHook {
+  const {
+    smoothingMs = DEFAULT_SMOOTHING_MS,
+    maxUpdatesPerSecond = DEFAULT_MAX_UPDATES_PER_SECOND,
+  } = options;
+  
   // State for heading and status
   const [heading, setHeading] = useState<number | null>(null);
+  const [headingAccuracy, setHeadingAccuracy] = useState<number | null>(null);
+  const [compassPlatform, setCompassPlatform] = useState<CompassPlatform | null>(null);
+  const [orientationSource, setOrientationSource] = useState<OrientationSource | null>(null);
+  const [isAbsolute, setIsAbsolute] = useState<boolean>(false);
+  const [compassQuality, setCompassQuality] = useState<CompassQuality | null>(null);
   const [isAvailable, setIsAvailable] = useState<boolean>(true);
   const [isActive, setIsActive] = useState<boolean>(false);
   const [needsPermission, setNeedsPermission] = useState<boolean>(checkNeedsPermission());
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+  
+  // Stops whichever orientation source is active
+  const stopSourceRef = useRef<(() => void) | null>(null);
   
-  // Track if listener is attached
-  const listenerRef = useRef<((event: DeviceOrientationEvent) => void) | null>(null);
+  // Heading smoothing and state update throttling
+  const filterRef = useRef(createCircularFilter(smoothingMs));
+  const lastPublishedRef = useRef<{ heading: number; time: number } | null>(null);
+  const qualityMonitorRef = useRef(createCompassQualityMonitor());
+  
+  // Whether the current source has produced any reading (the published
+  // heading is throttled, so it can't tell) and the check that it does
+  const hasReadingRef = useRef(false);
+  const availabilityTimeoutRef = useRef<number | null>(null);
+  
+  useEffect(() => {
+    filterRef.current = createCircularFilter(smoothingMs);
+  }, [smoothingMs]);
   
   /**
-   * Handle device orientation events
+   * Smooths a raw heading, tracks compass quality and publishes the
+   * result at a limited rate
+   * 
+   * @param reading - Heading from whichever source is active
+   */
+  const publishHeading = useCallback((reading: RawHeading) => {
+    const { heading: rawHeading, timestamp, reportedAccuracy } = reading;
+    
+    if (!hasReadingRef.current) {
+      hasReadingRef.current = true;
+      setIsAvailable(true);
+    }
+    
+    // Judge calibration on every raw reading, before smoothing hides the jitter
+    const quality = qualityMonitorRef.current.update(rawHeading, timestamp, reportedAccuracy);
+    if (quality) {
+      setCompassQuality((previous) =>
+        previous &&
+        previous.calibration === quality.calibration &&
+        Math.abs(previous.score - quality.score) < MIN_QUALITY_CHANGE
+          ? previous
+          : quality
+      );
+    }
+    
+    const smoothed = filterRef.current.update(rawHeading, timestamp);
+    const last = lastPublishedRef.current;
+    if (
+      last &&
+      (timestamp - last.time < 1000 / maxUpdatesPerSecond ||
+        Math.abs(angleDifference(last.heading, smoothed)) < MIN_HEADING_CHANGE)
+    ) {
+      return;
+    }
+    lastPublishedRef.current = { heading: smoothed, time: timestamp };
+    
+    setHeading(smoothed);
+    // Negative means the compass needs calibration, not an accuracy
+    setHeadingAccuracy(reportedAccuracy !== null && reportedAccuracy >= 0 ? reportedAccuracy : null);
+    setCompassPlatform(reading.platform);
+    setOrientationSource(reading.source);
+    setIsAbsolute(reading.isAbsolute);
+    setIsAvailable(true);
+    setError(null);
+  }, [maxUpdatesPerSecond]);
+  
+  /**
+   * Handle deviceorientation / deviceorientationabsolute events
    * Extracts compass heading from the event data
    * 
    * @param event - DeviceOrientationEvent from browser
    */
   const handleOrientation = useCallback((event: DeviceOrientationEvent) => {
-    let compassHeading: number | null = null;
-    
     // iOS: Use webkitCompassHeading (already in degrees from true north)
-    // @ts-ignore - webkitCompassHeading is iOS-specific
-    if (event.webkitCompassHeading !== undefined) {
-      // @ts-ignore
-      compassHeading = event.webkitCompassHeading;
+    const iosEvent = event as DeviceOrientationEvent & {
+      webkitCompassHeading?: number;
+      webkitCompassAccuracy?: number;  // Degrees of uncertainty
+    };
+    if (iosEvent.webkitCompassHeading !== undefined) {
+      publishHeading({
+        heading: iosEvent.webkitCompassHeading,
+        timestamp: event.timeStamp,
+        reportedAccuracy: iosEvent.webkitCompassAccuracy ?? null,
+        platform: 'ios',
+        source: 'deviceorientation',
+        isAbsolute: true,
+      });
+      return;
     }
-    // Android/Other: Use alpha (rotation around z-axis)
-    // Alpha is 0 when device points north
-    else if (event.alpha !== null) {
-      // Alpha gives rotation around z-axis
-      // On Android, alpha is 0 when pointing north
-      // We may need to adjust based on screen orientation
-      let alpha = event.alpha;
+    
+    // Android/Other: full orientation from alpha, beta and gamma, so the
+    // heading holds whether the phone is flat or upright
+    if (event.alpha !== null && event.beta !== null && event.gamma !== null) {
+      const heading = headingFromQuaternion(
+        quaternionFromEuler(event.alpha, event.beta, event.gamma),
+        getScreenAngle()
+      );
+      if (heading === null) return;
       
-      // Adjust for screen orientation
-      const screenOrientation = window.screen?.orientation?.angle || 0;
-      compassHeading = (360 - alpha + screenOrientation) % 360;
+      const isAbsoluteEvent = event.type === 'deviceorientationabsolute';
+      publishHeading({
+        heading,
+        timestamp: event.timeStamp,
+        reportedAccuracy: null,
+        platform: 'android',
+        source: isAbsoluteEvent ? 'deviceorientationabsolute' : 'deviceorientation',
+        // Plain deviceorientation may be relative to wherever the phone
+        // pointed at page load
+        isAbsolute: isAbsoluteEvent || event.absolute,
+      });
+      return;
     }
     
-    if (compassHeading !== null) {
-      setHeading(compassHeading);
-      setIsAvailable(true);
-      setError(null);
-    } else {
-      // No compass data available
-      setIsAvailable(false);
-    }
-  }, []);
+    // No compass data available
+    setIsAvailable(false);
+  }, [publishHeading]);
   
   /**
    * Request permission for device orientation (iOS 13+)
@@ -139,13 +346,13 @@ export function useDeviceOrientation(): DeviceOrientationHook {
         setError(null);
         return true;
       } else {
-        setError('Compass permission was denied. Simple mode will be used instead.');
+        setError('compass.error.denied');
         setIsAvailable(false);
         return false;
       }
     } catch (err) {
       console.error('[Orientation] Permission request failed:', err);
-      setError('Unable to access compass. Simple mode will be used instead.');
+      setError('compass.error.unavailable');
       setIsAvailable(false);
       return false;
     }
@@ -153,59 +360,111 @@ export function useDeviceOrientation(): DeviceOrientationHook {
   
   /**
    * Start listening for orientation updates
+   * Prefers AbsoluteOrientationSensor, then deviceorientationabsolute,
+   * then deviceorientation
    */
   const startListening = useCallback(() => {
-    // Check if DeviceOrientationEvent is supported
-    if (typeof DeviceOrientationEvent === 'undefined') {
-      setIsAvailable(false);
-      setError('Device orientation is not supported by your browser.');
-      return;
-    }
+    // Remove existing source if any
+    stopSourceRef.current?.();
+    stopSourceRef.current = null;
+    hasReadingRef.current = false;
+    if (availabilityTimeoutRef.current !== null) clearTimeout(availabilityTimeoutRef.current);
     
-    // Remove existing listener if any
-    if (listenerRef.current) {
-      window.removeEventListener('deviceorientation', listenerRef.current);
-    }
+    const listenToEvents = () => {
+      // Check if DeviceOrientationEvent is supported
+      if (typeof DeviceOrientationEvent === 'undefined') {
+        setIsAvailable(false);
+        setError('compass.error.unsupported');
+        return;
+      }
+      
+      const type = 'ondeviceorientationabsolute' in window ? 'deviceorientationabsolute' : 'deviceorientation';
+      window.addEventListener(type, handleOrientation, true);
+      stopSourceRef.current = () => window.removeEventListener(type, handleOrientation, true);
+    };
     
-    // Create and attach new listener
-    listenerRef.current = handleOrientation;
-    window.addEventListener('deviceorientation', handleOrientation, true);
+    const sensor = createAbsoluteOrientationSensor();
+    if (sensor) {
+      const handleReading = () => {
+        if (!sensor.quaternion) return;
+        const heading = headingFromQuaternion(sensor.quaternion, getScreenAngle());
+        if (heading === null) return;
+        publishHeading({
+          heading,
+          timestamp: sensor.timestamp ?? performance.now(),
+          reportedAccuracy: null,
+          platform: 'android',
+          source: 'absolute-sensor',
+          isAbsolute: true,
+        });
+      };
+      const stopSensor = () => {
+        sensor.removeEventListener('reading', handleReading);
+        sensor.removeEventListener('error', handleError);
+        sensor.stop();
+      };
+      // Permission denied or hardware missing: fall back to events
+      const handleError = (event: Event) => {
+        console.error('[Orientation] AbsoluteOrientationSensor failed:', (event as Event & { error?: Error }).error);
+        stopSensor();
+        listenToEvents();
+      };
+      
+      sensor.addEventListener('reading', handleReading);
+      sensor.addEventListener('error', handleError);
+      stopSourceRef.current = stopSensor;
+      sensor.start();
+    } else {
+      listenToEvents();
+    }
     setIsActive(true);
     
     // Set a timeout to check if we're actually receiving data
-    setTimeout(() => {
-      if (heading === null) {
-        // No heading received after 2 seconds - compass likely unavailable
+    availabilityTimeoutRef.current = window.setTimeout(() => {
+      availabilityTimeoutRef.current = null;
+      if (!hasReadingRef.current) {
+        // No reading received after 2 seconds - compass likely unavailable
         setIsAvailable(false);
       }
     }, 2000);
-  }, [handleOrientation, heading]);
+  }, [handleOrientation, publishHeading]);
   
   /**
    * Stop listening for orientation updates
    */
   const stopListening = useCallback(() => {
-    if (listenerRef.current) {
-      window.removeEventListener('deviceorientation', listenerRef.current);
-      listenerRef.current = null;
+    stopSourceRef.current?.();
+    stopSourceRef.current = null;
+    if (availabilityTimeoutRef.current !== null) {
+      clearTimeout(availabilityTimeoutRef.current);
+      availabilityTimeoutRef.current = null;
     }
+    // Don't blend the next session with a stale orientation
+    filterRef.current.reset();
+    qualityMonitorRef.current.reset();
+    lastPublishedRef.current = null;
+    setCompassQuality(null);
     setIsActive(false);
   }, []);
   
   /**
    * Cleanup effect
-   * Removes event listener when component unmounts
+   * Stops the orientation source when component unmounts
    */
   useEffect(() => {
     return () => {
-      if (listenerRef.current) {
-        window.removeEventListener('deviceorientation', listenerRef.current);
-      }
+      stopSourceRef.current?.();
+      if (availabilityTimeoutRef.current !== null) clearTimeout(availabilityTimeoutRef.current);
     };
   }, []);
   
   return {
     heading,
+    headingAccuracy,
+    compassPlatform,
+    orientationSource,
+    isAbsolute,
+    compassQuality,
     isAvailable,
     isActive,
     needsPermission,
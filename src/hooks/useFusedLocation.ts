@@ -0,0 +1,108 @@
+/**
+ * =============================================================================
+ * FUSED LOCATION HOOK - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Tracks the user's position during navigation by fusing every available
+ * LocationProvider (see utils/locationFusion.ts).
+ *
+ * The fusion layer is rebuilt whenever the provider list changes, so
+ * toggling a setting such as Super Precise Mode takes effect immediately.
+ *
+ * While tracking, walking steps (see utils/stepDetector.ts) and the compass
+ * heading keep the position moving when GPS drops out.
+ * =============================================================================
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Coordinates } from '../utils/gps';
+import { LocationProvider } from '../utils/locationProviders';
+import { FusedLocation, createLocationFusion } from '../utils/locationFusion';
+import { createStepDetector } from '../utils/stepDetector';
+import type { MessageKey } from '../utils/i18n';
+
+interface FusedLocationHook {
+  /** Current position, null until the first reading */
+  position: Coordinates | null;
+  /** Uncertainty of the position in meters */
+  accuracy: number | null;
+  /** Full fused estimate, including speed and contributing providers */
+  location: FusedLocation | null;
+  /** Message key of the latest provider error, cleared by the next reading */
+  error: MessageKey | null;
+  /** Whether providers are running */
+  isTracking: boolean;
+  /** Whether we're waiting for the first reading */
+  isLoading: boolean;
+  /** Start all providers */
+  startTracking: () => void;
+  /** Stop all providers and forget the last estimate */
+  stopTracking: () => void;
+}
+
+/**
+ * Custom hook for multi-provider position tracking
+ *
+ * @param providers - Sources to fuse; keep the array stable (useMemo)
+ * @param heading - Current compass heading, used for dead reckoning
+ * @returns FusedLocationHook object with position data and control functions
+ */
+export function useFusedLocation(providers: LocationProvider[], heading: number | null): FusedLocationHook {
+  const [location, setLocation] = useState<FusedLocation | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [isTracking, setIsTracking] = useState<boolean>(false);
+  
+  // Read by the step handler without restarting the fusion on every heading change
+  const headingRef = useRef<number | null>(heading);
+  headingRef.current = heading;
+
+  useEffect(() => {
+    if (!isTracking) return;
+
+    const fusion = createLocationFusion(providers);
+    const unsubscribe = fusion.subscribe({
+      onLocation: (next) => {
+        setLocation(next);
+        setError(null);
+      },
+      onError: (message) => setError(message),
+    });
+    fusion.start();
+
+    const stepDetector = createStepDetector((timestamp) => {
+      if (headingRef.current !== null) {
+        fusion.step(headingRef.current, timestamp);
+      }
+    });
+    stepDetector.start();
+
+    return () => {
+      stepDetector.stop();
+      unsubscribe();
+      fusion.stop();
+    };
+  }, [providers, isTracking]);
+
+  const startTracking = useCallback(() => {
+    setError(null);
+    setIsTracking(true);
+  }, []);
+
+  const stopTracking = useCallback(() => {
+    setIsTracking(false);
+    // Don't show the last session's position when tracking starts again
+    setLocation(null);
+    setError(null);
+  }, []);
+
+  return {
+    position: location?.coords ?? null,
+    accuracy: location?.accuracy ?? null,
+    location,
+    error,
+    isTracking,
+    isLoading: isTracking && !location,
+    startTracking,
+    stopTracking,
+  };
+}
@@ -8,7 +8,8 @@
  * 
  * FEATURES:
  * - Permission status tracking
- * - Continuous position updates via watchPosition
+ * - Continuous position updates via watchPosition, smoothed by a
+ *   constant-velocity Kalman filter (see utils/kalman.ts)
  * - Error handling with user-friendly messages
  * - Automatic cleanup on unmount
  * 
@@ -20,10 +21,14 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Coordinates, calculateDistance } from '../utils/gps';
+import { Coordinates } from '../utils/gps';
+import { KalmanFilter, createKalmanFilter } from '../utils/kalman';
+import { GEO_OPTIONS, getGeolocationErrorMessage } from '../utils/locationProviders';
+import type { MessageKey } from '../utils/i18n';
+import { AltitudeReading, isBetterAltitude, readAltitude } from '../utils/altitude';
 
 /**
- * Position reading with accuracy for smoothing
+ * Single position reading with accuracy
  */
 interface PositionReading {
   coords: Coordinates;
@@ -32,11 +37,39 @@ interface PositionReading {
 }
 
 /**
- * Best reading result from multi-sample capture
+ * Best reading result from an adaptive capture
  */
 export interface BestReadingResult {
   coords: Coordinates;
   accuracy: number;
+  /** Most accurate altitude among the samples, null if none reported one */
+  altitude: AltitudeReading | null;
+}
+
+/**
+ * Stop criteria for an adaptive capture
+ */
+export interface CaptureOptions {
+  /** Stop as soon as a fix is at least this accurate (meters) */
+  targetAccuracy?: number;
+  /** Stop when accuracy hasn't meaningfully improved for this long (ms) */
+  stallMs?: number;
+  /** Give up waiting for better fixes after this long (ms) */
+  timeoutMs?: number;
+}
+
+/**
+ * Live state of a running capture
+ */
+export interface CaptureProgress {
+  /** Accuracy of the best fix so far in meters, null before the first fix */
+  bestAccuracy: number | null;
+  /** Number of fixes received */
+  samples: number;
+  /** When the capture started (Unix ms) */
+  startedAt: number;
+  /** Effective timeout of this capture (ms) */
+  timeoutMs: number;
 }
 
 /**
@@ -47,12 +80,14 @@ interface GeolocationState {
   position: Coordinates | null;
   /** GPS accuracy in meters */
   accuracy: number | null;
-  /** Error message if location access failed */
-  error: string | null;
+  /** Message key of the error if location access failed */
+  error: MessageKey | null;
   /** Whether we're actively tracking position */
   isTracking: boolean;
   /** Whether we're waiting for first position */
   isLoading: boolean;
+  /** Progress of the running capture, null when not capturing */
+  captureProgress: CaptureProgress | null;
 }
 
 interface GeolocationHook extends GeolocationState {
@@ -62,139 +97,86 @@ interface GeolocationHook extends GeolocationState {
   stopTracking: () => void;
   /** Get current position once (one-shot) */
   getCurrentPosition: () => Promise<Coordinates | null>;
-  /** Get best reading from multiple samples */
-  getBestReading: (numSamples?: number) => Promise<BestReadingResult | null>;
+  /** Sample until the fix is good enough, then return the best one */
+  captureBestReading: (options?: CaptureOptions) => Promise<BestReadingResult | null>;
+  /** Stop a running capture early, keeping the best fix so far */
+  acceptCapture: () => void;
 }
 
 /**
- * Geolocation options for the API
- * enableHighAccuracy: Use GPS if available (more accurate but slower)
- * timeout: Max time to wait for position (ms)
- * maximumAge: Accept cached position if this recent (ms)
+ * Default capture stop criteria
+ * Open-sky fixes reach the target within a few seconds; in garages the
+ * capture waits for accuracy to stop improving instead
  */
-const GEO_OPTIONS: PositionOptions = {
-  enableHighAccuracy: true,
-  timeout: 15000,        // 15 seconds timeout
-  maximumAge: 0,         // Always get fresh position
+const DEFAULT_CAPTURE_OPTIONS: Required<CaptureOptions> = {
+  targetAccuracy: 5,
+  stallMs: 8000,
+  timeoutMs: 30000,
 };
 
 /**
- * Convert GeolocationPositionError to user-friendly message
+ * Fixes required before a capture may stop because of a stall
  */
-function getErrorMessage(error: GeolocationPositionError): string {
-  switch (error.code) {
-    case error.PERMISSION_DENIED:
-      return 'Location access denied. Please enable location permissions in your browser settings.';
-    case error.POSITION_UNAVAILABLE:
-      return 'Unable to determine your location. Please check that GPS is enabled.';
-    case error.TIMEOUT:
-      return 'Location request timed out. Please try again in an open area.';
-    default:
-      return 'An unknown error occurred while getting your location.';
-  }
-}
+const MIN_CAPTURE_SAMPLES = 3;
 
-// Configuration for position smoothing
-const POSITION_BUFFER_SIZE = 5;
-const MOVEMENT_THRESHOLD_FACTOR = 0.5; // Only update if moved more than 50% of accuracy
+/**
+ * Relative accuracy gain (10%) that counts as an improvement
+ */
+const STALL_MIN_IMPROVEMENT = 0.1;
 
 /**
- * Custom hook for geolocation access with position smoothing
+ * Custom hook for geolocation access with Kalman-filtered tracking
  * 
  * @returns GeolocationHook object with position data and control functions
  * 
  * USAGE:
- * const { position, error, isTracking, startTracking, stopTracking, getBestReading } = useGeolocation();
+ * const { position, error, isTracking, startTracking, stopTracking, captureBestReading } = useGeolocation();
  */
 export function useGeolocation(): GeolocationHook {
   // State for position and status
   const [position, setPosition] = useState<Coordinates | null>(null);
   const [accuracy, setAccuracy] = useState<number | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
   const [isTracking, setIsTracking] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   
   // Ref to store the watch ID for cleanup
   const watchIdRef = useRef<number | null>(null);
   
-  // Buffer for position smoothing
-  const positionBufferRef = useRef<PositionReading[]>([]);
-  const lastReportedPositionRef = useRef<Coordinates | null>(null);
+  // Kalman filter smoothing the watchPosition stream
+  const filterRef = useRef<KalmanFilter>(createKalmanFilter());
   
-  /**
-   * Calculate weighted average position from buffer
-   * Positions with better accuracy get higher weight
-   */
-  const calculateSmoothedPosition = useCallback((buffer: PositionReading[]): { coords: Coordinates; accuracy: number } | null => {
-    if (buffer.length === 0) return null;
-    
-    // Weight by inverse of accuracy (lower accuracy value = more accurate = higher weight)
-    let totalWeight = 0;
-    let weightedLat = 0;
-    let weightedLng = 0;
-    let bestAccuracy = Infinity;
-    
-    for (const reading of buffer) {
-      const weight = 1 / reading.accuracy;
-      totalWeight += weight;
-      weightedLat += reading.coords.latitude * weight;
-      weightedLng += reading.coords.longitude * weight;
-      bestAccuracy = Math.min(bestAccuracy, reading.accuracy);
-    }
-    
-    return {
-      coords: {
-        latitude: weightedLat / totalWeight,
-        longitude: weightedLng / totalWeight,
-      },
-      accuracy: bestAccuracy,
-    };
-  }, []);
+  // Running capture, if any
+  const [captureProgress, setCaptureProgress] = useState<CaptureProgress | null>(null);
+  const captureRef = useRef<{ finish: () => void } | null>(null);
 
   /**
-   * Success callback for geolocation updates with smoothing
-   * Buffers positions and only updates if significant movement detected
+   * Success callback for geolocation updates
+   * Feeds each fix through the Kalman filter and reports its estimate,
+   * whose accuracy reflects the filter's actual uncertainty
    */
   const handleSuccess = useCallback((pos: GeolocationPosition) => {
-    const newReading: PositionReading = {
+    const estimate = filterRef.current.update({
       coords: {
         latitude: pos.coords.latitude,
         longitude: pos.coords.longitude,
       },
       accuracy: pos.coords.accuracy,
       timestamp: pos.timestamp,
-    };
-    
-    // Add to buffer, keeping only last N readings
-    positionBufferRef.current.push(newReading);
-    if (positionBufferRef.current.length > POSITION_BUFFER_SIZE) {
-      positionBufferRef.current.shift();
-    }
-    
-    // Calculate smoothed position
-    const smoothed = calculateSmoothedPosition(positionBufferRef.current);
-    if (!smoothed) return;
-    
-    // Check if we should update (either first reading or significant movement)
-    const lastPos = lastReportedPositionRef.current;
-    const movementThreshold = pos.coords.accuracy * MOVEMENT_THRESHOLD_FACTOR;
-    
-    if (!lastPos || calculateDistance(lastPos, smoothed.coords) > movementThreshold) {
-      setPosition(smoothed.coords);
-      setAccuracy(smoothed.accuracy);
-      lastReportedPositionRef.current = smoothed.coords;
-    }
-    
+    });
+
+    setPosition(estimate.coords);
+    setAccuracy(estimate.accuracy);
     setError(null);
     setIsLoading(false);
-  }, [calculateSmoothedPosition]);
+  }, []);
   
   /**
    * Error callback for geolocation failures
    * Converts error code to user-friendly message
    */
   const handleError = useCallback((err: GeolocationPositionError) => {
-    setError(getErrorMessage(err));
+    setError(getGeolocationErrorMessage(err));
     setIsLoading(false);
   }, []);
   
@@ -205,7 +187,7 @@ export function useGeolocation(): GeolocationHook {
   const startTracking = useCallback(() => {
     // Check if geolocation is supported
     if (!navigator.geolocation) {
-      setError('Geolocation is not supported by your browser.');
+      setError('location.error.unsupported');
       return;
     }
     
@@ -217,6 +199,7 @@ export function useGeolocation(): GeolocationHook {
     setIsLoading(true);
     setIsTracking(true);
     setError(null);
+    filterRef.current.reset();
     
     // Start watching position
     watchIdRef.current = navigator.geolocation.watchPosition(
@@ -247,7 +230,7 @@ export function useGeolocation(): GeolocationHook {
    */
   const getCurrentPosition = useCallback(async (): Promise<Coordinates | null> => {
     if (!navigator.geolocation) {
-      setError('Geolocation is not supported by your browser.');
+      setError('location.error.unsupported');
       return null;
     }
     
@@ -276,68 +259,116 @@ export function useGeolocation(): GeolocationHook {
   }, [handleError]);
 
   /**
-   * Get best reading from multiple GPS samples
-   * Takes N readings and returns the one with best accuracy
+   * Adaptive save-time capture
+   * Watches the GPS and keeps the most accurate fix until one of:
+   * - the fix is accurate enough (targetAccuracy)
+   * - accuracy has stopped improving (stallMs without a meaningful gain)
+   * - the overall timeout is reached
+   * - the user accepts the current best fix (acceptCapture)
    * 
-   * @param numSamples Number of readings to take (default 3)
-   * @returns Promise resolving to best reading or null on error
+   * Progress is published through captureProgress while it runs.
+   * 
+   * @param options Stop criteria (defaults suit parking)
+   * @returns Promise resolving to the best fix, or null if none arrived
    */
-  const getBestReading = useCallback(async (numSamples: number = 3): Promise<BestReadingResult | null> => {
+  const captureBestReading = useCallback((options: CaptureOptions = {}): Promise<BestReadingResult | null> => {
     if (!navigator.geolocation) {
-      setError('Geolocation is not supported by your browser.');
-      return null;
+      setError('location.error.unsupported');
+      return Promise.resolve(null);
     }
     
-    setIsLoading(true);
-    setError(null);
+    // Only one capture at a time
+    captureRef.current?.finish();
     
-    const readings: PositionReading[] = [];
+    const { targetAccuracy, stallMs, timeoutMs } = { ...DEFAULT_CAPTURE_OPTIONS, ...options };
+    const startedAt = Date.now();
+    let best: PositionReading | null = null;
+    let bestAltitude: AltitudeReading | null = null;
+    let samples = 0;
+    let lastImprovementAt = startedAt;
     
-    // Take multiple readings with a delay between each
-    for (let i = 0; i < numSamples; i++) {
-      try {
-        const pos = await new Promise<GeolocationPosition>((resolve, reject) => {
-          navigator.geolocation.getCurrentPosition(resolve, reject, GEO_OPTIONS);
-        });
-        
-        readings.push({
-          coords: {
-            latitude: pos.coords.latitude,
-            longitude: pos.coords.longitude,
-          },
-          accuracy: pos.coords.accuracy,
-          timestamp: pos.timestamp,
-        });
+    setError(null);
+    setCaptureProgress({ bestAccuracy: null, samples: 0, startedAt, timeoutMs });
+    
+    return new Promise((resolve) => {
+      let watchId: number | null = null;
+      let timeoutId: number | null = null;
+      
+      const finish = () => {
+        if (captureRef.current !== capture) return;
+        captureRef.current = null;
+        if (watchId !== null) navigator.geolocation.clearWatch(watchId);
+        if (timeoutId !== null) window.clearTimeout(timeoutId);
+        setCaptureProgress(null);
         
-        // Small delay between readings (except last one)
-        if (i < numSamples - 1) {
-          await new Promise(r => setTimeout(r, 800));
+        if (!best) {
+          resolve(null);
+          return;
         }
-      } catch (err) {
-        // If one reading fails, continue with others
-        console.warn('[Geolocation] Sample failed:', err);
-      }
-    }
-    
-    setIsLoading(false);
-    
-    if (readings.length === 0) {
-      setError('Failed to get any GPS readings.');
-      return null;
-    }
-    
-    // Find reading with best accuracy
-    const bestReading = readings.reduce((best, current) => 
-      current.accuracy < best.accuracy ? current : best
-    );
-    
-    setPosition(bestReading.coords);
-    setAccuracy(bestReading.accuracy);
-    
-    return {
-      coords: bestReading.coords,
-      accuracy: bestReading.accuracy,
-    };
+        setPosition(best.coords);
+        setAccuracy(best.accuracy);
+        resolve({ coords: best.coords, accuracy: best.accuracy, altitude: bestAltitude });
+      };
+      const capture = { finish };
+      captureRef.current = capture;
+      
+      watchId = navigator.geolocation.watchPosition(
+        (pos) => {
+          samples++;
+          const reading: PositionReading = {
+            coords: {
+              latitude: pos.coords.latitude,
+              longitude: pos.coords.longitude,
+            },
+            accuracy: pos.coords.accuracy,
+            timestamp: pos.timestamp,
+          };
+          
+          // Altitude is judged on its own accuracy, independently of the horizontal fix
+          const altitude = readAltitude(pos.coords);
+          if (altitude && isBetterAltitude(altitude, bestAltitude)) {
+            bestAltitude = altitude;
+          }
+          
+          if (!best || reading.accuracy < best.accuracy) {
+            // Small wobbles don't count as progress for stall detection
+            if (!best || reading.accuracy < best.accuracy * (1 - STALL_MIN_IMPROVEMENT)) {
+              lastImprovementAt = Date.now();
+            }
+            best = reading;
+          }
+          setCaptureProgress({ bestAccuracy: best.accuracy, samples, startedAt, timeoutMs });
+          
+          const stalled = samples >= MIN_CAPTURE_SAMPLES && Date.now() - lastImprovementAt >= stallMs;
+          if (best.accuracy <= targetAccuracy || stalled) {
+            finish();
+          }
+        },
+        (err) => {
+          // Transient errors are ignored; the watch keeps trying until the timeout
+          console.warn('[Geolocation] Capture sample failed:', err);
+          if (err.code === err.PERMISSION_DENIED) {
+            handleError(err);
+            finish();
+          }
+        },
+        GEO_OPTIONS
+      );
+      
+      timeoutId = window.setTimeout(() => {
+        if (!best) {
+          setError('location.error.noReadings');
+        }
+        finish();
+      }, timeoutMs);
+    });
+  }, [handleError]);
+  
+  /**
+   * Finish a running capture now with the best fix so far
+   */
+  const acceptCapture = useCallback(() => {
+    captureRef.current?.finish();
   }, []);
   
   /**
@@ -349,6 +380,7 @@ export function useGeolocation(): GeolocationHook {
       if (watchIdRef.current !== null) {
         navigator.geolocation.clearWatch(watchIdRef.current);
       }
+      captureRef.current?.finish();
     };
   }, []);
   
@@ -358,9 +390,11 @@ export function useGeolocation(): GeolocationHook {
     error,
     isTracking,
     isLoading,
+    captureProgress,
     startTracking,
     stopTracking,
     getCurrentPosition,
-    getBestReading,
+    captureBestReading,
+    acceptCapture,
   };
 }
@@ -0,0 +1,26 @@
+/**
+ * =============================================================================
+ * LOCALE HOOK - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Gives components the current language and re-renders them when it
+ * changes (see utils/i18n.ts).
+ * =============================================================================
+ */
+
+import { useSyncExternalStore } from 'react';
+import { Locale, TextDirection, getLocale, getTextDirection, subscribeLocale, t } from '../utils/i18n';
+
+interface LocaleHook {
+  /** Current language */
+  locale: Locale;
+  /** Text direction of the language */
+  dir: TextDirection;
+  /** Message lookup (see i18n.ts) */
+  t: typeof t;
+}
+
+export function useLocale(): LocaleHook {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  return { locale, dir: getTextDirection(locale), t };
+}
@@ -0,0 +1,148 @@
+/**
+ * =============================================================================
+ * QR SCANNER HOOK - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Streams the rear camera into a <video> element and decodes QR codes from
+ * its frames until one is found.
+ *
+ * FLOW:
+ * 1. start() requests the camera (getUserMedia) and begins playback
+ * 2. Frames are sampled onto an offscreen canvas a few times per second
+ * 3. The first decoded code is reported and the camera is released
+ *
+ * The camera is always released on stop() and when the component unmounts.
+ * =============================================================================
+ */
+
+import { useState, useEffect, useCallback, useRef, RefObject } from 'react';
+import { decodeQrFromImage } from '../utils/qr';
+import type { MessageKey } from '../utils/i18n';
+
+/**
+ * Minimum time between decode attempts, in milliseconds
+ * Decoding full frames is expensive; ~6 per second is plenty for a QR code
+ */
+const SCAN_INTERVAL_MS = 150;
+
+/**
+ * Longest frame edge passed to the decoder, in pixels
+ */
+const MAX_SCAN_DIMENSION = 640;
+
+interface QrScannerHook {
+  /** Text of the decoded QR code, once found */
+  result: string | null;
+  /** Whether the camera is currently streaming */
+  isScanning: boolean;
+  /** Message key of the error if the camera could not be opened */
+  error: MessageKey | null;
+  /** Open the camera and start scanning (clears any previous result) */
+  start: () => Promise<void>;
+  /** Release the camera */
+  stop: () => void;
+}
+
+/**
+ * Custom hook for scanning QR codes with the device camera
+ *
+ * @param videoRef - Video element the camera preview is shown in
+ * @returns QrScannerHook object with scan state and control functions
+ */
+export function useQrScanner(videoRef: RefObject<HTMLVideoElement>): QrScannerHook {
+  const [result, setResult] = useState<string | null>(null);
+  const [isScanning, setIsScanning] = useState<boolean>(false);
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  const streamRef = useRef<MediaStream | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  const stop = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
+    }
+    setIsScanning(false);
+  }, [videoRef]);
+
+  const scanLoop = useCallback(() => {
+    let lastScan = 0;
+
+    const tick = (now: number) => {
+      const video = videoRef.current;
+      frameRef.current = requestAnimationFrame(tick);
+      if (!video || video.readyState < video.HAVE_ENOUGH_DATA || now - lastScan < SCAN_INTERVAL_MS) {
+        return;
+      }
+      lastScan = now;
+
+      const scale = Math.min(1, MAX_SCAN_DIMENSION / Math.max(video.videoWidth, video.videoHeight));
+      const width = Math.round(video.videoWidth * scale);
+      const height = Math.round(video.videoHeight * scale);
+      const canvas = canvasRef.current ?? (canvasRef.current = document.createElement('canvas'));
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+      if (!context) return;
+
+      context.drawImage(video, 0, 0, width, height);
+      const text = decodeQrFromImage(context.getImageData(0, 0, width, height));
+      if (text) {
+        setResult(text);
+        stop();
+      }
+    };
+
+    frameRef.current = requestAnimationFrame(tick);
+  }, [videoRef, stop]);
+
+  const start = useCallback(async () => {
+    stop();
+    setResult(null);
+    setError(null);
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('qr.error.unsupported');
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment' },
+        audio: false,
+      });
+      streamRef.current = stream;
+
+      const video = videoRef.current;
+      if (!video) {
+        stop();
+        return;
+      }
+      video.srcObject = stream;
+      video.setAttribute('playsinline', 'true'); // Keep iOS from going fullscreen
+      await video.play();
+
+      setIsScanning(true);
+      scanLoop();
+    } catch (err) {
+      console.error('[QrScanner] Camera error:', err);
+      stop();
+      setError(
+        err instanceof DOMException && err.name === 'NotAllowedError'
+          ? 'qr.error.denied'
+          : 'qr.error.failed'
+      );
+    }
+  }, [videoRef, stop, scanLoop]);
+
+  // Release the camera on unmount
+  useEffect(() => stop, [stop]);
+
+  return { result, isScanning, error, start, stop };
+}
@@ -0,0 +1,390 @@
+/**
+ * =============================================================================
+ * GERMAN MESSAGES - CAR FINDER PWA
+ * =============================================================================
+ */
+
+import type { Message, MessageKey } from '../utils/i18n';
+
+export const de: Record<MessageKey, Message> = {
+  // App shell
+  'app.title': 'Car Finder',
+  'app.history': 'Parkverlauf',
+  'app.settings': 'Einstellungen',
+  'app.back': 'Zurück',
+  'app.superPreciseActive': '✨ Superpräzise-Modus aktiv',
+
+  // Unknown route
+  'notFound.title': '404',
+  'notFound.message': 'Hoppla! Seite nicht gefunden',
+  'notFound.home': 'Zur Startseite',
+
+  // Header subtitle
+  'header.save': 'Standort von {vehicle} speichern',
+  'header.navigateTo': 'Navigation zu {target}',
+  'header.navigateToVehicle': 'Navigation zu {vehicle}',
+
+  // Navigation targets other than the saved car
+  'target.pastSpot': 'Früherer Parkplatz',
+  'target.sharedSpot': 'Geteilter Parkplatz',
+  'target.sharedNamed': '{name} (geteilt)',
+  'target.sharedUnnamed': 'dem geteilten Parkplatz',
+
+  // Saving a location
+  'save.prompt': 'Tippe beim Parken auf die Schaltfläche unten',
+  'save.setLocation': 'Standort speichern',
+  'save.updateLocation': 'Standort aktualisieren',
+  'save.saving': 'Wird gespeichert...',
+  'save.gettingLocation': 'Standort wird ermittelt...',
+  'save.waitingForGps': 'Warte auf GPS...',
+  'save.tapToSaveNow': '{accuracy} • Tippen, um jetzt zu speichern',
+  'save.scanQr': 'QR-Code scannen',
+  'save.usingSuperPrecise': 'Superpräzise-Modus wird verwendet...',
+  'save.usingSuperPreciseDescription': 'Genauerer Standort wird von Google abgerufen.',
+  'save.savedSuperPrecise': 'Standort von {vehicle} gespeichert! (Superpräzise)',
+  'save.saved': 'Standort von {vehicle} gespeichert!',
+  'save.savedDescription': 'Genauigkeit: {accuracy} • Karte wird offline gespeichert...',
+  'save.savedFromQr': 'Standort von {vehicle} aus QR-Code gespeichert',
+  'save.superPreciseFailed': 'Superpräzise-Modus fehlgeschlagen',
+  'save.superPreciseFailedDescription': 'Normales GPS wird verwendet.',
+  'save.failed': 'Standort konnte nicht gespeichert werden',
+  'save.storageFull': 'Der Speicher ist möglicherweise voll oder deaktiviert.',
+  'save.locationFailed': 'Standort konnte nicht ermittelt werden',
+  'save.locationFailedDescription': 'Bitte prüfe deine GPS-Einstellungen.',
+
+  // Location errors
+  'location.error.denied': 'Standortzugriff verweigert. Bitte erlaube den Standortzugriff in den Browsereinstellungen.',
+  'location.error.unavailable': 'Dein Standort konnte nicht ermittelt werden. Bitte prüfe, ob GPS aktiviert ist.',
+  'location.error.timeout': 'Zeitüberschreitung bei der Standortabfrage. Bitte versuche es im Freien erneut.',
+  'location.error.unknown': 'Beim Ermitteln deines Standorts ist ein unbekannter Fehler aufgetreten.',
+  'location.error.unsupported': 'Dein Browser unterstützt keine Standortbestimmung.',
+  'location.error.noReadings': 'Es konnten keine GPS-Messungen empfangen werden.',
+
+  // Saved location card
+  'saved.title': 'Standort gespeichert',
+  'saved.accuracy': 'Genauigkeit: {accuracy}',
+  'saved.altitude': 'Höhe: {altitude}',
+  'saved.addDetails': 'Details hinzufügen',
+  'saved.editDetails': 'Details bearbeiten',
+  'saved.setTimer': 'Timer stellen',
+  'saved.editTimer': 'Timer bearbeiten',
+  'saved.share': 'Teilen',
+  'saved.showQr': 'QR anzeigen',
+  'saved.find': '{vehicle} finden',
+  'saved.clear': 'Gespeicherten Standort löschen',
+  'saved.cleared': 'Standort von {vehicle} gelöscht',
+  'saved.updateFailed': 'Gespeicherter Standort konnte nicht aktualisiert werden',
+  'saved.photosAttached': { one: 'Foto angehängt', other: '{count} Fotos angehängt' },
+  'saved.detailsSaved': 'Parkdetails gespeichert',
+  'saved.detailsRemoved': 'Parkdetails entfernt',
+  'saved.timerSet': 'Parktimer gestellt',
+  'saved.timerReminders': 'Du wirst vor Ablauf erinnert.',
+  'saved.timerNoReminders': 'Aktiviere Benachrichtigungen, um Erinnerungen zu erhalten.',
+  'saved.timerRemoved': 'Parktimer entfernt',
+
+  // Photos of the spot
+  'photos.alt': 'Foto des Parkplatzes {index} von {total}',
+  'photos.remove': 'Foto {index} entfernen',
+  'photos.previous': 'Vorheriges Foto',
+  'photos.next': 'Nächstes Foto',
+  'photos.limit': { one: 'Nur {count} Foto pro Parkplatz', other: 'Nur {count} Fotos pro Parkplatz' },
+  'photos.keeping': { one: 'Das erste wird behalten.', other: 'Die ersten {count} werden behalten.' },
+  'photos.readFailed': 'Foto konnte nicht gelesen werden',
+  'photos.processing': 'Wird verarbeitet...',
+  'photos.addOne': 'Foto hinzufügen',
+  'photos.addMany': 'Fotos hinzufügen',
+
+  // Parking details
+  'details.level': 'Ebene {level}',
+  'details.section': 'Bereich {section}',
+  'details.spot': 'Stellplatz {spot}',
+  'details.title': 'Parkdetails',
+  'details.description': 'Optional. Notiere, wo im Parkhaus oder auf dem Parkplatz du stehst.',
+  'details.levelLabel': 'Ebene',
+  'details.sectionLabel': 'Bereich',
+  'details.spotLabel': 'Stellplatz',
+  'details.noteLabel': 'Notiz',
+  'details.notePlaceholder': 'z. B. Neben den Aufzügen, blaue Zone',
+  'details.skip': 'Überspringen',
+  'details.save': 'Details speichern',
+
+  // Parking timer
+  'meter.title': 'Parkzeit',
+  'meter.description': 'Lass dich erinnern, bevor deine bezahlte Parkzeit abläuft.',
+  'meter.expiresAt': 'Läuft ab um',
+  'meter.fromNow': 'In {countdown}',
+  'meter.remindBefore': 'Vorher erinnern',
+  'meter.remove': 'Entfernen',
+  'meter.update': 'Aktualisieren',
+  'meter.start': 'Timer starten',
+  'meter.left': 'Noch {countdown}',
+  'meter.expired': 'Parkzeit abgelaufen',
+  'meter.countdownExpired': 'Abgelaufen',
+  'meter.leadMinutes': { one: '{count} Minute', other: '{count} Minuten' },
+  'meter.leadHours': { one: '{count} Stunde', other: '{count} Stunden' },
+
+  // Durations and relative times
+  'duration.lessThanMinute': '<1 Min.',
+  'duration.minutes': '{minutes} Min.',
+  'duration.hours': '{hours} Std.',
+  'duration.hoursMinutes': '{hours} Std. {minutes} Min.',
+  'duration.daysHours': '{days} T. {hours} Std.',
+  'time.parkedAgo': 'Seit {duration} geparkt',
+  'time.parkedJustNow': 'Gerade geparkt',
+
+  // Parking history page
+  'history.title': 'Parkverlauf',
+  'history.count': { one: '{count} Parkplatz', other: '{count} Parkplätze' },
+  'history.empty': 'Noch keine Parkvorgänge.',
+  'history.emptyHint': 'Jeder gespeicherte Parkplatz erscheint hier.',
+  'history.namePlaceholder': 'Parkplatz benennen',
+  'history.saveName': 'Namen speichern',
+  'history.cancelRename': 'Umbenennen abbrechen',
+  'history.removedVehicle': 'Entferntes Fahrzeug',
+  'history.parkedNow': 'Jetzt geparkt • {duration}',
+  'history.parkedFor': '{duration} geparkt',
+  'history.rename': 'Parkplatz umbenennen',
+  'history.delete': 'Parkplatz löschen',
+  'history.navigate': 'Hierhin navigieren',
+  'history.deleteTitle': 'Diesen Parkplatz löschen?',
+  'history.deleteDescription': 'Er wird aus deinem Parkverlauf entfernt. Der aktuell gespeicherte Standort eines Fahrzeugs bleibt erhalten.',
+  'history.cancel': 'Abbrechen',
+  'history.confirmDelete': 'Löschen',
+  'history.deleted': 'Parkplatz gelöscht',
+  'history.deleteFailed': 'Parkplatz konnte nicht gelöscht werden',
+  'history.renameFailed': 'Parkplatz konnte nicht umbenannt werden',
+
+  // Export and import
+  'transfer.menu': 'Exportieren oder importieren',
+  'transfer.exportCurrent': 'Aktuelle Parkplätze exportieren',
+  'transfer.exportHistory': 'Verlauf exportieren',
+  'transfer.import': 'GPX / KML / GeoJSON importieren…',
+  'transfer.currentTitle': 'Car Finder - Aktuelle Parkplätze',
+  'transfer.historyTitle': 'Car Finder - Parkverlauf',
+  'transfer.noCurrent': 'Keine gespeicherten Standorte zum Exportieren',
+  'transfer.noHistory': 'Kein Parkverlauf zum Exportieren',
+  'transfer.nothingFound': 'Keine Parkplätze in der Datei gefunden',
+  'transfer.invalidEntries': { one: '{count} ungültiger Eintrag übersprungen.', other: '{count} ungültige Einträge übersprungen.' },
+  'transfer.importFailed': 'Parkplätze konnten nicht importiert werden',
+  'transfer.imported': { one: '{count} Parkplatz aus {format} importiert', other: '{count} Parkplätze aus {format} importiert' },
+  'transfer.duplicates': '{count} bereits im Verlauf',
+  'transfer.skipped': '{count} ungültige übersprungen',
+  'transfer.readFailed': 'Datei konnte nicht gelesen werden',
+  'transfer.error.invalidXml': 'Die Datei ist kein gültiges XML',
+  'transfer.error.invalidGeoJson': 'Die Datei ist kein GeoJSON-Feature und keine FeatureCollection',
+  'transfer.error.unsupported': 'Nicht unterstütztes Dateiformat (erwartet: GPX, KML oder GeoJSON)',
+
+  // Sharing
+  'share.title': 'Standort von {vehicle}',
+  'share.text': '{icon} {vehicle} parkt hier',
+  'share.textWithDetails': '{icon} {vehicle} parkt hier ({details})',
+  'share.copied': 'Link kopiert',
+  'share.copiedDescription': 'Schick ihn an die Person, die das Auto abholt.',
+  'share.failed': 'Standort konnte nicht geteilt werden',
+
+  // QR codes
+  'qr.showDescription': 'Mit Car Finder oder der Kamera-App eines anderen Handys scannen.',
+  'qr.imageAlt': 'QR-Code des gespeicherten Standorts',
+  'qr.scanTitle': 'Standort-QR scannen',
+  'qr.scanDescription': 'Richte die Kamera auf einen Car-Finder-QR-Code.',
+  'qr.notALocation': 'Dieser QR-Code enthält keinen Standort.',
+  'qr.saveAs': 'Als {vehicle} speichern',
+  'qr.navigate': 'Dorthin navigieren',
+  'qr.tryAgain': 'Erneut versuchen',
+  'qr.error.unsupported': 'Die Kamera ist in diesem Browser nicht verfügbar',
+  'qr.error.denied': 'Kamerazugriff verweigert',
+  'qr.error.failed': 'Die Kamera konnte nicht geöffnet werden',
+
+  // Shared link page
+  'sharedLink.invalidTitle': 'Ungültiger Link',
+  'sharedLink.invalidDescription': 'Dieser Standortlink ist unvollständig oder beschädigt. Bitte den Absender, ihn erneut zu teilen.',
+  'sharedLink.open': 'Car Finder öffnen',
+
+  // Vehicles
+  'vehicle.addFailed': 'Fahrzeug konnte nicht hinzugefügt werden',
+  'vehicle.updateFailed': 'Fahrzeug konnte nicht aktualisiert werden',
+  'vehicle.defaultName': 'Mein Auto',
+  'vehicle.add': 'Fahrzeug hinzufügen',
+  'vehicle.edit': '{name} bearbeiten',
+  'vehicle.switchTo': 'Zu {name} wechseln',
+  'vehicle.addTitle': 'Fahrzeug hinzufügen',
+  'vehicle.editTitle': 'Fahrzeug bearbeiten',
+  'vehicle.description': 'Jedes Fahrzeug hat seinen eigenen gespeicherten Parkplatz.',
+  'vehicle.namePlaceholder': 'Name (z. B. Blaue Limousine)',
+  'vehicle.color': 'Farbe {color}',
+  'vehicle.remove': 'Entfernen',
+  'vehicle.save': 'Speichern',
+
+  // Vehicle types
+  'vehicleType.car': 'Auto',
+  'vehicleType.suv': 'SUV',
+  'vehicleType.truck': 'Pick-up',
+  'vehicleType.van': 'Transporter',
+  'vehicleType.motorcycle': 'Motorrad',
+  'vehicleType.scooter': 'Roller',
+  'vehicleType.bicycle': 'Fahrrad',
+
+  // Find mode
+  'find.found': 'Gefunden!',
+  'find.foundDescription': 'Dein Auto sollte genau hier sein',
+  'find.notClose': 'Ich bin nicht bei meinem Auto',
+  'find.almostThere': 'Fast da!',
+  'find.within': 'Innerhalb von ~{distance}',
+  'find.head': 'Richtung {direction}',
+  'find.announcement': '{direction}, {distance}',
+  'find.showArrow': 'Pfeil anzeigen',
+  'find.showMap': 'Karte anzeigen',
+  'find.compass': 'Kompass',
+  'find.simple': 'Einfach',
+  'find.estimatedFromSteps': '👣 Aus Schritten geschätzt',
+  'find.simpleMode': 'Einfacher Modus aktiv',
+  'find.simpleModeDescription': 'Kompass nicht verfügbar. Der Pfeil zeigt die GPS-Richtung.',
+  'find.compassCalibrated': 'Kompass kalibriert',
+
+  // Where positions come from
+  'provider.gps': 'GPS',
+  'provider.google': '✨ Superpräzise',
+  'provider.mock': 'Simuliert',
+
+  // What is steering the arrow
+  'headingSource.compass': 'Kompass',
+  'headingSource.course': 'GPS-Kurs',
+  'headingSource.blended': 'Kompass + GPS-Kurs',
+
+  // Compass errors
+  'compass.error.denied': 'Der Kompasszugriff wurde verweigert. Stattdessen wird der einfache Modus verwendet.',
+  'compass.error.unavailable': 'Kein Zugriff auf den Kompass. Stattdessen wird der einfache Modus verwendet.',
+  'compass.error.unsupported': 'Dein Browser unterstützt keine Geräteausrichtung.',
+
+  // Compass calibration
+  'calibration.title': 'Kompass kalibrieren',
+  'calibration.description': 'Dein Kompass wirkt unzuverlässig. Bewege dein Handy ein paar Mal in Form einer 8 und kippe es dabei. Geh nach Möglichkeit weg von Autos und Metall.',
+  'calibration.quality': 'Kompassqualität',
+  'calibration.measuring': 'Wird gemessen...',
+  'calibration.poor': 'Schlecht',
+  'calibration.fair': 'Mittel',
+  'calibration.good': 'Gut',
+  'calibration.skip': 'Vorerst überspringen',
+
+  // Floor guidance
+  'floor.above': { one: 'Das Auto ist etwa {count} Ebene über dir', other: 'Das Auto ist etwa {count} Ebenen über dir' },
+  'floor.below': { one: 'Das Auto ist etwa {count} Ebene unter dir', other: 'Das Auto ist etwa {count} Ebenen unter dir' },
+
+  // Compass directions (32-point; 16 and 8-point use every 2nd / 4th)
+  'direction.N': 'N',
+  'direction.NbE': 'NzO',
+  'direction.NNE': 'NNO',
+  'direction.NEbN': 'NOzN',
+  'direction.NE': 'NO',
+  'direction.NEbE': 'NOzO',
+  'direction.ENE': 'ONO',
+  'direction.EbN': 'OzN',
+  'direction.E': 'O',
+  'direction.EbS': 'OzS',
+  'direction.ESE': 'OSO',
+  'direction.SEbE': 'SOzO',
+  'direction.SE': 'SO',
+  'direction.SEbS': 'SOzS',
+  'direction.SSE': 'SSO',
+  'direction.SbE': 'SzO',
+  'direction.S': 'S',
+  'direction.SbW': 'SzW',
+  'direction.SSW': 'SSW',
+  'direction.SWbS': 'SWzS',
+  'direction.SW': 'SW',
+  'direction.SWbW': 'SWzW',
+  'direction.WSW': 'WSW',
+  'direction.WbS': 'WzS',
+  'direction.W': 'W',
+  'direction.WbN': 'WzN',
+  'direction.WNW': 'WNW',
+  'direction.NWbW': 'NWzW',
+  'direction.NW': 'NW',
+  'direction.NWbN': 'NWzN',
+  'direction.NNW': 'NNW',
+  'direction.NbW': 'NzW',
+
+  // Where the car is relative to the way you face
+  'directionPhrase.ahead': 'Geradeaus',
+  'directionPhrase.slightlyLeft': 'Leicht links von dir',
+  'directionPhrase.slightlyRight': 'Leicht rechts von dir',
+  'directionPhrase.left': 'Links von dir',
+  'directionPhrase.right': 'Rechts von dir',
+  'directionPhrase.behindLeft': 'Hinter dir, links',
+  'directionPhrase.behindRight': 'Hinter dir, rechts',
+  'directionPhrase.behind': 'Hinter dir',
+  'directionPhrase.clock': 'Auf {count} Uhr',
+
+  // Direction phrasing styles
+  'directions.style.relative': 'Links / rechts',
+  'directions.style.clock': 'Zifferblatt',
+  'directions.style.compass8': 'Kompass (8 Richtungen)',
+  'directions.style.compass16': 'Kompass (16 Richtungen)',
+  'directions.style.compass32': 'Kompass (32 Richtungen)',
+
+  // Units
+  'units.steps': { one: 'Schritt', other: 'Schritte' },
+  'units.system.auto': 'Automatisch',
+  'units.system.imperial': 'Imperial (ft, mi)',
+  'units.system.metric': 'Metrisch (m, km)',
+  'units.system.steps': 'Schritte',
+
+  // Settings
+  'settings.description': 'Standortgenauigkeit und Einstellungen festlegen.',
+  'settings.superPrecise': 'Superpräzise-Modus',
+  'settings.superPreciseWarning': 'Hinweis: Mit diesem Modus stimmst du zu, deinen eigenen Google-API-Schlüssel zu verwenden.',
+  'settings.superPreciseEnabled': 'Superpräzise-Modus aktiviert',
+  'settings.superPreciseEnabledDescription': 'Die Google Geolocation API sorgt für höhere Genauigkeit.',
+  'settings.superPreciseDisabled': 'Superpräzise-Modus deaktiviert',
+  'settings.superPreciseDisabledDescription': 'Normales GPS wird verwendet.',
+  'settings.apiKeyPrompt': 'Gib deinen Google-Geolocation-API-Schlüssel ein',
+  'settings.apiKeyPrivacy': 'Dein Schlüssel wird nur auf deinem Gerät gespeichert. Nichts wird erfasst oder an unsere Server gesendet.',
+  'settings.apiKeyPlaceholder': 'API-Schlüssel hier einfügen...',
+  'settings.apiKeySave': 'Speichern & aktivieren',
+  'settings.cancel': 'Abbrechen',
+  'settings.apiKeyLink': 'API-Schlüssel in der Google Cloud Console erstellen',
+  'settings.apiKeyConfigured': 'API-Schlüssel eingerichtet',
+  'settings.apiKeyRemove': 'Entfernen',
+  'settings.apiKeyInvalid': 'Bitte gib einen gültigen API-Schlüssel ein',
+  'settings.apiKeySaved': 'API-Schlüssel gespeichert!',
+  'settings.apiKeySavedDescription': 'Der Superpräzise-Modus ist jetzt aktiv.',
+  'settings.apiKeySaveFailed': 'API-Schlüssel konnte nicht gespeichert werden',
+  'settings.apiKeyRemoved': 'API-Schlüssel entfernt',
+  'settings.language': 'Sprache',
+  'settings.languageDescription': 'Automatisch verwendet die Sprache deines Geräts.',
+  'settings.languageAuto': 'Automatisch',
+  'settings.units': 'Einheiten',
+  'settings.unitsDescription': 'Automatisch richtet sich nach der Region deines Geräts.',
+  'settings.unitsSaveFailed': 'Einheiten konnten nicht gespeichert werden',
+  'settings.directions': 'Richtungsangaben',
+  'settings.directionsDescription': 'Wie der Weg zum Auto beschrieben wird. Ohne Kompass werden Himmelsrichtungen verwendet.',
+  'settings.directionsSaveFailed': 'Einstellung für Richtungsangaben konnte nicht gespeichert werden',
+  'settings.floorHeight': 'Etagenhöhe',
+  'settings.floorHeightDescription': 'Damit wird ermittelt, wie viele Ebenen das Auto über oder unter dir steht.',
+  'settings.floorHeightFeet': 'Etagenhöhe in Fuß',
+  'settings.floorHeightMeters': 'Etagenhöhe in Metern',
+  'settings.floorHeightRange': 'Die Etagenhöhe muss zwischen {min} und {max} {unit} liegen',
+  'settings.floorHeightSaveFailed': 'Etagenhöhe konnte nicht gespeichert werden',
+  'settings.trueNorth': 'Kompass auf geografisch Nord korrigieren',
+  'settings.trueNorthDescription': 'Kompasse zeigen nach magnetisch Nord; Karten verwenden geografisch Nord.',
+  'settings.thisDevice': '(dieses Gerät)',
+  'settings.trueNorthToggle': '{platform}-Kompass auf geografisch Nord korrigieren',
+  'settings.compassSaveFailed': 'Kompass-Einstellung konnte nicht gespeichert werden',
+  'settings.declination': 'Missweisung: {declination}',
+  'settings.declinationUnknown': 'Missweisung: unbekannt (kein gespeicherter Standort)',
+  'settings.declinationApplied': 'angewendet',
+  'settings.declinationNotApplied': 'nicht angewendet',
+  'settings.sensor': 'Sensor: {source}',
+  'settings.sensorAbsolute': 'absolut',
+  'settings.sensorRelative': 'relativ (ohne Nordbezug)',
+
+  // Notifications
+  'notification.savedTitle': '{icon} Standort von {vehicle} gespeichert',
+  'notification.savedBody': 'Tippen, um zu {vehicle} zurückzufinden',
+  'notification.savedWithin': 'Genauigkeit {accuracy}',
+  'notification.findCar': 'Auto finden',
+  'notification.meterExpiresIn': 'Die Parkzeit für {vehicle} läuft in {lead} ab',
+  'notification.meterExpired': 'Die Parkzeit für {vehicle} ist abgelaufen',
+  'notification.meterLeftTitle': '⏰ {vehicle}: noch {lead}',
+  'notification.meterExpiredTitle': '⏰ {vehicle}: Parkzeit abgelaufen',
+};
@@ -0,0 +1,399 @@
+/**
+ * =============================================================================
+ * ENGLISH MESSAGES - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Reference catalog: its keys are the keys every other catalog must provide.
+ * See i18n.ts for placeholder and plural syntax.
+ * =============================================================================
+ */
+
+import type { Message } from '../utils/i18n';
+
+export const en = {
+  // App shell
+  'app.title': 'Car Finder',
+  'app.history': 'Parking history',
+  'app.settings': 'Settings',
+  'app.back': 'Back',
+  'app.superPreciseActive': '✨ Super Precise Mode Active',
+
+  // Unknown route
+  'notFound.title': '404',
+  'notFound.message': 'Oops! Page not found',
+  'notFound.home': 'Return to Home',
+
+  // Header subtitle
+  'header.save': 'Save your {vehicle} location',
+  'header.navigateTo': 'Navigate to {target}',
+  'header.navigateToVehicle': 'Navigate to your {vehicle}',
+
+  // Navigation targets other than the saved car
+  'target.pastSpot': 'Past spot',
+  'target.sharedSpot': 'Shared spot',
+  'target.sharedNamed': '{name} (shared)',
+  'target.sharedUnnamed': 'the shared spot',
+
+  // Saving a location
+  'save.prompt': 'Tap the button below when you park',
+  'save.setLocation': 'Set Car Location',
+  'save.updateLocation': 'Update Location',
+  'save.saving': 'Saving...',
+  'save.gettingLocation': 'Getting Location...',
+  'save.waitingForGps': 'Waiting for GPS...',
+  'save.tapToSaveNow': '{accuracy} • Tap to save now',
+  'save.scanQr': 'Scan QR Code',
+  'save.usingSuperPrecise': 'Using Super Precise Mode...',
+  'save.usingSuperPreciseDescription': 'Fetching enhanced location from Google.',
+  'save.savedSuperPrecise': '{vehicle} location saved! (Super Precise)',
+  'save.saved': '{vehicle} location saved!',
+  'save.savedDescription': 'Precision: {accuracy} • Caching map tiles...',
+  'save.savedFromQr': '{vehicle} location saved from QR code',
+  'save.superPreciseFailed': 'Super Precise Mode failed',
+  'save.superPreciseFailedDescription': 'Falling back to standard GPS.',
+  'save.failed': 'Failed to save location',
+  'save.storageFull': 'Storage may be full or disabled.',
+  'save.locationFailed': 'Failed to get location',
+  'save.locationFailedDescription': 'Please check your GPS settings.',
+
+  // Location errors
+  'location.error.denied': 'Location access denied. Please enable location permissions in your browser settings.',
+  'location.error.unavailable': 'Unable to determine your location. Please check that GPS is enabled.',
+  'location.error.timeout': 'Location request timed out. Please try again in an open area.',
+  'location.error.unknown': 'An unknown error occurred while getting your location.',
+  'location.error.unsupported': 'Geolocation is not supported by your browser.',
+  'location.error.noReadings': 'Failed to get any GPS readings.',
+
+  // Saved location card
+  'saved.title': 'Location Saved',
+  'saved.accuracy': 'Accuracy: {accuracy}',
+  'saved.altitude': 'Altitude: {altitude}',
+  'saved.addDetails': 'Add Details',
+  'saved.editDetails': 'Edit Details',
+  'saved.setTimer': 'Set Timer',
+  'saved.editTimer': 'Edit Timer',
+  'saved.share': 'Share',
+  'saved.showQr': 'Show QR',
+  'saved.find': 'Find {vehicle}',
+  'saved.clear': 'Clear Saved Location',
+  'saved.cleared': '{vehicle} location cleared',
+  'saved.updateFailed': 'Failed to update saved location',
+  'saved.photosAttached': { one: 'Photo attached', other: '{count} photos attached' },
+  'saved.detailsSaved': 'Parking details saved',
+  'saved.detailsRemoved': 'Parking details removed',
+  'saved.timerSet': 'Parking timer set',
+  'saved.timerReminders': 'You will be reminded before it expires.',
+  'saved.timerNoReminders': 'Enable notifications to get reminders.',
+  'saved.timerRemoved': 'Parking timer removed',
+
+  // Photos of the spot
+  'photos.alt': 'Parking spot photo {index} of {total}',
+  'photos.remove': 'Remove photo {index}',
+  'photos.previous': 'Previous photo',
+  'photos.next': 'Next photo',
+  'photos.limit': { one: 'Only {count} photo per spot', other: 'Only {count} photos per spot' },
+  'photos.keeping': { one: 'Keeping the first one.', other: 'Keeping the first {count}.' },
+  'photos.readFailed': 'Could not read photo',
+  'photos.processing': 'Processing...',
+  'photos.addOne': 'Add Photo',
+  'photos.addMany': 'Add Photos',
+
+  // Parking details
+  'details.level': 'Level {level}',
+  'details.section': 'Section {section}',
+  'details.spot': 'Spot {spot}',
+  'details.title': 'Parking Details',
+  'details.description': 'Optional. Note where in the garage or lot you parked.',
+  'details.levelLabel': 'Level',
+  'details.sectionLabel': 'Section',
+  'details.spotLabel': 'Spot',
+  'details.noteLabel': 'Note',
+  'details.notePlaceholder': 'e.g. Next to the elevators, blue zone',
+  'details.skip': 'Skip',
+  'details.save': 'Save Details',
+
+  // Parking timer
+  'meter.title': 'Parking Time Limit',
+  'meter.description': 'Get reminded before your paid parking runs out.',
+  'meter.expiresAt': 'Expires at',
+  'meter.fromNow': '{countdown} from now',
+  'meter.remindBefore': 'Remind me before',
+  'meter.remove': 'Remove',
+  'meter.update': 'Update',
+  'meter.start': 'Start Timer',
+  'meter.left': '{countdown} left',
+  'meter.expired': 'Parking expired',
+  'meter.countdownExpired': 'Expired',
+  'meter.leadMinutes': { one: '{count} minute', other: '{count} minutes' },
+  'meter.leadHours': { one: '{count} hour', other: '{count} hours' },
+
+  // Durations and relative times
+  'duration.lessThanMinute': '<1m',
+  'duration.minutes': '{minutes}m',
+  'duration.hours': '{hours}h',
+  'duration.hoursMinutes': '{hours}h {minutes}m',
+  'duration.daysHours': '{days}d {hours}h',
+  'time.parkedAgo': 'Parked {duration} ago',
+  'time.parkedJustNow': 'Parked just now',
+
+  // Parking history page
+  'history.title': 'Parking History',
+  'history.count': { one: '{count} spot', other: '{count} spots' },
+  'history.empty': 'No parking sessions yet.',
+  'history.emptyHint': 'Every spot you save will appear here.',
+  'history.namePlaceholder': 'Name this spot',
+  'history.saveName': 'Save name',
+  'history.cancelRename': 'Cancel rename',
+  'history.removedVehicle': 'Removed vehicle',
+  'history.parkedNow': 'Parked now • {duration}',
+  'history.parkedFor': 'Parked {duration}',
+  'history.rename': 'Rename spot',
+  'history.delete': 'Delete spot',
+  'history.navigate': 'Navigate here',
+  'history.deleteTitle': 'Delete this spot?',
+  'history.deleteDescription': "It will be removed from your parking history. A vehicle's current saved location is not affected.",
+  'history.cancel': 'Cancel',
+  'history.confirmDelete': 'Delete',
+  'history.deleted': 'Spot deleted',
+  'history.deleteFailed': 'Failed to delete spot',
+  'history.renameFailed': 'Failed to rename spot',
+
+  // Export and import
+  'transfer.menu': 'Export or import',
+  'transfer.exportCurrent': 'Export current spots',
+  'transfer.exportHistory': 'Export history',
+  'transfer.import': 'Import GPX / KML / GeoJSON…',
+  'transfer.currentTitle': 'Car Finder - Current spots',
+  'transfer.historyTitle': 'Car Finder - Parking history',
+  'transfer.noCurrent': 'No saved locations to export',
+  'transfer.noHistory': 'No parking history to export',
+  'transfer.nothingFound': 'No parking spots found in file',
+  'transfer.invalidEntries': { one: '{count} invalid entry skipped.', other: '{count} invalid entries skipped.' },
+  'transfer.importFailed': 'Failed to import spots',
+  'transfer.imported': { one: 'Imported {count} spot from {format}', other: 'Imported {count} spots from {format}' },
+  'transfer.duplicates': '{count} already in history',
+  'transfer.skipped': '{count} invalid skipped',
+  'transfer.readFailed': 'Could not read file',
+  'transfer.error.invalidXml': 'File is not valid XML',
+  'transfer.error.invalidGeoJson': 'File is not a GeoJSON Feature or FeatureCollection',
+  'transfer.error.unsupported': 'Unsupported file format (expected GPX, KML or GeoJSON)',
+
+  // Sharing
+  'share.title': '{vehicle} location',
+  'share.text': '{icon} {vehicle} is parked here',
+  'share.textWithDetails': '{icon} {vehicle} is parked here ({details})',
+  'share.copied': 'Link copied',
+  'share.copiedDescription': 'Send it to whoever is picking up the car.',
+  'share.failed': 'Could not share location',
+
+  // QR codes
+  'qr.showDescription': 'Scan with Car Finder or the camera app on another phone.',
+  'qr.imageAlt': 'QR code of the saved location',
+  'qr.scanTitle': 'Scan Location QR',
+  'qr.scanDescription': 'Point the camera at a Car Finder QR code.',
+  'qr.notALocation': 'This QR code does not contain a location.',
+  'qr.saveAs': 'Save as {vehicle}',
+  'qr.navigate': 'Navigate There',
+  'qr.tryAgain': 'Try Again',
+  'qr.error.unsupported': 'Camera is not available in this browser',
+  'qr.error.denied': 'Camera permission denied',
+  'qr.error.failed': 'Could not open the camera',
+
+  // Shared link page
+  'sharedLink.invalidTitle': 'Invalid link',
+  'sharedLink.invalidDescription': 'This shared location link is incomplete or damaged. Ask the sender to share it again.',
+  'sharedLink.open': 'Open Car Finder',
+
+  // Vehicles
+  'vehicle.addFailed': 'Failed to add vehicle',
+  'vehicle.updateFailed': 'Failed to update vehicle',
+  'vehicle.defaultName': 'My Car',
+  'vehicle.add': 'Add vehicle',
+  'vehicle.edit': 'Edit {name}',
+  'vehicle.switchTo': 'Switch to {name}',
+  'vehicle.addTitle': 'Add Vehicle',
+  'vehicle.editTitle': 'Edit Vehicle',
+  'vehicle.description': 'Each vehicle keeps its own saved parking spot.',
+  'vehicle.namePlaceholder': 'Name (e.g. Blue Sedan)',
+  'vehicle.color': 'Color {color}',
+  'vehicle.remove': 'Remove',
+  'vehicle.save': 'Save',
+
+  // Vehicle types
+  'vehicleType.car': 'Car',
+  'vehicleType.suv': 'SUV',
+  'vehicleType.truck': 'Truck',
+  'vehicleType.van': 'Van',
+  'vehicleType.motorcycle': 'Motorcycle',
+  'vehicleType.scooter': 'Scooter',
+  'vehicleType.bicycle': 'Bicycle',
+
+  // Find mode
+  'find.found': 'You found it!',
+  'find.foundDescription': 'Your car should be right here',
+  'find.notClose': "I'm not close to my car",
+  'find.almostThere': 'Almost there!',
+  'find.within': 'Within ~{distance}',
+  'find.head': 'Head {direction}',
+  'find.announcement': '{direction}, {distance}',
+  'find.showArrow': 'Show Arrow',
+  'find.showMap': 'Show Map',
+  'find.compass': 'Compass',
+  'find.simple': 'Simple',
+  'find.estimatedFromSteps': '👣 Estimated from steps',
+  'find.simpleMode': 'Using simple mode',
+  'find.simpleModeDescription': 'Compass unavailable. Arrow shows GPS direction.',
+  'find.compassCalibrated': 'Compass calibrated',
+
+  // Where positions come from
+  'provider.gps': 'GPS',
+  'provider.google': '✨ Super Precise',
+  'provider.mock': 'Simulated',
+
+  // What is steering the arrow
+  'headingSource.compass': 'Compass',
+  'headingSource.course': 'GPS course',
+  'headingSource.blended': 'Compass + GPS course',
+
+  // Compass errors
+  'compass.error.denied': 'Compass permission was denied. Simple mode will be used instead.',
+  'compass.error.unavailable': 'Unable to access compass. Simple mode will be used instead.',
+  'compass.error.unsupported': 'Device orientation is not supported by your browser.',
+
+  // Compass calibration
+  'calibration.title': 'Calibrate Compass',
+  'calibration.description': 'Your compass looks unreliable. Wave your phone in a figure 8 a few times, tilting it as you go. Step away from cars and metal if you can.',
+  'calibration.quality': 'Compass quality',
+  'calibration.measuring': 'Measuring...',
+  'calibration.poor': 'Poor',
+  'calibration.fair': 'Fair',
+  'calibration.good': 'Good',
+  'calibration.skip': 'Skip for now',
+
+  // Floor guidance
+  'floor.above': { one: 'Car is about {count} level above you', other: 'Car is about {count} levels above you' },
+  'floor.below': { one: 'Car is about {count} level below you', other: 'Car is about {count} levels below you' },
+
+  // Compass directions (32-point; 16 and 8-point use every 2nd / 4th)
+  'direction.N': 'N',
+  'direction.NbE': 'NbE',
+  'direction.NNE': 'NNE',
+  'direction.NEbN': 'NEbN',
+  'direction.NE': 'NE',
+  'direction.NEbE': 'NEbE',
+  'direction.ENE': 'ENE',
+  'direction.EbN': 'EbN',
+  'direction.E': 'E',
+  'direction.EbS': 'EbS',
+  'direction.ESE': 'ESE',
+  'direction.SEbE': 'SEbE',
+  'direction.SE': 'SE',
+  'direction.SEbS': 'SEbS',
+  'direction.SSE': 'SSE',
+  'direction.SbE': 'SbE',
+  'direction.S': 'S',
+  'direction.SbW': 'SbW',
+  'direction.SSW': 'SSW',
+  'direction.SWbS': 'SWbS',
+  'direction.SW': 'SW',
+  'direction.SWbW': 'SWbW',
+  'direction.WSW': 'WSW',
+  'direction.WbS': 'WbS',
+  'direction.W': 'W',
+  'direction.WbN': 'WbN',
+  'direction.WNW': 'WNW',
+  'direction.NWbW': 'NWbW',
+  'direction.NW': 'NW',
+  'direction.NWbN': 'NWbN',
+  'direction.NNW': 'NNW',
+  'direction.NbW': 'NbW',
+
+  // Where the car is relative to the way you face
+  'directionPhrase.ahead': 'Straight ahead',
+  'directionPhrase.slightlyLeft': 'Slightly to your left',
+  'directionPhrase.slightlyRight': 'Slightly to your right',
+  'directionPhrase.left': 'To your left',
+  'directionPhrase.right': 'To your right',
+  'directionPhrase.behindLeft': 'Behind you, to the left',
+  'directionPhrase.behindRight': 'Behind you, to the right',
+  'directionPhrase.behind': 'Behind you',
+  'directionPhrase.clock': "At your {count} o'clock",
+
+  // Direction phrasing styles
+  'directions.style.relative': 'Left / right',
+  'directions.style.clock': 'Clock face',
+  'directions.style.compass8': 'Compass (8 points)',
+  'directions.style.compass16': 'Compass (16 points)',
+  'directions.style.compass32': 'Compass (32 points)',
+
+  // Units
+  'units.steps': { one: 'step', other: 'steps' },
+  'units.system.auto': 'Automatic',
+  'units.system.imperial': 'Imperial (ft, mi)',
+  'units.system.metric': 'Metric (m, km)',
+  'units.system.steps': 'Steps',
+
+  // Settings
+  'settings.description': 'Configure location precision and preferences.',
+  'settings.superPrecise': 'Super Precise Mode',
+  'settings.superPreciseWarning': 'Warning: By activating this mode, you agree to use your own Google API key.',
+  'settings.superPreciseEnabled': 'Super Precise Mode enabled',
+  'settings.superPreciseEnabledDescription': 'Using Google Geolocation API for enhanced accuracy.',
+  'settings.superPreciseDisabled': 'Super Precise Mode disabled',
+  'settings.superPreciseDisabledDescription': 'Using standard GPS.',
+  'settings.apiKeyPrompt': 'Enter your Google Geolocation API Key',
+  'settings.apiKeyPrivacy': 'Your key is stored locally on your device. Nothing is collected or sent to our servers.',
+  'settings.apiKeyPlaceholder': 'Paste your API key here...',
+  'settings.apiKeySave': 'Save & Enable',
+  'settings.cancel': 'Cancel',
+  'settings.apiKeyLink': 'Get an API key from Google Cloud Console',
+  'settings.apiKeyConfigured': 'API Key Configured',
+  'settings.apiKeyRemove': 'Remove',
+  'settings.apiKeyInvalid': 'Please enter a valid API key',
+  'settings.apiKeySaved': 'API key saved!',
+  'settings.apiKeySavedDescription': 'Super Precise Mode is now active.',
+  'settings.apiKeySaveFailed': 'Failed to save API key',
+  'settings.apiKeyRemoved': 'API key removed',
+  'settings.language': 'Language',
+  'settings.languageDescription': "Automatic follows your device's language.",
+  'settings.languageAuto': 'Automatic',
+  'settings.units': 'Units',
+  'settings.unitsDescription': "Automatic follows your device's region.",
+  'settings.unitsSaveFailed': 'Failed to save units',
+  'settings.directions': 'Directions',
+  'settings.directionsDescription': 'How the way to the car is described. Without a compass, directions use the compass rose.',
+  'settings.directionsSaveFailed': 'Failed to save direction setting',
+  'settings.floorHeight': 'Floor Height',
+  'settings.floorHeightDescription': 'Used to tell how many levels above or below you the car is.',
+  'settings.floorHeightFeet': 'Floor height in feet',
+  'settings.floorHeightMeters': 'Floor height in meters',
+  'settings.floorHeightRange': 'Floor height must be between {min} and {max} {unit}',
+  'settings.floorHeightSaveFailed': 'Failed to save floor height',
+  'settings.trueNorth': 'Correct Compass to True North',
+  'settings.trueNorthDescription': 'Compasses point to magnetic north; maps use true north.',
+  'settings.thisDevice': '(this device)',
+  'settings.trueNorthToggle': 'Correct {platform} compass to true north',
+  'settings.compassSaveFailed': 'Failed to save compass setting',
+  'settings.declination': 'Declination: {declination}',
+  'settings.declinationUnknown': 'Declination: unknown (no saved location)',
+  'settings.declinationApplied': 'applied',
+  'settings.declinationNotApplied': 'not applied',
+  'settings.sensor': 'Sensor: {source}',
+  'settings.sensorAbsolute': 'absolute',
+  'settings.sensorRelative': 'relative (no north reference)',
+
+  // Notifications
+  'notification.savedTitle': '{icon} {vehicle} Location Saved',
+  'notification.savedBody': 'Tap to navigate back to {vehicle}',
+  'notification.savedWithin': 'Saved within {accuracy}',
+  'notification.findCar': 'Find Car',
+  'notification.meterExpiresIn': 'Parking for {vehicle} expires in {lead}',
+  'notification.meterExpired': 'Parking for {vehicle} has expired',
+  'notification.meterLeftTitle': '⏰ {vehicle}: {lead} left',
+  'notification.meterExpiredTitle': '⏰ {vehicle}: Parking expired',
+} satisfies Record<string, Message>;
+
+/**
+ * Every message key
+ */
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,390 @@
+/**
+ * =============================================================================
+ * SPANISH MESSAGES - CAR FINDER PWA
+ * =============================================================================
+ */
+
+import type { Message, MessageKey } from '../utils/i18n';
+
+export const es: Record<MessageKey, Message> = {
+  // App shell
+  'app.title': 'Car Finder',
+  'app.history': 'Historial de aparcamiento',
+  'app.settings': 'Ajustes',
+  'app.back': 'Volver',
+  'app.superPreciseActive': '✨ Modo Superpreciso activo',
+
+  // Unknown route
+  'notFound.title': '404',
+  'notFound.message': '¡Vaya! Página no encontrada',
+  'notFound.home': 'Volver al inicio',
+
+  // Header subtitle
+  'header.save': 'Guarda la ubicación de tu {vehicle}',
+  'header.navigateTo': 'Navegar a {target}',
+  'header.navigateToVehicle': 'Navegar a tu {vehicle}',
+
+  // Navigation targets other than the saved car
+  'target.pastSpot': 'Plaza anterior',
+  'target.sharedSpot': 'Plaza compartida',
+  'target.sharedNamed': '{name} (compartido)',
+  'target.sharedUnnamed': 'la plaza compartida',
+
+  // Saving a location
+  'save.prompt': 'Pulsa el botón de abajo cuando aparques',
+  'save.setLocation': 'Guardar ubicación',
+  'save.updateLocation': 'Actualizar ubicación',
+  'save.saving': 'Guardando...',
+  'save.gettingLocation': 'Obteniendo ubicación...',
+  'save.waitingForGps': 'Esperando al GPS...',
+  'save.tapToSaveNow': '{accuracy} • Pulsa para guardar ya',
+  'save.scanQr': 'Escanear código QR',
+  'save.usingSuperPrecise': 'Usando el Modo Superpreciso...',
+  'save.usingSuperPreciseDescription': 'Obteniendo una ubicación mejorada de Google.',
+  'save.savedSuperPrecise': '¡Ubicación de {vehicle} guardada! (Superprecisa)',
+  'save.saved': '¡Ubicación de {vehicle} guardada!',
+  'save.savedDescription': 'Precisión: {accuracy} • Guardando el mapa sin conexión...',
+  'save.savedFromQr': 'Ubicación de {vehicle} guardada desde un código QR',
+  'save.superPreciseFailed': 'Ha fallado el Modo Superpreciso',
+  'save.superPreciseFailedDescription': 'Usando el GPS estándar.',
+  'save.failed': 'No se pudo guardar la ubicación',
+  'save.storageFull': 'Puede que el almacenamiento esté lleno o desactivado.',
+  'save.locationFailed': 'No se pudo obtener la ubicación',
+  'save.locationFailedDescription': 'Revisa los ajustes del GPS.',
+
+  // Location errors
+  'location.error.denied': 'Acceso a la ubicación denegado. Activa los permisos de ubicación en los ajustes del navegador.',
+  'location.error.unavailable': 'No se pudo determinar tu ubicación. Comprueba que el GPS esté activado.',
+  'location.error.timeout': 'Se agotó el tiempo para obtener la ubicación. Inténtalo de nuevo en un lugar despejado.',
+  'location.error.unknown': 'Se produjo un error desconocido al obtener tu ubicación.',
+  'location.error.unsupported': 'Tu navegador no admite la geolocalización.',
+  'location.error.noReadings': 'No se obtuvo ninguna lectura de GPS.',
+
+  // Saved location card
+  'saved.title': 'Ubicación guardada',
+  'saved.accuracy': 'Precisión: {accuracy}',
+  'saved.altitude': 'Altitud: {altitude}',
+  'saved.addDetails': 'Añadir detalles',
+  'saved.editDetails': 'Editar detalles',
+  'saved.setTimer': 'Poner temporizador',
+  'saved.editTimer': 'Editar temporizador',
+  'saved.share': 'Compartir',
+  'saved.showQr': 'Mostrar QR',
+  'saved.find': 'Buscar {vehicle}',
+  'saved.clear': 'Borrar ubicación guardada',
+  'saved.cleared': 'Ubicación de {vehicle} borrada',
+  'saved.updateFailed': 'No se pudo actualizar la ubicación guardada',
+  'saved.photosAttached': { one: 'Foto adjuntada', other: '{count} fotos adjuntadas' },
+  'saved.detailsSaved': 'Detalles del aparcamiento guardados',
+  'saved.detailsRemoved': 'Detalles del aparcamiento eliminados',
+  'saved.timerSet': 'Temporizador de aparcamiento activado',
+  'saved.timerReminders': 'Te avisaremos antes de que caduque.',
+  'saved.timerNoReminders': 'Activa las notificaciones para recibir avisos.',
+  'saved.timerRemoved': 'Temporizador de aparcamiento eliminado',
+
+  // Photos of the spot
+  'photos.alt': 'Foto de la plaza {index} de {total}',
+  'photos.remove': 'Quitar foto {index}',
+  'photos.previous': 'Foto anterior',
+  'photos.next': 'Foto siguiente',
+  'photos.limit': { one: 'Solo {count} foto por plaza', other: 'Solo {count} fotos por plaza' },
+  'photos.keeping': { one: 'Se conserva la primera.', other: 'Se conservan las {count} primeras.' },
+  'photos.readFailed': 'No se pudo leer la foto',
+  'photos.processing': 'Procesando...',
+  'photos.addOne': 'Añadir foto',
+  'photos.addMany': 'Añadir fotos',
+
+  // Parking details
+  'details.level': 'Planta {level}',
+  'details.section': 'Sección {section}',
+  'details.spot': 'Plaza {spot}',
+  'details.title': 'Detalles del aparcamiento',
+  'details.description': 'Opcional. Anota dónde aparcaste dentro del garaje o del parking.',
+  'details.levelLabel': 'Planta',
+  'details.sectionLabel': 'Sección',
+  'details.spotLabel': 'Plaza',
+  'details.noteLabel': 'Nota',
+  'details.notePlaceholder': 'p. ej. Junto a los ascensores, zona azul',
+  'details.skip': 'Omitir',
+  'details.save': 'Guardar detalles',
+
+  // Parking timer
+  'meter.title': 'Tiempo de aparcamiento',
+  'meter.description': 'Recibe un aviso antes de que se acabe el tiempo pagado.',
+  'meter.expiresAt': 'Vence a las',
+  'meter.fromNow': 'Dentro de {countdown}',
+  'meter.remindBefore': 'Avisarme antes',
+  'meter.remove': 'Quitar',
+  'meter.update': 'Actualizar',
+  'meter.start': 'Iniciar temporizador',
+  'meter.left': 'Quedan {countdown}',
+  'meter.expired': 'Tiempo de aparcamiento agotado',
+  'meter.countdownExpired': 'Vencido',
+  'meter.leadMinutes': { one: '{count} minuto', other: '{count} minutos' },
+  'meter.leadHours': { one: '{count} hora', other: '{count} horas' },
+
+  // Durations and relative times
+  'duration.lessThanMinute': '<1 min',
+  'duration.minutes': '{minutes} min',
+  'duration.hours': '{hours} h',
+  'duration.hoursMinutes': '{hours} h {minutes} min',
+  'duration.daysHours': '{days} d {hours} h',
+  'time.parkedAgo': 'Aparcado hace {duration}',
+  'time.parkedJustNow': 'Aparcado ahora mismo',
+
+  // Parking history page
+  'history.title': 'Historial de aparcamiento',
+  'history.count': { one: '{count} plaza', other: '{count} plazas' },
+  'history.empty': 'Aún no hay aparcamientos.',
+  'history.emptyHint': 'Cada plaza que guardes aparecerá aquí.',
+  'history.namePlaceholder': 'Pon nombre a esta plaza',
+  'history.saveName': 'Guardar nombre',
+  'history.cancelRename': 'Cancelar cambio de nombre',
+  'history.removedVehicle': 'Vehículo eliminado',
+  'history.parkedNow': 'Aparcado ahora • {duration}',
+  'history.parkedFor': 'Aparcado {duration}',
+  'history.rename': 'Cambiar nombre de la plaza',
+  'history.delete': 'Eliminar plaza',
+  'history.navigate': 'Ir aquí',
+  'history.deleteTitle': '¿Eliminar esta plaza?',
+  'history.deleteDescription': 'Se quitará de tu historial. La ubicación guardada actual de cada vehículo no cambia.',
+  'history.cancel': 'Cancelar',
+  'history.confirmDelete': 'Eliminar',
+  'history.deleted': 'Plaza eliminada',
+  'history.deleteFailed': 'No se pudo eliminar la plaza',
+  'history.renameFailed': 'No se pudo cambiar el nombre de la plaza',
+
+  // Export and import
+  'transfer.menu': 'Exportar o importar',
+  'transfer.exportCurrent': 'Exportar plazas actuales',
+  'transfer.exportHistory': 'Exportar historial',
+  'transfer.import': 'Importar GPX / KML / GeoJSON…',
+  'transfer.currentTitle': 'Car Finder - Plazas actuales',
+  'transfer.historyTitle': 'Car Finder - Historial de aparcamiento',
+  'transfer.noCurrent': 'No hay ubicaciones guardadas para exportar',
+  'transfer.noHistory': 'No hay historial para exportar',
+  'transfer.nothingFound': 'No se encontraron plazas en el archivo',
+  'transfer.invalidEntries': { one: 'Se omitió {count} entrada no válida.', other: 'Se omitieron {count} entradas no válidas.' },
+  'transfer.importFailed': 'No se pudieron importar las plazas',
+  'transfer.imported': { one: 'Se importó {count} plaza de {format}', other: 'Se importaron {count} plazas de {format}' },
+  'transfer.duplicates': { one: '{count} ya estaba en el historial', other: '{count} ya estaban en el historial' },
+  'transfer.skipped': { one: '{count} no válida omitida', other: '{count} no válidas omitidas' },
+  'transfer.readFailed': 'No se pudo leer el archivo',
+  'transfer.error.invalidXml': 'El archivo no es XML válido',
+  'transfer.error.invalidGeoJson': 'El archivo no es un Feature ni un FeatureCollection de GeoJSON',
+  'transfer.error.unsupported': 'Formato de archivo no admitido (se esperaba GPX, KML o GeoJSON)',
+
+  // Sharing
+  'share.title': 'Ubicación de {vehicle}',
+  'share.text': '{icon} {vehicle} está aparcado aquí',
+  'share.textWithDetails': '{icon} {vehicle} está aparcado aquí ({details})',
+  'share.copied': 'Enlace copiado',
+  'share.copiedDescription': 'Envíaselo a quien vaya a recoger el coche.',
+  'share.failed': 'No se pudo compartir la ubicación',
+
+  // QR codes
+  'qr.showDescription': 'Escanéalo con Car Finder o con la cámara de otro teléfono.',
+  'qr.imageAlt': 'Código QR de la ubicación guardada',
+  'qr.scanTitle': 'Escanear QR de ubicación',
+  'qr.scanDescription': 'Apunta la cámara a un código QR de Car Finder.',
+  'qr.notALocation': 'Este código QR no contiene una ubicación.',
+  'qr.saveAs': 'Guardar como {vehicle}',
+  'qr.navigate': 'Ir allí',
+  'qr.tryAgain': 'Reintentar',
+  'qr.error.unsupported': 'La cámara no está disponible en este navegador',
+  'qr.error.denied': 'Permiso de cámara denegado',
+  'qr.error.failed': 'No se pudo abrir la cámara',
+
+  // Shared link page
+  'sharedLink.invalidTitle': 'Enlace no válido',
+  'sharedLink.invalidDescription': 'Este enlace de ubicación está incompleto o dañado. Pide a quien lo envió que lo comparta de nuevo.',
+  'sharedLink.open': 'Abrir Car Finder',
+
+  // Vehicles
+  'vehicle.addFailed': 'No se pudo añadir el vehículo',
+  'vehicle.updateFailed': 'No se pudo actualizar el vehículo',
+  'vehicle.defaultName': 'Mi coche',
+  'vehicle.add': 'Añadir vehículo',
+  'vehicle.edit': 'Editar {name}',
+  'vehicle.switchTo': 'Cambiar a {name}',
+  'vehicle.addTitle': 'Añadir vehículo',
+  'vehicle.editTitle': 'Editar vehículo',
+  'vehicle.description': 'Cada vehículo guarda su propia plaza de aparcamiento.',
+  'vehicle.namePlaceholder': 'Nombre (p. ej. Sedán azul)',
+  'vehicle.color': 'Color {color}',
+  'vehicle.remove': 'Eliminar',
+  'vehicle.save': 'Guardar',
+
+  // Vehicle types
+  'vehicleType.car': 'Coche',
+  'vehicleType.suv': 'SUV',
+  'vehicleType.truck': 'Camioneta',
+  'vehicleType.van': 'Furgoneta',
+  'vehicleType.motorcycle': 'Moto',
+  'vehicleType.scooter': 'Scooter',
+  'vehicleType.bicycle': 'Bicicleta',
+
+  // Find mode
+  'find.found': '¡Lo encontraste!',
+  'find.foundDescription': 'Tu coche debería estar justo aquí',
+  'find.notClose': 'No estoy cerca de mi coche',
+  'find.almostThere': '¡Ya casi estás!',
+  'find.within': 'A menos de ~{distance}',
+  'find.head': 'Ve hacia el {direction}',
+  'find.announcement': '{direction}, {distance}',
+  'find.showArrow': 'Ver flecha',
+  'find.showMap': 'Ver mapa',
+  'find.compass': 'Brújula',
+  'find.simple': 'Simple',
+  'find.estimatedFromSteps': '👣 Estimado a partir de pasos',
+  'find.simpleMode': 'Usando el modo simple',
+  'find.simpleModeDescription': 'Brújula no disponible. La flecha muestra la dirección del GPS.',
+  'find.compassCalibrated': 'Brújula calibrada',
+
+  // Where positions come from
+  'provider.gps': 'GPS',
+  'provider.google': '✨ Superprecisión',
+  'provider.mock': 'Simulado',
+
+  // What is steering the arrow
+  'headingSource.compass': 'Brújula',
+  'headingSource.course': 'Rumbo GPS',
+  'headingSource.blended': 'Brújula + rumbo GPS',
+
+  // Compass errors
+  'compass.error.denied': 'Se denegó el permiso de la brújula. Se usará el modo simple.',
+  'compass.error.unavailable': 'No se pudo acceder a la brújula. Se usará el modo simple.',
+  'compass.error.unsupported': 'Tu navegador no admite la orientación del dispositivo.',
+
+  // Compass calibration
+  'calibration.title': 'Calibrar brújula',
+  'calibration.description': 'La brújula no parece fiable. Mueve el teléfono trazando un 8 varias veces, inclinándolo al hacerlo. Si puedes, aléjate de coches y objetos metálicos.',
+  'calibration.quality': 'Calidad de la brújula',
+  'calibration.measuring': 'Midiendo...',
+  'calibration.poor': 'Mala',
+  'calibration.fair': 'Aceptable',
+  'calibration.good': 'Buena',
+  'calibration.skip': 'Omitir por ahora',
+
+  // Floor guidance
+  'floor.above': { one: 'El coche está aproximadamente {count} nivel por encima de ti', other: 'El coche está aproximadamente {count} niveles por encima de ti' },
+  'floor.below': { one: 'El coche está aproximadamente {count} nivel por debajo de ti', other: 'El coche está aproximadamente {count} niveles por debajo de ti' },
+
+  // Compass directions (32-point; 16 and 8-point use every 2nd / 4th)
+  'direction.N': 'N',
+  'direction.NbE': 'N¼NE',
+  'direction.NNE': 'NNE',
+  'direction.NEbN': 'NE¼N',
+  'direction.NE': 'NE',
+  'direction.NEbE': 'NE¼E',
+  'direction.ENE': 'ENE',
+  'direction.EbN': 'E¼NE',
+  'direction.E': 'E',
+  'direction.EbS': 'E¼SE',
+  'direction.ESE': 'ESE',
+  'direction.SEbE': 'SE¼E',
+  'direction.SE': 'SE',
+  'direction.SEbS': 'SE¼S',
+  'direction.SSE': 'SSE',
+  'direction.SbE': 'S¼SE',
+  'direction.S': 'S',
+  'direction.SbW': 'S¼SO',
+  'direction.SSW': 'SSO',
+  'direction.SWbS': 'SO¼S',
+  'direction.SW': 'SO',
+  'direction.SWbW': 'SO¼O',
+  'direction.WSW': 'OSO',
+  'direction.WbS': 'O¼SO',
+  'direction.W': 'O',
+  'direction.WbN': 'O¼NO',
+  'direction.WNW': 'ONO',
+  'direction.NWbW': 'NO¼O',
+  'direction.NW': 'NO',
+  'direction.NWbN': 'NO¼N',
+  'direction.NNW': 'NNO',
+  'direction.NbW': 'N¼NO',
+
+  // Where the car is relative to the way you face
+  'directionPhrase.ahead': 'Todo recto',
+  'directionPhrase.slightlyLeft': 'Ligeramente a tu izquierda',
+  'directionPhrase.slightlyRight': 'Ligeramente a tu derecha',
+  'directionPhrase.left': 'A tu izquierda',
+  'directionPhrase.right': 'A tu derecha',
+  'directionPhrase.behindLeft': 'Detrás de ti, a la izquierda',
+  'directionPhrase.behindRight': 'Detrás de ti, a la derecha',
+  'directionPhrase.behind': 'Detrás de ti',
+  'directionPhrase.clock': { one: 'A tu {count} en punto', other: 'A tus {count} en punto' },
+
+  // Direction phrasing styles
+  'directions.style.relative': 'Izquierda / derecha',
+  'directions.style.clock': 'Esfera de reloj',
+  'directions.style.compass8': 'Brújula (8 rumbos)',
+  'directions.style.compass16': 'Brújula (16 rumbos)',
+  'directions.style.compass32': 'Brújula (32 rumbos)',
+
+  // Units
+  'units.steps': { one: 'paso', other: 'pasos' },
+  'units.system.auto': 'Automático',
+  'units.system.imperial': 'Imperial (ft, mi)',
+  'units.system.metric': 'Métrico (m, km)',
+  'units.system.steps': 'Pasos',
+
+  // Settings
+  'settings.description': 'Configura la precisión de la ubicación y tus preferencias.',
+  'settings.superPrecise': 'Modo Superpreciso',
+  'settings.superPreciseWarning': 'Aviso: al activar este modo aceptas usar tu propia clave de la API de Google.',
+  'settings.superPreciseEnabled': 'Modo Superpreciso activado',
+  'settings.superPreciseEnabledDescription': 'Usando la API Google Geolocation para mayor precisión.',
+  'settings.superPreciseDisabled': 'Modo Superpreciso desactivado',
+  'settings.superPreciseDisabledDescription': 'Usando el GPS estándar.',
+  'settings.apiKeyPrompt': 'Introduce tu clave de la API Google Geolocation',
+  'settings.apiKeyPrivacy': 'La clave se guarda solo en tu dispositivo. No recopilamos ni enviamos nada a nuestros servidores.',
+  'settings.apiKeyPlaceholder': 'Pega aquí tu clave de API...',
+  'settings.apiKeySave': 'Guardar y activar',
+  'settings.cancel': 'Cancelar',
+  'settings.apiKeyLink': 'Consigue una clave de API en Google Cloud Console',
+  'settings.apiKeyConfigured': 'Clave de API configurada',
+  'settings.apiKeyRemove': 'Quitar',
+  'settings.apiKeyInvalid': 'Introduce una clave de API válida',
+  'settings.apiKeySaved': '¡Clave de API guardada!',
+  'settings.apiKeySavedDescription': 'El Modo Superpreciso ya está activo.',
+  'settings.apiKeySaveFailed': 'No se pudo guardar la clave de API',
+  'settings.apiKeyRemoved': 'Clave de API eliminada',
+  'settings.language': 'Idioma',
+  'settings.languageDescription': 'Automático usa el idioma de tu dispositivo.',
+  'settings.languageAuto': 'Automático',
+  'settings.units': 'Unidades',
+  'settings.unitsDescription': 'Automático usa la región de tu dispositivo.',
+  'settings.unitsSaveFailed': 'No se pudieron guardar las unidades',
+  'settings.directions': 'Indicaciones',
+  'settings.directionsDescription': 'Cómo se describe el camino hasta el coche. Sin brújula, se usan los puntos cardinales.',
+  'settings.directionsSaveFailed': 'No se pudo guardar el ajuste de indicaciones',
+  'settings.floorHeight': 'Altura de planta',
+  'settings.floorHeightDescription': 'Sirve para saber cuántas plantas por encima o por debajo está el coche.',
+  'settings.floorHeightFeet': 'Altura de planta en pies',
+  'settings.floorHeightMeters': 'Altura de planta en metros',
+  'settings.floorHeightRange': 'La altura de planta debe estar entre {min} y {max} {unit}',
+  'settings.floorHeightSaveFailed': 'No se pudo guardar la altura de planta',
+  'settings.trueNorth': 'Corregir la brújula al norte geográfico',
+  'settings.trueNorthDescription': 'Las brújulas apuntan al norte magnético; los mapas usan el norte geográfico.',
+  'settings.thisDevice': '(este dispositivo)',
+  'settings.trueNorthToggle': 'Corregir la brújula de {platform} al norte geográfico',
+  'settings.compassSaveFailed': 'No se pudo guardar el ajuste de la brújula',
+  'settings.declination': 'Declinación: {declination}',
+  'settings.declinationUnknown': 'Declinación: desconocida (no hay ubicación guardada)',
+  'settings.declinationApplied': 'aplicada',
+  'settings.declinationNotApplied': 'no aplicada',
+  'settings.sensor': 'Sensor: {source}',
+  'settings.sensorAbsolute': 'absoluto',
+  'settings.sensorRelative': 'relativo (sin referencia al norte)',
+
+  // Notifications
+  'notification.savedTitle': '{icon} Ubicación de {vehicle} guardada',
+  'notification.savedBody': 'Pulsa para volver a {vehicle}',
+  'notification.savedWithin': 'Guardada con una precisión de {accuracy}',
+  'notification.findCar': 'Buscar coche',
+  'notification.meterExpiresIn': 'El aparcamiento de {vehicle} caduca en {lead}',
+  'notification.meterExpired': 'El aparcamiento de {vehicle} ha caducado',
+  'notification.meterLeftTitle': '⏰ {vehicle}: vence en {lead}',
+  'notification.meterExpiredTitle': '⏰ {vehicle}: aparcamiento caducado',
+};
@@ -0,0 +1,33 @@
+/**
+ * =============================================================================
+ * PSEUDO-RTL MESSAGES - CAR FINDER PWA
+ * =============================================================================
+ *
+ * The English catalog displayed right-to-left (en-XB, as on Android), for
+ * checking that layouts mirror without reading a right-to-left language.
+ * Every message is wrapped in RIGHT-TO-LEFT OVERRIDE ... POP DIRECTIONAL
+ * FORMATTING, so text reads backwards while placeholders and plural forms
+ * keep working. Only offered in development builds.
+ * =============================================================================
+ */
+
+import type { Message, PluralMessage } from '../utils/i18n';
+import { en, MessageKey } from './en';
+
+const RIGHT_TO_LEFT_OVERRIDE = '\u202E';
+const POP_DIRECTIONAL_FORMATTING = '\u202C';
+
+function mirror(text: string): string {
+  return `${RIGHT_TO_LEFT_OVERRIDE}${text}${POP_DIRECTIONAL_FORMATTING}`;
+}
+
+function mirrorMessage(message: Message): Message {
+  if (typeof message === 'string') return mirror(message);
+  return Object.fromEntries(
+    Object.entries(message).map(([form, text]) => [form, mirror(text)])
+  ) as PluralMessage;
+}
+
+export const pseudoRtl = Object.fromEntries(
+  Object.entries(en).map(([key, message]) => [key, mirrorMessage(message)])
+) as Record<MessageKey, Message>;
@@ -1,5 +1,9 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { initLocale } from "./utils/i18n";
+
+// Render in the detected language; a saved preference applies once loaded
+initLocale();
 
 createRoot(document.getElementById("root")!).render(<App />);
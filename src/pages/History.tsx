@@ -0,0 +1,245 @@
+/**
+ * =============================================================================
+ * HISTORY PAGE - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Browsable log of past parking sessions for every vehicle.
+ * From here the user can:
+ * - Navigate back to any past spot (opens find mode with it as target)
+ * - Rename a spot (e.g. "Airport long-term")
+ * - Delete a spot from the history
+ * - Export/import spots as GPX, KML or GeoJSON
+ * =============================================================================
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Navigation, Pencil, Trash2, Check, X, History as HistoryIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { formatTimestamp } from '@/utils/gps';
+import { formatParkingDetails } from '@/utils/parkingDetails';
+import {
+  ParkingSession,
+  getParkingHistory,
+  renameParkingSession,
+  deleteParkingSession,
+} from '@/utils/history';
+import { Vehicle, getVehicles } from '@/utils/vehicles';
+import { UnitSystem, formatAccuracy, getUnitSystem } from '@/utils/units';
+import { formatDuration } from '@/utils/time';
+import { GeoTransferMenu } from '@/components/GeoTransferMenu';
+import { useLocale } from '@/hooks/useLocale';
+
+const History: React.FC = () => {
+  const navigate = useNavigate();
+  const { t } = useLocale();
+  const [sessions, setSessions] = useState<ParkingSession[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<ParkingSession | null>(null);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('auto');
+
+  // Load the history, garage and unit preference on mount
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([getParkingHistory(), getVehicles(), getUnitSystem()]).then(([storedSessions, storedVehicles, storedUnits]) => {
+      if (cancelled) return;
+      setSessions(storedSessions);
+      setVehicles(storedVehicles);
+      setUnitSystem(storedUnits);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const vehiclesById = useMemo(
+    () => new Map(vehicles.map((v) => [v.id, v])),
+    [vehicles]
+  );
+
+  /**
+   * Opens find mode with this session's spot as a temporary target
+   */
+  const handleNavigate = (session: ParkingSession) => {
+    navigate(`/?action=find&session=${encodeURIComponent(session.id)}`);
+  };
+
+  const handleStartRename = (session: ParkingSession) => {
+    setEditingId(session.id);
+    setDraftName(session.name ?? '');
+  };
+
+  const handleConfirmRename = async () => {
+    if (!editingId) return;
+    if (await renameParkingSession(editingId, draftName)) {
+      setSessions(await getParkingHistory());
+    } else {
+      toast.error(t('history.renameFailed'));
+    }
+    setEditingId(null);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+    if (await deleteParkingSession(pendingDelete.id)) {
+      setSessions(await getParkingHistory());
+      toast.success(t('history.deleted'));
+    } else {
+      toast.error(t('history.deleteFailed'));
+    }
+    setPendingDelete(null);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-6 bg-background">
+      <header className="w-full max-w-md flex items-center gap-3 pt-safe">
+        <Button asChild variant="ghost" size="icon" aria-label={t('app.back')}>
+          <Link to="/">
+            <ArrowLeft className="w-5 h-5 rtl:-scale-x-100" />
+          </Link>
+        </Button>
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold text-foreground tracking-tight">
+            {t('history.title')}
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            {t('history.count', { count: sessions.length })}
+          </p>
+        </div>
+        <GeoTransferMenu
+          sessions={sessions}
+          vehicles={vehicles}
+          onImported={async () => setSessions(await getParkingHistory())}
+        />
+      </header>
+
+      <main className="w-full max-w-md flex-1 py-6">
+        {sessions.length === 0 ? (
+          <div className="text-center text-muted-foreground mt-16">
+            <HistoryIcon className="w-12 h-12 mx-auto mb-4 text-primary/50" />
+            <p>{t('history.empty')}</p>
+            <p className="text-sm mt-1">{t('history.emptyHint')}</p>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {sessions.map((session) => {
+              const vehicle = vehiclesById.get(session.vehicleId);
+              const isOpen = session.endedAt === null;
+              const duration = (session.endedAt ?? Date.now()) - session.startedAt;
+              const detailsLine = formatParkingDetails(session.location.details);
+
+              return (
+                <li
+                  key={session.id}
+                  className="glass rounded-xl p-4 border border-border/50 animate-fade-in"
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0 flex-1">
+                      {editingId === session.id ? (
+                        <div className="flex items-center gap-1">
+                          <Input
+                            autoFocus
+                            value={draftName}
+                            placeholder={t('history.namePlaceholder')}
+                            onChange={(e) => setDraftName(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleConfirmRename()}
+                            className="h-8"
+                            maxLength={60}
+                          />
+                          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={handleConfirmRename} aria-label={t('history.saveName')}>
+                            <Check className="w-4 h-4" />
+                          </Button>
+                          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditingId(null)} aria-label={t('history.cancelRename')}>
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <p className="font-medium text-foreground truncate">
+                          {session.name || formatTimestamp(session.startedAt)}
+                        </p>
+                      )}
+
+                      <p className="text-xs text-muted-foreground mt-1">
+                        <span aria-hidden>{vehicle?.icon ?? '🚗'}</span>{' '}
+                        {vehicle?.name ?? t('history.removedVehicle')}
+                        {session.name && ` • ${formatTimestamp(session.startedAt)}`}
+                      </p>
+                      <p className="text-xs text-muted-foreground/70 mt-1">
+                        {isOpen ? (
+                          <span className="text-primary">{t('history.parkedNow', { duration: formatDuration(duration) })}</span>
+                        ) : (
+                          t('history.parkedFor', { duration: formatDuration(duration) })
+                        )}
+                        {session.accuracy !== undefined && ` • ${formatAccuracy(session.accuracy, unitSystem)}`}
+                        {` • ${t(session.provider === 'google' ? 'provider.google' : 'provider.gps')}`}
+                      </p>
+                      {detailsLine && (
+                        <p className="text-sm text-foreground mt-1">{detailsLine}</p>
+                      )}
+                    </div>
+
+                    <div className="flex shrink-0 gap-1">
+                      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleStartRename(session)} aria-label={t('history.rename')}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 text-destructive/70 hover:text-destructive"
+                        onClick={() => setPendingDelete(session)}
+                        aria-label={t('history.delete')}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    className="w-full mt-3 rounded-lg"
+                    onClick={() => handleNavigate(session)}
+                  >
+                    <Navigation className="w-4 h-4 me-2" />
+                    {t('history.navigate')}
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </main>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('history.deleteTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('history.deleteDescription')}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('history.cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>{t('history.confirmDelete')}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default History;
@@ -0,0 +1,46 @@
+/**
+ * =============================================================================
+ * SHARED LOCATION PAGE - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Opened from a link built by share.ts (/shared?lat=..&lng=..).
+ * Reads the shared location from the query string and hands it to
+ * CarFinder, which navigates to it as a temporary target. The recipient's
+ * own saved car is left untouched.
+ * =============================================================================
+ */
+
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CarFinder } from '@/components/CarFinder';
+import { useLocale } from '@/hooks/useLocale';
+import { parseSharedLocation } from '@/utils/share';
+
+const Shared: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const { t } = useLocale();
+
+  // Parsed once: CarFinder picks the target up when it mounts
+  const [sharedLocation] = useState(() => parseSharedLocation(searchParams));
+
+  if (!sharedLocation) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 p-6 bg-background text-center">
+        <AlertTriangle className="w-12 h-12 text-warning" />
+        <h1 className="text-2xl font-bold text-foreground">{t('sharedLink.invalidTitle')}</h1>
+        <p className="text-muted-foreground max-w-xs">
+          {t('sharedLink.invalidDescription')}
+        </p>
+        <Button asChild>
+          <Link to="/">{t('sharedLink.open')}</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return <CarFinder sharedLocation={sharedLocation} />;
+};
+
+export default Shared;
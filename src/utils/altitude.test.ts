@@ -0,0 +1,46 @@
+/**
+ * =============================================================================
+ * FLOOR DIFFERENCE TESTS - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Checks when a difference in altitude is reported as a change of level,
+ * with reported accuracies read as 95% confidence.
+ * =============================================================================
+ */
+
+import { describe, expect, it } from 'vitest';
+import { compareAltitude } from './altitude';
+
+describe('compareAltitude', () => {
+  it('reports two floors up with good barometric-grade readings', () => {
+    expect(compareAltitude(
+      { altitude: 106, altitudeAccuracy: 3 },
+      { altitude: 100, altitudeAccuracy: 1.5 },
+      3
+    )).toEqual({ meters: 6, levels: 2, significant: true });
+  });
+
+  it('reports one floor down when the readings allow it', () => {
+    const difference = compareAltitude({ altitude: 97, altitudeAccuracy: 2 }, { altitude: 100, altitudeAccuracy: 2 }, 3);
+    expect(difference).toMatchObject({ levels: -1, significant: true });
+  });
+
+  it('ignores a floor-sized difference within the readings\' uncertainty', () => {
+    const difference = compareAltitude({ altitude: 104, altitudeAccuracy: 10 }, { altitude: 100, altitudeAccuracy: 10 }, 3);
+    expect(difference).toMatchObject({ levels: 1, significant: false });
+  });
+
+  it('falls back to a cautious accuracy when none is reported', () => {
+    expect(compareAltitude({ altitude: 106 }, { altitude: 100 }, 3)?.significant).toBe(false);
+  });
+
+  it('never reports a difference under half a floor', () => {
+    expect(compareAltitude({ altitude: 101, altitudeAccuracy: 0 }, { altitude: 100, altitudeAccuracy: 0 }, 3))
+      .toEqual({ meters: 1, levels: 0, significant: false });
+  });
+
+  it('returns null without both altitudes', () => {
+    expect(compareAltitude({ altitude: 100 }, null, 3)).toBeNull();
+    expect(compareAltitude({}, { altitude: 100 }, 3)).toBeNull();
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * =============================================================================
+ * ALTITUDE & FLOORS - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Compares the car's saved altitude with the user's current altitude, so
+ * multi-level garages can say "car is about 2 levels above you" instead of
+ * announcing arrival on the wrong floor.
+ *
+ * Geolocation altitude is often only good to ±10 m or worse, so a floor
+ * difference is only reported when it is more than half a floor beyond the
+ * combined uncertainty of both readings. Reported altitude accuracies are
+ * treated as 95% confidence, like horizontal ones (see kalman.ts).
+ *
+ * The floor height (meters per level) is a user preference; 3 m suits most
+ * parking structures.
+ * =============================================================================
+ */
+
+import { z } from 'zod';
+import { STORAGE_KEYS, defineRecord } from './persistence';
+import { t } from './i18n';
+import { ACCURACY_PER_SIGMA } from './kalman';
+
+/**
+ * An altitude reading
+ */
+export interface AltitudeReading {
+  altitude: number;           // Meters above the WGS84 ellipsoid
+  altitudeAccuracy?: number;  // Meters (95% confidence), if known
+}
+
+/**
+ * Vertical difference between the car and the user
+ */
+export interface FloorDifference {
+  meters: number;       // Car altitude minus user altitude
+  levels: number;       // Rounded number of floors, positive = car is above
+  significant: boolean; // Clearly more than half a floor, given the accuracies
+}
+
+/**
+ * Floor height used until the user sets their own (meters)
+ */
+export const DEFAULT_FLOOR_HEIGHT = 3;
+
+/**
+ * Allowed floor heights (meters)
+ */
+export const FLOOR_HEIGHT_LIMITS = { min: 2, max: 6 };
+
+/**
+ * Accuracy assumed when the browser doesn't report one (meters)
+ */
+const UNKNOWN_ALTITUDE_ACCURACY = 15;
+
+/**
+ * How fast the user's altitude may drift between readings (m²/s);
+ * allows for walking up a ramp or taking the elevator
+ */
+const ALTITUDE_PROCESS_NOISE = 0.5;
+
+/**
+ * Floor height preference
+ * - v1: meters per level
+ */
+const floorHeightStore = defineRecord<number>({
+  key: STORAGE_KEYS.floorHeight,
+  version: 1,
+  schema: z.number().min(FLOOR_HEIGHT_LIMITS.min).max(FLOOR_HEIGHT_LIMITS.max),
+  fallback: () => DEFAULT_FLOOR_HEIGHT,
+});
+
+/**
+ * Retrieves the floor height used for level estimates
+ */
+export function getFloorHeight(): Promise<number> {
+  return floorHeightStore.read();
+}
+
+/**
+ * Saves the floor height used for level estimates
+ */
+export function setFloorHeight(meters: number): Promise<boolean> {
+  return floorHeightStore.write(meters);
+}
+
+/**
+ * Extracts the altitude from a geolocation fix.
+ *
+ * @param coords - Coordinates of a GeolocationPosition
+ * @returns The altitude, or null if the device didn't report one
+ */
+export function readAltitude(coords: GeolocationCoordinates): AltitudeReading | null {
+  if (coords.altitude === null || !Number.isFinite(coords.altitude)) return null;
+  return {
+    altitude: coords.altitude,
+    ...(coords.altitudeAccuracy !== null && { altitudeAccuracy: coords.altitudeAccuracy }),
+  };
+}
+
+/**
+ * Whether reading a is at least as trustworthy as reading b
+ * (unknown accuracy ranks last)
+ */
+export function isBetterAltitude(a: AltitudeReading, b: AltitudeReading | null): boolean {
+  return !b || (a.altitudeAccuracy ?? Infinity) <= (b.altitudeAccuracy ?? Infinity);
+}
+
+/**
+ * 1-sigma error (m) of a reported altitude accuracy
+ */
+function altitudeSigma(accuracy: number | undefined): number {
+  return (accuracy ?? UNKNOWN_ALTITUDE_ACCURACY) / ACCURACY_PER_SIGMA;
+}
+
+/**
+ * Altitude smoother handle
+ */
+export interface AltitudeFilter {
+  /** Incorporate a reading and return the smoothed altitude */
+  update: (reading: AltitudeReading, timestamp: number) => AltitudeReading;
+  /** Forget all state */
+  reset: () => void;
+}
+
+/**
+ * Creates a one-dimensional Kalman filter for altitude readings, which
+ * are much noisier than horizontal fixes.
+ *
+ * @returns Altitude filter handle
+ */
+export function createAltitudeFilter(): AltitudeFilter {
+  let value: number | null = null;
+  let variance = 0;
+  let lastTimestamp = 0;
+
+  return {
+    update: (reading, timestamp) => {
+      const measurementVariance = altitudeSigma(reading.altitudeAccuracy) ** 2;
+      if (value === null) {
+        value = reading.altitude;
+        variance = measurementVariance;
+      } else {
+        variance += ALTITUDE_PROCESS_NOISE * Math.max(0, (timestamp - lastTimestamp) / 1000);
+        const gain = variance / (variance + measurementVariance);
+        value += gain * (reading.altitude - value);
+        variance *= 1 - gain;
+      }
+      lastTimestamp = Math.max(lastTimestamp, timestamp);
+      return { altitude: value, altitudeAccuracy: ACCURACY_PER_SIGMA * Math.sqrt(variance) };
+    },
+    reset: () => {
+      value = null;
+      variance = 0;
+      lastTimestamp = 0;
+    },
+  };
+}
+
+/**
+ * Compares the car's altitude with the user's.
+ *
+ * @param car - The car's saved location (or just its altitude fields)
+ * @param user - Current altitude
+ * @param floorHeight - Meters per level
+ * @returns The difference, or null if either altitude is unknown
+ */
+export function compareAltitude(
+  car: Partial<AltitudeReading> | null,
+  user: Partial<AltitudeReading> | null,
+  floorHeight: number
+): FloorDifference | null {
+  if (car?.altitude == null || user?.altitude == null) return null;
+
+  const meters = car.altitude - user.altitude;
+  const sigma = Math.hypot(altitudeSigma(car.altitudeAccuracy), altitudeSigma(user.altitudeAccuracy));
+  const levels = Math.round(meters / floorHeight);
+
+  return {
+    meters,
+    levels,
+    // At least one level away, and more than half a floor beyond one sigma
+    significant: levels !== 0 && Math.abs(meters) > sigma + floorHeight / 2,
+  };
+}
+
+/**
+ * Describes a floor difference for display.
+ *
+ * @param difference - Result of compareAltitude
+ * @returns e.g. "Car is about 2 levels above you", or null on the same level
+ */
+export function formatFloorDifference(difference: FloorDifference | null): string | null {
+  if (!difference?.significant) return null;
+
+  const count = Math.abs(difference.levels);
+  return t(difference.levels > 0 ? 'floor.above' : 'floor.below', { count });
+}
@@ -0,0 +1,64 @@
+/**
+ * =============================================================================
+ * CIRCULAR LOW-PASS FILTER - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Smooths a stream of angles (e.g. compass headings) without the wrap-around
+ * bug of averaging raw degrees, where 359° and 1° average to 180°.
+ *
+ * HOW IT WORKS:
+ * - Each angle becomes a unit vector (sin, cos)
+ * - The vector is exponentially smoothed with a time constant, so the
+ *   result doesn't depend on how often the browser fires events
+ * - The smoothed vector's direction is the filtered angle
+ * =============================================================================
+ */
+
+/**
+ * Circular filter handle
+ */
+export interface CircularFilter {
+  /** Incorporate an angle (degrees) measured at timestamp (ms); returns the filtered angle */
+  update: (angle: number, timestamp: number) => number;
+  /** Forget all state */
+  reset: () => void;
+}
+
+/**
+ * Creates an exponential low-pass filter for angles.
+ *
+ * @param timeConstantMs - Time for the output to cover ~63% of a step
+ *                         change; 0 disables smoothing
+ * @returns Circular filter handle
+ */
+export function createCircularFilter(timeConstantMs: number): CircularFilter {
+  let x = 0;
+  let y = 0;
+  let lastTimestamp: number | null = null;
+
+  return {
+    update: (angle, timestamp) => {
+      const radians = (angle * Math.PI) / 180;
+      const sin = Math.sin(radians);
+      const cos = Math.cos(radians);
+
+      if (lastTimestamp === null || timeConstantMs <= 0) {
+        x = sin;
+        y = cos;
+      } else {
+        const dt = Math.max(0, timestamp - lastTimestamp);
+        const alpha = 1 - Math.exp(-dt / timeConstantMs);
+        x += alpha * (sin - x);
+        y += alpha * (cos - y);
+      }
+      lastTimestamp = timestamp;
+
+      return ((Math.atan2(x, y) * 180) / Math.PI + 360) % 360;
+    },
+    reset: () => {
+      x = 0;
+      y = 0;
+      lastTimestamp = null;
+    },
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * =============================================================================
+ * COMPASS QUALITY - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Judges whether the magnetometer can be trusted. An uncalibrated compass
+ * doesn't fail loudly: the arrow keeps pointing, just the wrong way.
+ *
+ * SIGNALS:
+ * - iOS reports its own uncertainty (webkitCompassAccuracy, in degrees;
+ *   negative means the compass needs calibrating)
+ * - Elsewhere there is no such field, so erratic behaviour is detected from
+ *   the raw headings themselves: turning the phone changes the heading
+ *   smoothly, while a confused magnetometer jumps and jitters. The second
+ *   difference of consecutive readings is ~0 for a steady turn, so its spread
+ *   over the last second measures the jitter.
+ * =============================================================================
+ */
+
+import { angleDifference } from './gps';
+
+/**
+ * Coarse verdict on the compass
+ */
+export type CompassCalibration = 'good' | 'fair' | 'poor';
+
+/**
+ * Current compass quality
+ */
+export interface CompassQuality {
+  calibration: CompassCalibration;
+  error: number;  // Estimated heading error in degrees
+  score: number;  // 0 (unusable) to 1 (excellent), for meters
+}
+
+/**
+ * Compass quality monitor handle
+ */
+export interface CompassQualityMonitor {
+  /**
+   * Incorporate a raw (unsmoothed) heading
+   * @returns Current quality, or null until enough readings have arrived
+   */
+  update: (heading: number, timestamp: number, reportedAccuracy: number | null) => CompassQuality | null;
+  /** Forget all readings */
+  reset: () => void;
+}
+
+/**
+ * Estimated errors (degrees) at or below which the compass counts as
+ * good or fair
+ */
+const GOOD_ERROR = 15;
+const FAIR_ERROR = 30;
+
+/**
+ * Errors mapped to the ends of the 0-1 score
+ */
+const BEST_ERROR = 5;
+const WORST_ERROR = 45;
+
+/**
+ * Error assumed when iOS says the compass needs calibrating
+ */
+const UNCALIBRATED_ERROR = 90;
+
+/**
+ * Jitter detection window and the readings needed before judging
+ */
+const JITTER_WINDOW_MS = 1000;
+const MIN_JITTER_SAMPLES = 10;
+
+/**
+ * Converts jitter (RMS second difference, degrees) to an error estimate
+ * A healthy magnetometer jitters by a degree or two per reading, which
+ * lands in "good"; sustained jitter of 4-5° per reading lands in "poor"
+ */
+const JITTER_TO_ERROR = 3;
+
+/**
+ * Classifies an estimated heading error.
+ *
+ * @param error - Estimated heading error in degrees
+ * @returns Quality verdict and score
+ */
+export function assessCompassError(error: number): CompassQuality {
+  const calibration: CompassCalibration =
+    error <= GOOD_ERROR ? 'good' : error <= FAIR_ERROR ? 'fair' : 'poor';
+  const score = Math.max(0, Math.min(1, 1 - (error - BEST_ERROR) / (WORST_ERROR - BEST_ERROR)));
+  return { calibration, error, score };
+}
+
+/**
+ * Creates a monitor that estimates compass quality from raw readings.
+ *
+ * @returns Compass quality monitor handle
+ */
+export function createCompassQualityMonitor(): CompassQualityMonitor {
+  let samples: { heading: number; timestamp: number }[] = [];
+
+  return {
+    update: (heading, timestamp, reportedAccuracy) => {
+      // Trust the platform when it reports accuracy
+      if (reportedAccuracy !== null) {
+        return assessCompassError(reportedAccuracy < 0 ? UNCALIBRATED_ERROR : reportedAccuracy);
+      }
+
+      samples.push({ heading, timestamp });
+      samples = samples.filter((sample) => timestamp - sample.timestamp <= JITTER_WINDOW_MS);
+      if (samples.length < MIN_JITTER_SAMPLES) return null;
+
+      // RMS of the change in heading change between consecutive readings
+      let sumSquares = 0;
+      for (let i = 2; i < samples.length; i++) {
+        const previousStep = angleDifference(samples[i - 2].heading, samples[i - 1].heading);
+        const step = angleDifference(samples[i - 1].heading, samples[i].heading);
+        sumSquares += (step - previousStep) ** 2;
+      }
+      const jitter = Math.sqrt(sumSquares / (samples.length - 2));
+
+      return assessCompassError(jitter * JITTER_TO_ERROR);
+    },
+    reset: () => {
+      samples = [];
+    },
+  };
+}
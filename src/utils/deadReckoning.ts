@@ -0,0 +1,78 @@
+/**
+ * =============================================================================
+ * PEDESTRIAN DEAD RECKONING - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Propagates the last good position step by step while GPS is unavailable,
+ * e.g. in an underground garage.
+ *
+ * MODEL:
+ * - Each detected step moves the position STEP_LENGTH meters in the
+ *   direction the phone is facing (compass heading)
+ * - Uncertainty starts at the anchor fix's accuracy and grows with the
+ *   distance walked; step length and compass errors are largely
+ *   systematic, so the growth is linear rather than a random walk
+ * - Re-anchored whenever a good fix arrives
+ * =============================================================================
+ */
+
+import { Coordinates, destinationPoint } from './gps';
+
+/**
+ * Average walking step length in meters
+ */
+export const STEP_LENGTH = 0.7;
+
+/**
+ * Uncertainty added per meter walked (10%)
+ */
+const DRIFT_PER_METER = 0.1;
+
+/**
+ * Dead-reckoned position
+ */
+export interface DeadReckoningEstimate {
+  coords: Coordinates;
+  accuracy: number;   // Meters (95% confidence radius)
+  steps: number;      // Steps taken since the anchor
+}
+
+/**
+ * Dead reckoning handle
+ */
+export interface DeadReckoning {
+  /** Restart from a known position */
+  anchor: (coords: Coordinates, accuracy: number) => void;
+  /** Advance one step in the given direction; null if never anchored */
+  step: (heading: number) => DeadReckoningEstimate | null;
+  /** Current estimate, null if never anchored */
+  getEstimate: () => DeadReckoningEstimate | null;
+}
+
+/**
+ * Creates a dead reckoning tracker.
+ *
+ * @returns Dead reckoning handle; call anchor() before step()
+ */
+export function createDeadReckoning(): DeadReckoning {
+  let estimate: DeadReckoningEstimate | null = null;
+  let anchorAccuracy = 0;
+
+  return {
+    anchor: (coords, accuracy) => {
+      anchorAccuracy = accuracy;
+      estimate = { coords, accuracy, steps: 0 };
+    },
+    step: (heading) => {
+      if (!estimate) return null;
+      const steps = estimate.steps + 1;
+      estimate = {
+        coords: destinationPoint(estimate.coords, heading, STEP_LENGTH),
+        accuracy: anchorAccuracy + steps * STEP_LENGTH * DRIFT_PER_METER,
+        steps,
+      };
+      return estimate;
+    },
+    getEstimate: () => estimate,
+  };
+}
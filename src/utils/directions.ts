@@ -0,0 +1,155 @@
+/**
+ * =============================================================================
+ * DIRECTION PHRASING - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Turns the bearing to the car into words. "Head NE" only helps if you
+ * know where north is, so when the way the user faces is known the car's
+ * position is described relative to them instead:
+ *
+ * - Relative: "Slightly to your left", "Behind you"
+ * - Clock face: "At your 2 o'clock" (12 o'clock is straight ahead)
+ * - Compass: "Head NE" on an 8, 16 or 32-point rose
+ *
+ * Without a heading (simple mode, no compass) every style falls back to the
+ * compass rose, using 8 points unless a finer rose was chosen.
+ *
+ * The same text is used on the find screen and for screen reader
+ * announcements.
+ * =============================================================================
+ */
+
+import { z } from 'zod';
+import { STORAGE_KEYS, defineRecord } from './persistence';
+import { CompassPoints, calculateRelativeHeading, getCardinalDirection } from './gps';
+import { t } from './i18n';
+
+/**
+ * How directions to the car are phrased
+ */
+export type DirectionStyle = 'relative' | 'clock' | 'compass8' | 'compass16' | 'compass32';
+
+/**
+ * Direction styles in the order they are offered in Settings
+ * (labels are the "directions.style.*" messages)
+ */
+export const DIRECTION_STYLES: readonly DirectionStyle[] = ['relative', 'clock', 'compass8', 'compass16', 'compass32'];
+
+/**
+ * Compass rose used by each style when there is no heading to be relative to
+ */
+const COMPASS_POINTS_BY_STYLE: Record<DirectionStyle, CompassPoints> = {
+  relative: 8,
+  clock: 8,
+  compass8: 8,
+  compass16: 16,
+  compass32: 32,
+};
+
+/**
+ * Angles off the facing direction (degrees) where each relative phrase ends
+ * (anything further round is "behind you"). Like the clock face, a direction
+ * exactly on a boundary gets the phrase further from straight ahead, so at
+ * 15° both styles stop saying "ahead".
+ */
+const AHEAD_LIMIT = 15;
+const SLIGHTLY_LIMIT = 45;
+const SIDE_LIMIT = 135;
+const BEHIND_SIDE_LIMIT = 165;
+
+/**
+ * Direction style preference
+ * - v1: one of the DirectionStyle values
+ */
+const directionStyleStore = defineRecord<DirectionStyle>({
+  key: STORAGE_KEYS.directionStyle,
+  version: 1,
+  schema: z.enum(['relative', 'clock', 'compass8', 'compass16', 'compass32']),
+  fallback: () => 'relative',
+});
+
+/**
+ * Retrieves the preferred direction style
+ */
+export function getDirectionStyle(): Promise<DirectionStyle> {
+  return directionStyleStore.read();
+}
+
+/**
+ * Saves the preferred direction style
+ */
+export function setDirectionStyle(style: DirectionStyle): Promise<boolean> {
+  return directionStyleStore.write(style);
+}
+
+/**
+ * Converts a relative bearing to -180..180, negative to the left
+ */
+function toSignedOffset(relativeBearing: number): number {
+  return relativeBearing > 180 ? relativeBearing - 360 : relativeBearing;
+}
+
+/**
+ * Describes a direction relative to the way the user faces.
+ *
+ * @param relativeBearing - Degrees clockwise from straight ahead (0-360)
+ * @returns e.g. "Slightly to your left"
+ */
+export function describeRelativeDirection(relativeBearing: number): string {
+  const signed = toSignedOffset(relativeBearing);
+  const offset = Math.abs(signed);
+  const isLeft = signed < 0;
+
+  if (offset < AHEAD_LIMIT) return t('directionPhrase.ahead');
+  if (offset < SLIGHTLY_LIMIT) return t(isLeft ? 'directionPhrase.slightlyLeft' : 'directionPhrase.slightlyRight');
+  if (offset < SIDE_LIMIT) return t(isLeft ? 'directionPhrase.left' : 'directionPhrase.right');
+  if (offset < BEHIND_SIDE_LIMIT) return t(isLeft ? 'directionPhrase.behindLeft' : 'directionPhrase.behindRight');
+  return t('directionPhrase.behind');
+}
+
+/**
+ * Clock hour of a direction, with 12 straight ahead and 3 to the right.
+ *
+ * @param relativeBearing - Degrees clockwise from straight ahead (0-360)
+ * @returns Hour from 1 to 12
+ */
+export function getClockHour(relativeBearing: number): number {
+  // Each hour covers 30 degrees, centered on the hour; halfway points
+  // round away from 12 on both sides, matching describeRelativeDirection
+  const signed = toSignedOffset(relativeBearing);
+  const hours = Math.sign(signed) * Math.round(Math.abs(signed) / 30);
+  return (hours + 12) % 12 || 12;
+}
+
+/**
+ * Describes a direction on a clock face.
+ *
+ * @param relativeBearing - Degrees clockwise from straight ahead (0-360)
+ * @returns e.g. "At your 2 o'clock"
+ */
+export function describeClockDirection(relativeBearing: number): string {
+  return t('directionPhrase.clock', { count: getClockHour(relativeBearing) });
+}
+
+/**
+ * Describes which way to go to reach the car.
+ *
+ * @param bearing - Direction to the car in degrees from true north (0-360)
+ * @param heading - Direction the user faces in degrees from true north,
+ *                  or null when unknown
+ * @param style - Direction style preference
+ * @returns Sentence-case phrase for the find screen and announcements
+ */
+export function describeDirection(
+  bearing: number,
+  heading: number | null,
+  style: DirectionStyle = 'relative'
+): string {
+  if (heading !== null && style === 'relative') {
+    return describeRelativeDirection(calculateRelativeHeading(bearing, heading));
+  }
+  if (heading !== null && style === 'clock') {
+    return describeClockDirection(calculateRelativeHeading(bearing, heading));
+  }
+  return t('find.head', { direction: getCardinalDirection(bearing, COMPASS_POINTS_BY_STYLE[style]) });
+}
@@ -0,0 +1,83 @@
+/**
+ * =============================================================================
+ * GEO FILE IMPORT TESTS - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Checks that GeoJSON files written by other apps import as parking spots,
+ * including entries without a time of their own.
+ * =============================================================================
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseGeoFile } from './geoFormats';
+
+const IMPORT_TIME = Date.parse('2024-06-01T12:00:00Z');
+
+function point(longitude: number, latitude: number, properties: Record<string, unknown> | null) {
+  return { type: 'Feature', geometry: { type: 'Point', coordinates: [longitude, latitude] }, properties };
+}
+
+function collection(...features: unknown[]): string {
+  return JSON.stringify({ type: 'FeatureCollection', features });
+}
+
+describe('parseGeoFile (GeoJSON)', () => {
+  it('reads the app\'s own fields', () => {
+    const { format, places, skipped } = parseGeoFile(collection(
+      point(-0.1246, 51.5007, {
+        name: 'Level 3',
+        timestamp: '2024-05-01T08:30:00.000Z',
+        accuracy: 6,
+        provider: 'google',
+        level: 'P3',
+        vehicle: 'Van',
+      })
+    ));
+
+    expect(format).toBe('geojson');
+    expect(skipped).toBe(0);
+    expect(places).toEqual([{
+      name: 'Level 3',
+      location: {
+        latitude: 51.5007,
+        longitude: -0.1246,
+        timestamp: Date.parse('2024-05-01T08:30:00.000Z'),
+        accuracy: 6,
+        provider: 'google',
+        details: { level: 'P3' },
+      },
+      vehicleName: 'Van',
+      endedAt: null,
+    }]);
+  });
+
+  it('accepts features whose properties are null', () => {
+    const { places, skipped } = parseGeoFile(collection(
+      point(2.55, 49.0167, null),
+      point(-73.8, 40.6, { time: '2024-05-01T08:30:00Z' })
+    ), IMPORT_TIME);
+
+    expect(places.map((place) => place.location.latitude)).toEqual([49.0167, 40.6]);
+    expect(places[0].name).toBe('');
+    expect(skipped).toBe(0);
+  });
+
+  it('gives spots without a time the import time', () => {
+    const { places, skipped } = parseGeoFile(collection(point(-0.1246, 51.5007, { name: 'Home' })), IMPORT_TIME);
+
+    expect(skipped).toBe(0);
+    expect(places[0].name).toBe('Home');
+    expect(places[0].location.timestamp).toBe(IMPORT_TIME);
+  });
+
+  it('skips features that are not points or have no coordinates', () => {
+    const { places, skipped } = parseGeoFile(collection(
+      { type: 'Feature', geometry: { type: 'LineString', coordinates: [[0, 0], [1, 1]] }, properties: null },
+      point(Number.NaN, 40.6, { time: '2024-05-01T08:30:00Z' }),
+      null
+    ));
+
+    expect(places).toEqual([]);
+    expect(skipped).toBe(3);
+  });
+});
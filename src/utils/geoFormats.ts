@@ -0,0 +1,476 @@
+/**
+ * =============================================================================
+ * GEO FILE FORMATS - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Export and import of parking spots as standard geo files, so data can be
+ * moved between phones and opened in GIS tools (QGIS, Google Earth, etc.).
+ *
+ * FORMATS:
+ * - GPX: one waypoint (<wpt>) per spot
+ * - KML: one <Placemark> with a <Point> per spot
+ * - GeoJSON: a FeatureCollection with one Point feature per spot
+ *
+ * App-specific fields (accuracy, provider, parking details, vehicle) are
+ * written where each format allows custom data: GPX <extensions>, KML
+ * <ExtendedData> and GeoJSON properties. Files from other apps import fine
+ * without them. Photos are not exported.
+ *
+ * Imported spots are validated with the same schema as stored locations;
+ * anything that fails is counted as skipped rather than imported. Spots
+ * without their own time (common for waypoints from other apps) get the
+ * file's time, or the time of the import if the file has none.
+ * =============================================================================
+ */
+
+import { SavedLocation } from './gps';
+import { ParkingDetails, formatParkingDetails, normalizeParkingDetails } from './parkingDetails';
+import { SavedLocationSchema } from './schemas';
+import { t } from './i18n';
+
+/**
+ * Supported file formats
+ */
+export type GeoFormat = 'gpx' | 'kml' | 'geojson';
+
+/**
+ * File metadata for each format
+ */
+export const GEO_FORMATS: Record<GeoFormat, { label: string; extension: string; mimeType: string }> = {
+  gpx: { label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  kml: { label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  geojson: { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+};
+
+/**
+ * A parking spot as written to / read from a geo file
+ */
+export interface GeoPlace {
+  name: string;
+  location: SavedLocation;
+  vehicleName?: string;
+  endedAt?: number | null;  // When the car left the spot (history entries)
+}
+
+/**
+ * Result of parsing an imported file
+ */
+export interface GeoImportResult {
+  format: GeoFormat;
+  places: GeoPlace[];
+  skipped: number;  // Entries that were missing coordinates or failed validation
+}
+
+/**
+ * Namespace used for app fields inside GPX <extensions>
+ */
+const GPX_EXTENSION_NS = 'urn:carfinder:1';
+
+/**
+ * App-specific fields, in the order they are written
+ */
+const EXTRA_FIELDS = ['accuracy', 'provider', 'level', 'section', 'spot', 'note', 'vehicle', 'endedAt'] as const;
+type ExtraField = typeof EXTRA_FIELDS[number];
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+/**
+ * Escapes text for use in XML content and attributes
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Collects a place's app-specific fields as strings, skipping empty ones
+ */
+function getExtraFields(place: GeoPlace): [ExtraField, string][] {
+  const { location } = place;
+  const values: Record<ExtraField, string | undefined> = {
+    accuracy: location.accuracy !== undefined ? String(location.accuracy) : undefined,
+    provider: location.provider,
+    level: location.details?.level,
+    section: location.details?.section,
+    spot: location.details?.spot,
+    note: location.details?.note,
+    vehicle: place.vehicleName,
+    endedAt: place.endedAt ? new Date(place.endedAt).toISOString() : undefined,
+  };
+  return EXTRA_FIELDS
+    .filter((field) => values[field] !== undefined && values[field] !== '')
+    .map((field) => [field, values[field] as string]);
+}
+
+/**
+ * Human-readable description shown by GIS tools
+ */
+function describePlace(place: GeoPlace): string {
+  return [
+    place.vehicleName,
+    formatParkingDetails(place.location.details),
+    place.location.details?.note,
+  ]
+    .filter(Boolean)
+    .join(' • ');
+}
+
+function toGpx(places: GeoPlace[], title: string): string {
+  const waypoints = places.map((place) => {
+    const { location } = place;
+    const description = describePlace(place);
+    const extensions = getExtraFields(place)
+      .map(([field, value]) => `      <carfinder:${field}>${escapeXml(value)}</carfinder:${field}>`)
+      .join('\n');
+    return [
+      `  <wpt lat="${location.latitude}" lon="${location.longitude}">`,
+      `    <time>${new Date(location.timestamp).toISOString()}</time>`,
+      `    <name>${escapeXml(place.name)}</name>`,
+      description && `    <desc>${escapeXml(description)}</desc>`,
+      `    <type>parking</type>`,
+      extensions && `    <extensions>\n${extensions}\n    </extensions>`,
+      `  </wpt>`,
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="Car Finder" xmlns="http://www.topografix.com/GPX/1/1" xmlns:carfinder="${GPX_EXTENSION_NS}">`,
+    `  <metadata>\n    <name>${escapeXml(title)}</name>\n    <time>${new Date().toISOString()}</time>\n  </metadata>`,
+    ...waypoints,
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+function toKml(places: GeoPlace[], title: string): string {
+  const placemarks = places.map((place) => {
+    const { location } = place;
+    const description = describePlace(place);
+    const data = getExtraFields(place)
+      .map(([field, value]) => `        <Data name="${field}"><value>${escapeXml(value)}</value></Data>`)
+      .join('\n');
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(place.name)}</name>`,
+      description && `      <description>${escapeXml(description)}</description>`,
+      `      <TimeStamp><when>${new Date(location.timestamp).toISOString()}</when></TimeStamp>`,
+      data && `      <ExtendedData>\n${data}\n      </ExtendedData>`,
+      `      <Point><coordinates>${location.longitude},${location.latitude}</coordinates></Point>`,
+      '    </Placemark>',
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(title)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+function toGeoJson(places: GeoPlace[], title: string): string {
+  const features = places.map((place) => {
+    const { location } = place;
+    const properties: Record<string, string | number> = {
+      name: place.name,
+      timestamp: new Date(location.timestamp).toISOString(),
+    };
+    getExtraFields(place).forEach(([field, value]) => {
+      properties[field] = field === 'accuracy' ? Number(value) : value;
+    });
+    return {
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [location.longitude, location.latitude] },
+      properties,
+    };
+  });
+
+  return JSON.stringify({ type: 'FeatureCollection', name: title, features }, null, 2);
+}
+
+/**
+ * Serializes parking spots to a geo file.
+ *
+ * @param places - Spots to export
+ * @param format - Target format
+ * @param title - Document name shown by GIS tools
+ * @returns File contents
+ */
+export function exportPlaces(places: GeoPlace[], format: GeoFormat, title: string = 'Car Finder'): string {
+  switch (format) {
+    case 'gpx':
+      return toGpx(places, title);
+    case 'kml':
+      return toKml(places, title);
+    case 'geojson':
+      return toGeoJson(places, title);
+  }
+}
+
+/**
+ * Offers a file to the user as a download.
+ *
+ * @param content - File contents
+ * @param format - Format (sets extension and MIME type)
+ * @param baseName - File name without extension
+ */
+export function downloadGeoFile(content: string, format: GeoFormat, baseName: string): void {
+  const { extension, mimeType } = GEO_FORMATS[format];
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+/**
+ * Parses a timestamp, returning null if it is missing or invalid
+ */
+function parseTime(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return Math.round(value);
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Parses a number, returning null if it is missing, blank or invalid
+ * (Number() would turn null and '' into 0)
+ */
+function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Builds and validates a place from raw values found in a file.
+ *
+ * @param fallbackTime - Timestamp for entries without their own (ms)
+ * @returns The place, or null if it is invalid
+ */
+function buildPlace(
+  latitude: unknown,
+  longitude: unknown,
+  name: string | undefined,
+  time: unknown,
+  fields: Partial<Record<ExtraField, unknown>>,
+  fallbackTime: number
+): GeoPlace | null {
+  const text = (value: unknown) => (typeof value === 'string' || typeof value === 'number' ? String(value) : undefined);
+  const lat = parseNumber(latitude);
+  const lon = parseNumber(longitude);
+  if (lat === null || lon === null) return null;
+  const timestamp = parseTime(time) ?? fallbackTime;
+
+  const accuracy = parseNumber(fields.accuracy);
+  const provider = text(fields.provider);
+  const details: ParkingDetails | undefined = normalizeParkingDetails({
+    level: text(fields.level),
+    section: text(fields.section),
+    spot: text(fields.spot),
+    note: text(fields.note),
+  });
+
+  const location: SavedLocation = {
+    latitude: lat,
+    longitude: lon,
+    timestamp,
+    ...(accuracy !== null && { accuracy }),
+    ...((provider === 'gps' || provider === 'google') && { provider }),
+    ...(details && { details }),
+  };
+
+  const result = SavedLocationSchema.safeParse(location);
+  if (!result.success) return null;
+
+  return {
+    name: name?.trim() ?? '',
+    location,
+    vehicleName: text(fields.vehicle),
+    endedAt: parseTime(fields.endedAt),
+  };
+}
+
+/**
+ * Reads the text of the first direct child with the given local name
+ */
+function childText(element: Element, localName: string): string | undefined {
+  const child = Array.from(element.children).find((c) => c.localName === localName);
+  return child?.textContent?.trim() || undefined;
+}
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(t('transfer.error.invalidXml'));
+  }
+  return doc;
+}
+
+function parseGpx(doc: Document, importTime: number): Omit<GeoImportResult, 'format'> {
+  const places: GeoPlace[] = [];
+  let skipped = 0;
+
+  // GPX 1.1 has <metadata><time>, GPX 1.0 a <time> under <gpx>
+  const root = doc.documentElement;
+  const metadata = Array.from(root.children).find((c) => c.localName === 'metadata');
+  const fileTime = parseTime((metadata && childText(metadata, 'time')) ?? childText(root, 'time')) ?? importTime;
+
+  Array.from(doc.getElementsByTagNameNS('*', 'wpt')).forEach((wpt) => {
+    const fields: Partial<Record<ExtraField, string>> = {};
+    const extensions = Array.from(wpt.children).find((c) => c.localName === 'extensions');
+    Array.from(extensions?.children ?? []).forEach((child) => {
+      if ((EXTRA_FIELDS as readonly string[]).includes(child.localName)) {
+        fields[child.localName as ExtraField] = child.textContent?.trim();
+      }
+    });
+    // Other apps put free text in <desc>; only use it when there are no app fields
+    if (Object.keys(fields).length === 0 && childText(wpt, 'desc')) {
+      fields.note = childText(wpt, 'desc');
+    }
+
+    const place = buildPlace(
+      wpt.getAttribute('lat'),
+      wpt.getAttribute('lon'),
+      childText(wpt, 'name'),
+      childText(wpt, 'time'),
+      fields,
+      fileTime
+    );
+    if (place) places.push(place); else skipped++;
+  });
+
+  return { places, skipped };
+}
+
+function parseKml(doc: Document, importTime: number): Omit<GeoImportResult, 'format'> {
+  const places: GeoPlace[] = [];
+  let skipped = 0;
+
+  Array.from(doc.getElementsByTagNameNS('*', 'Placemark')).forEach((placemark) => {
+    const point = placemark.getElementsByTagNameNS('*', 'Point')[0];
+    const coordinates = point ? childText(point, 'coordinates') : undefined;
+    if (!coordinates) {
+      // Lines and polygons are not parking spots
+      skipped++;
+      return;
+    }
+    const [longitude, latitude] = coordinates.split(',').map((part) => part.trim());
+
+    const fields: Partial<Record<ExtraField, string>> = {};
+    Array.from(placemark.getElementsByTagNameNS('*', 'Data')).forEach((data) => {
+      const name = data.getAttribute('name');
+      if (name && (EXTRA_FIELDS as readonly string[]).includes(name)) {
+        fields[name as ExtraField] = childText(data, 'value');
+      }
+    });
+    if (Object.keys(fields).length === 0 && childText(placemark, 'description')) {
+      fields.note = childText(placemark, 'description');
+    }
+
+    const when = placemark.getElementsByTagNameNS('*', 'when')[0]?.textContent;
+    const place = buildPlace(latitude, longitude, childText(placemark, 'name'), when, fields, importTime);
+    if (place) places.push(place); else skipped++;
+  });
+
+  return { places, skipped };
+}
+
+function parseGeoJson(data: unknown, importTime: number): Omit<GeoImportResult, 'format'> {
+  const root = data as { type?: string; features?: unknown[] };
+  const features = root?.type === 'FeatureCollection' && Array.isArray(root.features)
+    ? root.features
+    : root?.type === 'Feature'
+      ? [root]
+      : null;
+  if (!features) {
+    throw new Error(t('transfer.error.invalidGeoJson'));
+  }
+
+  const places: GeoPlace[] = [];
+  let skipped = 0;
+
+  features.forEach((feature) => {
+    const { geometry, properties } = (feature ?? {}) as {
+      geometry?: { type?: string; coordinates?: unknown[] };
+      properties?: Record<string, unknown> | null;
+    };
+    // "properties": null is valid GeoJSON
+    const props = properties ?? {};
+    if (geometry?.type !== 'Point' || !Array.isArray(geometry.coordinates)) {
+      skipped++;
+      return;
+    }
+
+    const [longitude, latitude] = geometry.coordinates;
+    const place = buildPlace(
+      latitude,
+      longitude,
+      typeof props.name === 'string' ? props.name : undefined,
+      props.timestamp ?? props.time,
+      props as Partial<Record<ExtraField, unknown>>,
+      importTime
+    );
+    if (place) places.push(place); else skipped++;
+  });
+
+  return { places, skipped };
+}
+
+/**
+ * Detects the format of a file from its contents
+ *
+ * @returns The format, or null if it is not recognised
+ */
+export function detectGeoFormat(text: string): GeoFormat | null {
+  const start = text.trimStart();
+  if (start.startsWith('{')) return 'geojson';
+  if (/<gpx[\s>]/.test(start)) return 'gpx';
+  if (/<kml[\s>]/.test(start)) return 'kml';
+  return null;
+}
+
+/**
+ * Parses a GPX, KML or GeoJSON file into parking spots.
+ *
+ * @param text - File contents
+ * @param importTime - Timestamp for spots when neither they nor the file
+ *                     have one (ms)
+ * @returns The valid spots and the number of entries skipped
+ * @throws If the format is not recognised or the file is malformed
+ */
+export function parseGeoFile(text: string, importTime: number = Date.now()): GeoImportResult {
+  const format = detectGeoFormat(text);
+
+  switch (format) {
+    case 'gpx':
+      return { format, ...parseGpx(parseXml(text), importTime) };
+    case 'kml':
+      return { format, ...parseKml(parseXml(text), importTime) };
+    case 'geojson':
+      return { format, ...parseGeoJson(JSON.parse(text), importTime) };
+    default:
+      throw new Error(t('transfer.error.unsupported'));
+  }
+}
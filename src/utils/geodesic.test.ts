@@ -0,0 +1,162 @@
+/**
+ * =============================================================================
+ * GEODESIC REFERENCE TESTS - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Checks the WGS-84 solvers against published values:
+ * - Worked examples from Karney, "Algorithms for geodesics" (2013)
+ * - GeographicLib's GeodSolve regression cases (WGS-84 ones only)
+ * - Flinders Peak to Buninyong (Geoscience Australia)
+ * - Exact quarter-meridian, equator and antipodal distances
+ *
+ * Expected values are given to the precision they were published with, and
+ * compared to half a unit in the last published digit.
+ * =============================================================================
+ */
+
+import { describe, expect, it } from 'vitest';
+import { solveDirect, solveInverse } from './geodesic';
+
+/**
+ * Degrees from degrees, minutes and seconds (sign taken from degrees)
+ */
+function dms(degrees: number, minutes: number, seconds: number): number {
+  return Math.sign(degrees) * (Math.abs(degrees) + minutes / 60 + seconds / 3600);
+}
+
+/**
+ * Asserts that a value matches a published one to half a unit in its last
+ * digit
+ */
+function expectPublished(actual: number, expected: number, decimals: number): void {
+  expect(Math.abs(actual - expected)).toBeLessThanOrEqual(0.5 * 10 ** -decimals);
+}
+
+/**
+ * Difference between two azimuths in degrees, ignoring whole turns
+ */
+function azimuthDifference(a: number, b: number): number {
+  const d = (((a - b) % 360) + 540) % 360 - 180;
+  return Math.abs(d);
+}
+
+describe('solveInverse', () => {
+  it('matches the near-antipodal worked example in Karney (2013)', () => {
+    const { distance, azimuth1, azimuth2 } = solveInverse(-30, 0, 29.9, 179.8);
+    expectPublished(distance, 19989832.82761, 5);
+    expectPublished(azimuth1, 161.890524736, 9);
+    expectPublished(azimuth2, 18.090737246, 9);
+  });
+
+  it('matches Flinders Peak to Buninyong', () => {
+    const { distance, azimuth1, azimuth2 } = solveInverse(
+      dms(-37, 57, 3.7203), dms(144, 25, 29.5244),
+      dms(-37, 39, 10.1561), dms(143, 55, 35.3839)
+    );
+    expectPublished(distance, 54972.271, 3);
+    // 306°52'05.37" forward; 127°10'25.07" back, i.e. 307°10'25.07" forward at the end
+    expect(azimuthDifference(azimuth1, dms(306, 52, 5.37))).toBeLessThanOrEqual(0.005 / 3600);
+    expect(azimuthDifference(azimuth2, dms(307, 10, 25.07))).toBeLessThanOrEqual(0.005 / 3600);
+  });
+
+  it('matches JFK to CDG (GeodSolve0)', () => {
+    const { distance, azimuth1, azimuth2 } = solveInverse(40.6, -73.8, 49.01666667, 2.55);
+    expectPublished(distance, 5853226, 0);
+    expectPublished(azimuth1, 53.47022, 5);
+    expectPublished(azimuth2, 111.59367, 5);
+  });
+
+  it('handles very short lines (GeodSolve4)', () => {
+    const { distance } = solveInverse(36.493349428792, 0, 36.49334942879201, 0.0000008);
+    expectPublished(distance, 0.072, 3);
+  });
+
+  it('returns zero for coincident points', () => {
+    expect(solveInverse(51.5, -0.1, 51.5, -0.1).distance).toBe(0);
+  });
+
+  it.each([
+    // GeodSolve6 (inputs written as the nearest double to the published digits)
+    [88.202499451857, -88.202499451857, 179.98102203299285, 20003898.214],
+    [89.262080389218, -89.262080389218, 179.99220798277537, 20003925.854],
+    [89.333123580033, -89.333123580033, 179.99295812360148, 20003926.881],
+    // GeodSolve9-11
+    [56.320923501171, -56.320923501171, 179.6647476717729, 19993558.287],
+    [52.784459512564, -52.78445951256399, 179.6344074649438, 19991596.095],
+    [48.522876735459, -48.522876735458986, 179.59972045622308, 19989144.774],
+  ])('converges for nearly antipodal points (%f, 0) to (%f, %f)', (lat1, lat2, lon2, expected) => {
+    expectPublished(solveInverse(lat1, 0, lat2, lon2).distance, expected, 3);
+  });
+
+  it('follows a meridian through the pole between exactly antipodal points', () => {
+    const equator = solveInverse(0, 0, 0, 180);
+    expectPublished(equator.distance, 20003931.4586, 4);
+    expect(equator.azimuth1).toBe(0);
+    expect(equator.azimuth2).toBe(180);
+
+    const offEquator = solveInverse(-30, 0, 30, 180);
+    expectPublished(offEquator.distance, 20003931.4586, 4);
+    expect(offEquator.azimuth1).toBe(180);
+  });
+
+  it('matches the equatorial and near-equatorial cases (GeodSolve33)', () => {
+    const short = solveInverse(0, 0, 0, 179);
+    expectPublished(short.distance, 19926189, 0);
+    expectPublished(short.azimuth1, 90, 5);
+    expectPublished(short.azimuth2, 90, 5);
+
+    const bent = solveInverse(0, 0, 0, 179.5);
+    expectPublished(bent.distance, 19980862, 0);
+    expectPublished(bent.azimuth1, 55.9665, 4);
+    expectPublished(bent.azimuth2, 124.0335, 4);
+
+    expectPublished(solveInverse(0, 0, 1, 180).distance, 19893357, 0);
+  });
+
+  it('measures one degree of the equator as a · π / 180', () => {
+    const { distance, azimuth1 } = solveInverse(0, 0, 0, 1);
+    expectPublished(distance, 111319.4908, 4);
+    expect(azimuth1).toBe(90);
+  });
+
+  it('measures the quarter meridian', () => {
+    const { distance, azimuth1 } = solveInverse(0, 0, 90, 0);
+    expectPublished(distance, 10001965.7293, 4);
+    expect(azimuth1).toBe(0);
+  });
+});
+
+describe('solveDirect', () => {
+  it('matches the worked example in Karney (2013)', () => {
+    const { latitude, longitude, azimuth2 } = solveDirect(40, 0, 30, 10e6);
+    expectPublished(latitude, 41.79331020506, 11);
+    expectPublished(longitude, 137.84490004377, 11);
+    expectPublished(azimuth2, 149.09016931807, 11);
+  });
+
+  it('matches JFK towards CDG (GeodSolve1)', () => {
+    const { latitude, longitude, azimuth2 } = solveDirect(40.63972222, -73.77888889, 53.5, 5850e3);
+    expectPublished(latitude, 49.01467, 5);
+    expectPublished(longitude, 2.56106, 5);
+    expectPublished(azimuth2, 111.62947, 5);
+  });
+});
+
+describe('round trips', () => {
+  it.each([
+    [51.5007, -0.1246, 51.5014, -0.1419],        // Short walk
+    [-37.95103, 144.42487, -37.65282, 143.92650], // Flinders Peak - Buninyong
+    [40.6, -73.8, 49.01666667, 2.55],             // JFK - CDG
+    [0, 0, 0, 179.5],                             // Nearly antipodal on the equator
+    [-30, 0, 29.9, 179.8],                        // Nearly antipodal off the equator
+    [89.9, 10, -89.9, -170],                      // Pole to pole
+  ])('recovers (%f, %f) -> (%f, %f) through the direct problem', (lat1, lon1, lat2, lon2) => {
+    const { distance, azimuth1, azimuth2 } = solveInverse(lat1, lon1, lat2, lon2);
+    const end = solveDirect(lat1, lon1, azimuth1, distance);
+
+    // Within a micrometer on the ground
+    const error = solveInverse(lat2, lon2, end.latitude, end.longitude).distance;
+    expect(error).toBeLessThan(1e-6);
+    expect(azimuthDifference(end.azimuth2, azimuth2)).toBeLessThan(1e-9);
+  });
+});
@@ -0,0 +1,697 @@
+/**
+ * =============================================================================
+ * ELLIPSOIDAL GEODESICS (KARNEY) - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Shortest paths on the WGS-84 ellipsoid, following C. F. F. Karney,
+ * "Algorithms for geodesics", J. Geodesy 87, 43-55 (2013), as implemented
+ * in GeographicLib. Accurate to a few nanometers for any pair of points.
+ *
+ * WHY NOT VINCENTY?
+ * Vincenty's inverse iteration converges slowly or not at all for nearly
+ * antipodal points. Karney's method solves the same problem with Newton's
+ * method on the azimuth, starts antipodal cases from an astroid
+ * approximation, and falls back to bisection, so it always converges.
+ *
+ * Public wrappers with a selectable Earth model live in gps.ts.
+ * =============================================================================
+ */
+
+/**
+ * Solution of the inverse problem (two points -> line)
+ */
+export interface InverseSolution {
+  distance: number;  // Meters
+  azimuth1: number;  // Degrees at the first point, -180..180
+  azimuth2: number;  // Degrees at the second point (forward direction)
+}
+
+/**
+ * Solution of the direct problem (point + azimuth + distance -> point)
+ */
+export interface DirectSolution {
+  latitude: number;
+  longitude: number;
+  azimuth2: number;  // Degrees at the end point (forward direction)
+}
+
+// WGS-84 ellipsoid
+const A = 6378137;
+const F = 1 / 298.257223563;
+const F1 = 1 - F;
+const E2 = F * (2 - F);
+const EP2 = E2 / (F1 * F1);
+const N = F / (2 - F);
+const B = A * F1;
+
+// Series order and tolerances
+const ORDER = 6;
+const DEGREE = Math.PI / 180;
+const TINY = Math.sqrt(Number.MIN_VALUE);
+const TOL0 = Number.EPSILON;
+const TOL1 = 200 * TOL0;
+const TOL2 = Math.sqrt(TOL0);
+const TOLB = TOL0;
+const XTHRESH = 1000 * TOL2;
+const ETOL2 = (0.1 * TOL2) / Math.sqrt((Math.max(0.001, Math.abs(F)) * Math.min(1, 1 - F / 2)) / 2);
+const MAXIT1 = 20;
+const MAXIT2 = MAXIT1 + 53 + 10;
+
+// Series coefficients (GeographicLib, order 6): each group is a polynomial,
+// highest power first, followed by its divisor
+const A1M1_COEFF = [1, 4, 64, 0, 256];
+const C1_COEFF = [-1, 6, -16, 32, -9, 64, -128, 2048, 9, -16, 768, 3, -5, 512, -7, 1280, -7, 2048];
+const C1P_COEFF = [
+  205, -432, 768, 1536, 4005, -4736, 3840, 12288, -225, 116, 384, -7173, 2695, 7680, 3467, 7680, 38081, 61440,
+];
+const A2M1_COEFF = [-11, -28, -192, 0, 256];
+const C2_COEFF = [1, 2, 16, 32, 35, 64, 384, 2048, 15, 80, 768, 7, 35, 512, 63, 1280, 77, 2048];
+const A3_COEFF = [-3, 128, -2, -3, 64, -1, -3, -1, 16, 3, -1, -2, 8, 1, -1, 2, 1, 1];
+const C3_COEFF = [
+  3, 128, 2, 5, 128, -1, 3, 3, 64, -1, 0, 1, 8, -1, 1, 4, 5, 256, 1, 3, 128, -3, -2, 3, 64, 1, -3, 2, 32, 7, 512,
+  -10, 9, 384, 5, -9, 5, 192, 7, 512, -14, 7, 512, 21, 2560,
+];
+
+/**
+ * Evaluates a polynomial of degree `degree` whose coefficients start at
+ * p[offset], highest power first
+ */
+function polyval(degree: number, p: number[], offset: number, x: number): number {
+  let y = degree < 0 ? 0 : p[offset++];
+  while (--degree >= 0) y = y * x + p[offset++];
+  return y;
+}
+
+/**
+ * Rounds tiny angles so that values like 1e-20 don't produce noise
+ */
+function angRound(x: number): number {
+  const z = 1 / 16;
+  const y = Math.abs(x);
+  const rounded = y < z ? z - (z - y) : y;
+  return x < 0 ? -rounded : rounded;
+}
+
+/**
+ * Reduces an angle to -180..180 (180 keeps the sign of the input)
+ */
+function angNormalize(x: number): number {
+  let y = x % 360;
+  if (y < -180) y += 360;
+  else if (y > 180) y -= 360;
+  return Math.abs(y) === 180 ? (x < 0 ? -180 : 180) : y;
+}
+
+/**
+ * Sine and cosine of an angle in degrees, exact for multiples of 90°
+ */
+function sincosd(x: number): [number, number] {
+  let r = x % 360;
+  const q = Math.round(r / 90);
+  r = (r - 90 * q) * DEGREE;
+  const s = Math.sin(r);
+  const c = Math.cos(r);
+  switch (q & 3) {
+    case 0:
+      return [s + 0, c + 0];
+    case 1:
+      return [c + 0, -s + 0];
+    case 2:
+      return [-s + 0, -c + 0];
+    default:
+      return [-c + 0, s + 0];
+  }
+}
+
+/**
+ * atan2 in degrees, exact for the axes
+ */
+function atan2d(y: number, x: number): number {
+  let q = 0;
+  if (Math.abs(y) > Math.abs(x)) {
+    [x, y] = [y, x];
+    q = 2;
+  }
+  if (x < 0) {
+    x = -x;
+    ++q;
+  }
+  const angle = Math.atan2(y, x) / DEGREE;
+  switch (q) {
+    case 1:
+      return (y >= 0 ? 180 : -180) - angle;
+    case 2:
+      return 90 - angle;
+    case 3:
+      return -90 + angle;
+    default:
+      return angle;
+  }
+}
+
+/**
+ * Normalizes a (sin, cos) pair
+ */
+function norm(s: number, c: number): [number, number] {
+  const r = Math.hypot(s, c);
+  return [s / r, c / r];
+}
+
+/**
+ * Clenshaw summation of a sine (sinp) or cosine series with coefficients c[1..]
+ */
+function sinCosSeries(sinp: boolean, sinx: number, cosx: number, c: number[]): number {
+  let k = c.length;
+  let n = k - (sinp ? 1 : 0);
+  const ar = 2 * (cosx - sinx) * (cosx + sinx);
+  let y0 = n & 1 ? c[--k] : 0;
+  let y1 = 0;
+  n = Math.floor(n / 2);
+  while (n--) {
+    y1 = ar * y0 - y1 + c[--k];
+    y0 = ar * y1 - y0 + c[--k];
+  }
+  return sinp ? 2 * sinx * cosx * y0 : cosx * (y0 - y1);
+}
+
+function a1m1f(eps: number): number {
+  const p = Math.floor(ORDER / 2);
+  const t = polyval(p, A1M1_COEFF, 0, eps * eps) / A1M1_COEFF[p + 1];
+  return (t + eps) / (1 - eps);
+}
+
+function a2m1f(eps: number): number {
+  const p = Math.floor(ORDER / 2);
+  const t = polyval(p, A2M1_COEFF, 0, eps * eps) / A2M1_COEFF[p + 1];
+  return (t - eps) / (1 + eps);
+}
+
+/**
+ * Fills c[1..ORDER] from a coefficient table laid out like C1_COEFF
+ */
+function seriesCoefficients(table: number[], eps: number): number[] {
+  const c = new Array<number>(ORDER + 1).fill(0);
+  const eps2 = eps * eps;
+  let d = eps;
+  let offset = 0;
+  for (let l = 1; l <= ORDER; ++l) {
+    const p = Math.floor((ORDER - l) / 2);
+    c[l] = (d * polyval(p, table, offset, eps2)) / table[offset + p + 1];
+    offset += p + 2;
+    d *= eps;
+  }
+  return c;
+}
+
+// A3 and C3 depend on the ellipsoid's third flattening only, so their
+// coefficients in eps are evaluated once
+const A3X: number[] = [];
+const C3X: number[] = [];
+{
+  let offset = 0;
+  for (let j = ORDER - 1; j >= 0; --j) {
+    const p = Math.min(ORDER - j - 1, j);
+    A3X.push(polyval(p, A3_COEFF, offset, N) / A3_COEFF[offset + p + 1]);
+    offset += p + 2;
+  }
+  offset = 0;
+  for (let l = 1; l < ORDER; ++l) {
+    for (let j = ORDER - 1; j >= l; --j) {
+      const p = Math.min(ORDER - j - 1, j);
+      C3X.push(polyval(p, C3_COEFF, offset, N) / C3_COEFF[offset + p + 1]);
+      offset += p + 2;
+    }
+  }
+}
+
+function a3f(eps: number): number {
+  return polyval(ORDER - 1, A3X, 0, eps);
+}
+
+function c3f(eps: number): number[] {
+  const c = new Array<number>(ORDER).fill(0);
+  let mult = 1;
+  let offset = 0;
+  for (let l = 1; l < ORDER; ++l) {
+    const m = ORDER - l - 1;
+    mult *= eps;
+    c[l] = mult * polyval(m, C3X, offset, eps);
+    offset += m + 1;
+  }
+  return c;
+}
+
+/**
+ * Distance (s12b, in units of b) and reduced length (m12b) along a
+ * geodesic between two points given on the auxiliary sphere
+ */
+function lengths(
+  eps: number,
+  sig12: number,
+  ssig1: number,
+  csig1: number,
+  dn1: number,
+  ssig2: number,
+  csig2: number,
+  dn2: number
+): { s12b: number; m12b: number } {
+  const C1a = seriesCoefficients(C1_COEFF, eps);
+  const C2a = seriesCoefficients(C2_COEFF, eps);
+  const A1m1 = a1m1f(eps);
+  const A2m1 = a2m1f(eps);
+  const m0x = A1m1 - A2m1;
+  const A1 = 1 + A1m1;
+  const A2 = 1 + A2m1;
+
+  const B1 = sinCosSeries(true, ssig2, csig2, C1a) - sinCosSeries(true, ssig1, csig1, C1a);
+  const B2 = sinCosSeries(true, ssig2, csig2, C2a) - sinCosSeries(true, ssig1, csig1, C2a);
+  const J12 = m0x * sig12 + (A1 * B1 - A2 * B2);
+
+  return {
+    s12b: A1 * (sig12 + B1),
+    m12b: dn2 * (csig1 * ssig2) - dn1 * (ssig1 * csig2) - csig1 * csig2 * J12,
+  };
+}
+
+/**
+ * Solves k^4 + 2k^3 - (x^2 + y^2 - 1)k^2 - 2y^2k - y^2 = 0 for the
+ * positive root (starting guess for nearly antipodal points)
+ */
+function astroid(x: number, y: number): number {
+  const p = x * x;
+  const q = y * y;
+  const r = (p + q - 1) / 6;
+  if (q === 0 && r <= 0) return 0;
+
+  const S = (p * q) / 4;
+  const r2 = r * r;
+  const r3 = r * r2;
+  const disc = S * (S + 2 * r3);
+  let u = r;
+  if (disc >= 0) {
+    let T3 = S + r3;
+    T3 += T3 < 0 ? -Math.sqrt(disc) : Math.sqrt(disc);
+    const T = Math.cbrt(T3);
+    u += T + (T !== 0 ? r2 / T : 0);
+  } else {
+    const angle = Math.atan2(Math.sqrt(-disc), -(S + r3));
+    u += 2 * r * Math.cos(angle / 3);
+  }
+  const v = Math.sqrt(u * u + q);
+  const uv = u < 0 ? q / (v - u) : u + v;
+  const w = (uv - q) / (2 * v);
+  return uv / (Math.sqrt(uv + w * w) + w);
+}
+
+/**
+ * Starting azimuth for the Newton iteration; solves short lines outright
+ * (sig12 >= 0 in the result)
+ */
+function inverseStart(
+  sbet1: number,
+  cbet1: number,
+  sbet2: number,
+  cbet2: number,
+  lam12: number,
+  slam12: number,
+  clam12: number
+) {
+  let sig12 = -1;
+  let salp2 = NaN;
+  let calp2 = NaN;
+  let dnm = NaN;
+
+  const sbet12 = sbet2 * cbet1 - cbet2 * sbet1;
+  const cbet12 = cbet2 * cbet1 + sbet2 * sbet1;
+  const sbet12a = sbet2 * cbet1 + cbet2 * sbet1;
+  const shortline = cbet12 >= 0 && sbet12 < 0.5 && cbet2 * lam12 < 0.5;
+
+  let somg12: number;
+  let comg12: number;
+  if (shortline) {
+    let sbetm2 = (sbet1 + sbet2) ** 2;
+    sbetm2 /= sbetm2 + (cbet1 + cbet2) ** 2;
+    dnm = Math.sqrt(1 + EP2 * sbetm2);
+    const omg12 = lam12 / (F1 * dnm);
+    somg12 = Math.sin(omg12);
+    comg12 = Math.cos(omg12);
+  } else {
+    somg12 = slam12;
+    comg12 = clam12;
+  }
+
+  let salp1 = cbet2 * somg12;
+  let calp1 =
+    comg12 >= 0
+      ? sbet12 + (cbet2 * sbet1 * somg12 * somg12) / (1 + comg12)
+      : sbet12a - (cbet2 * sbet1 * somg12 * somg12) / (1 - comg12);
+
+  const ssig12 = Math.hypot(salp1, calp1);
+  const csig12 = sbet1 * sbet2 + cbet1 * cbet2 * comg12;
+
+  if (shortline && ssig12 < ETOL2) {
+    // Really short line: the spherical solution is already exact enough
+    salp2 = cbet1 * somg12;
+    calp2 = sbet12 - cbet1 * sbet2 * (comg12 >= 0 ? (somg12 * somg12) / (1 + comg12) : 1 - comg12);
+    [salp2, calp2] = norm(salp2, calp2);
+    sig12 = Math.atan2(ssig12, csig12);
+  } else if (csig12 >= 0 || ssig12 >= 6 * Math.abs(N) * Math.PI * cbet1 * cbet1) {
+    // Not nearly antipodal: the spherical azimuth is a good start
+  } else {
+    // Nearly antipodal: scale to the astroid problem
+    const lam12x = Math.atan2(-slam12, -clam12);
+    const k2 = sbet1 * sbet1 * EP2;
+    const eps = k2 / (2 * (1 + Math.sqrt(1 + k2)) + k2);
+    const lamscale = F * cbet1 * a3f(eps) * Math.PI;
+    const betscale = lamscale * cbet1;
+    const x = lam12x / lamscale;
+    const y = sbet12a / betscale;
+
+    if (y > -TOL1 && x > -1 - XTHRESH) {
+      salp1 = Math.min(1, -x);
+      calp1 = -Math.sqrt(1 - salp1 * salp1);
+    } else {
+      const k = astroid(x, y);
+      const omg12a = lamscale * ((-x * k) / (1 + k));
+      somg12 = Math.sin(omg12a);
+      comg12 = -Math.cos(omg12a);
+      salp1 = cbet2 * somg12;
+      calp1 = sbet12a - (cbet2 * sbet1 * somg12 * somg12) / (1 - comg12);
+    }
+  }
+
+  if (salp1 > 0) {
+    [salp1, calp1] = norm(salp1, calp1);
+  } else {
+    salp1 = 1;
+    calp1 = 0;
+  }
+
+  return { sig12, salp1, calp1, salp2, calp2, dnm };
+}
+
+/**
+ * Longitude difference reached by the geodesic leaving point 1 at the
+ * given azimuth, minus the target (so the root is the solution), and its
+ * derivative with respect to the azimuth
+ */
+function lambda12(
+  sbet1: number,
+  cbet1: number,
+  dn1: number,
+  sbet2: number,
+  cbet2: number,
+  dn2: number,
+  salp1: number,
+  calp1: number,
+  slam120: number,
+  clam120: number,
+  diffp: boolean
+) {
+  if (sbet1 === 0 && calp1 === 0) calp1 = -TINY;
+
+  const salp0 = salp1 * cbet1;
+  const calp0 = Math.hypot(calp1, salp1 * sbet1);
+
+  const somg1 = salp0 * sbet1;
+  const comg1 = calp1 * cbet1;
+  const [ssig1, csig1] = norm(sbet1, comg1);
+
+  const salp2 = cbet2 !== cbet1 ? salp0 / cbet2 : salp1;
+  const calp2 =
+    cbet2 !== cbet1 || Math.abs(sbet2) !== -sbet1
+      ? Math.sqrt(
+          (calp1 * cbet1) ** 2 +
+            (cbet1 < -sbet1 ? (cbet2 - cbet1) * (cbet1 + cbet2) : (sbet1 - sbet2) * (sbet1 + sbet2))
+        ) / cbet2
+      : Math.abs(calp1);
+
+  const somg2 = salp0 * sbet2;
+  const comg2 = calp2 * cbet2;
+  const [ssig2, csig2] = norm(sbet2, comg2);
+
+  const sig12 = Math.atan2(Math.max(0, csig1 * ssig2 - ssig1 * csig2), csig1 * csig2 + ssig1 * ssig2);
+  const somg12 = Math.max(0, comg1 * somg2 - somg1 * comg2);
+  const comg12 = comg1 * comg2 + somg1 * somg2;
+  const eta = Math.atan2(somg12 * clam120 - comg12 * slam120, comg12 * clam120 + somg12 * slam120);
+
+  const k2 = calp0 * calp0 * EP2;
+  const eps = k2 / (2 * (1 + Math.sqrt(1 + k2)) + k2);
+  const C3a = c3f(eps);
+  const B312 = sinCosSeries(true, ssig2, csig2, C3a) - sinCosSeries(true, ssig1, csig1, C3a);
+  const lam12 = eta - F * a3f(eps) * salp0 * (sig12 + B312);
+
+  let dlam12 = NaN;
+  if (diffp) {
+    dlam12 =
+      calp2 === 0
+        ? (-2 * F1 * dn1) / sbet1
+        : (lengths(eps, sig12, ssig1, csig1, dn1, ssig2, csig2, dn2).m12b * F1) / (calp2 * cbet2);
+  }
+
+  return { lam12, salp2, calp2, sig12, ssig1, csig1, ssig2, csig2, eps, dlam12 };
+}
+
+/**
+ * Solves the inverse geodesic problem on WGS-84.
+ *
+ * @param lat1 - Latitude of point 1 in degrees
+ * @param lon1 - Longitude of point 1 in degrees
+ * @param lat2 - Latitude of point 2 in degrees
+ * @param lon2 - Longitude of point 2 in degrees
+ * @returns Distance and azimuths at both ends
+ */
+export function solveInverse(lat1: number, lon1: number, lat2: number, lon2: number): InverseSolution {
+  // Longitude difference in -180..180, made non-negative
+  let lon12 = angNormalize(angNormalize(lon2) - angNormalize(lon1));
+  let lonsign = lon12 >= 0 ? 1 : -1;
+  lon12 = lonsign * angRound(lon12);
+  const lon12s = angRound(180 - lon12);
+  const lam12 = lon12 * DEGREE;
+  let slam12: number;
+  let clam12: number;
+  if (lon12 > 90) {
+    [slam12, clam12] = sincosd(lon12s);
+    clam12 = -clam12;
+  } else {
+    [slam12, clam12] = sincosd(lon12);
+  }
+
+  // Swap points so that |lat1| >= |lat2|, then flip so that lat1 <= 0
+  lat1 = angRound(lat1);
+  lat2 = angRound(lat2);
+  const swapp = Math.abs(lat1) < Math.abs(lat2) ? -1 : 1;
+  if (swapp < 0) {
+    lonsign *= -1;
+    [lat1, lat2] = [lat2, lat1];
+  }
+  const latsign = lat1 < 0 ? 1 : -1;
+  lat1 *= latsign;
+  lat2 *= latsign;
+
+  // Reduced latitudes
+  let [sbet1, cbet1] = sincosd(lat1);
+  [sbet1, cbet1] = norm(F1 * sbet1, cbet1);
+  cbet1 = Math.max(TINY, cbet1);
+  let [sbet2, cbet2] = sincosd(lat2);
+  [sbet2, cbet2] = norm(F1 * sbet2, cbet2);
+  cbet2 = Math.max(TINY, cbet2);
+
+  // Make the symmetric cases exactly symmetric
+  if (cbet1 < -sbet1) {
+    if (cbet2 === cbet1) sbet2 = sbet2 < 0 ? sbet1 : -sbet1;
+  } else if (Math.abs(sbet2) === -sbet1) {
+    cbet2 = cbet1;
+  }
+
+  const dn1 = Math.sqrt(1 + EP2 * sbet1 * sbet1);
+  const dn2 = Math.sqrt(1 + EP2 * sbet2 * sbet2);
+
+  let salp1 = 0;
+  let calp1 = 0;
+  let salp2 = 0;
+  let calp2 = 0;
+  let s12x = 0;
+
+  // Meridional lines (along a line of longitude, or through a pole)
+  let meridian = lat1 === -90 || slam12 === 0;
+  if (meridian) {
+    calp1 = clam12;
+    salp1 = slam12;
+    calp2 = 1;
+    salp2 = 0;
+    const ssig1 = sbet1;
+    const csig1 = calp1 * cbet1;
+    const ssig2 = sbet2;
+    const csig2 = calp2 * cbet2;
+    const sig12 = Math.atan2(Math.max(0, csig1 * ssig2 - ssig1 * csig2), csig1 * csig2 + ssig1 * ssig2);
+    const { s12b, m12b } = lengths(N, sig12, ssig1, csig1, dn1, ssig2, csig2, dn2);
+    if (sig12 < 1 || m12b >= 0) {
+      s12x = sig12 < 3 * TINY ? 0 : s12b * B;
+    } else {
+      // Past the conjugate point: not the shortest path, solve generally
+      meridian = false;
+    }
+  }
+
+  if (!meridian && sbet1 === 0 && lon12s >= F * 180) {
+    // Equatorial line
+    calp1 = calp2 = 0;
+    salp1 = salp2 = 1;
+    s12x = A * lam12;
+  } else if (!meridian) {
+    const start = inverseStart(sbet1, cbet1, sbet2, cbet2, lam12, slam12, clam12);
+    salp1 = start.salp1;
+    calp1 = start.calp1;
+
+    if (start.sig12 >= 0) {
+      // Short line solved by inverseStart
+      salp2 = start.salp2;
+      calp2 = start.calp2;
+      s12x = start.sig12 * B * start.dnm;
+    } else {
+      // Newton's method on the azimuth at point 1, with a bracket for bisection
+      let tripn = false;
+      let tripb = false;
+      let salp1a = TINY;
+      let calp1a = 1;
+      let salp1b = TINY;
+      let calp1b = -1;
+      let result: ReturnType<typeof lambda12>;
+
+      for (let numit = 0; numit < MAXIT2; ++numit) {
+        result = lambda12(sbet1, cbet1, dn1, sbet2, cbet2, dn2, salp1, calp1, slam12, clam12, numit < MAXIT1);
+        const v = result.lam12;
+        if (tripb || !(Math.abs(v) >= (tripn ? 8 : 1) * TOL0)) break;
+
+        // Update the bracket
+        if (v > 0 && (numit > MAXIT1 || calp1 / salp1 > calp1b / salp1b)) {
+          salp1b = salp1;
+          calp1b = calp1;
+        } else if (v < 0 && (numit > MAXIT1 || calp1 / salp1 < calp1a / salp1a)) {
+          salp1a = salp1;
+          calp1a = calp1;
+        }
+
+        if (numit < MAXIT1 && result.dlam12 > 0) {
+          const dalp1 = -v / result.dlam12;
+          const sdalp1 = Math.sin(dalp1);
+          const cdalp1 = Math.cos(dalp1);
+          const nsalp1 = salp1 * cdalp1 + calp1 * sdalp1;
+          if (nsalp1 > 0 && Math.abs(dalp1) < Math.PI) {
+            calp1 = calp1 * cdalp1 - salp1 * sdalp1;
+            salp1 = nsalp1;
+            [salp1, calp1] = norm(salp1, calp1);
+            tripn = Math.abs(v) <= 16 * TOL0;
+            continue;
+          }
+        }
+
+        // Newton overshot or stalled: bisect
+        [salp1, calp1] = norm((salp1a + salp1b) / 2, (calp1a + calp1b) / 2);
+        tripn = false;
+        tripb =
+          Math.abs(salp1a - salp1) + (calp1a - calp1) < TOLB || Math.abs(salp1 - salp1b) + (calp1 - calp1b) < TOLB;
+      }
+
+      salp2 = result.salp2;
+      calp2 = result.calp2;
+      s12x =
+        lengths(
+          result.eps,
+          result.sig12,
+          result.ssig1,
+          result.csig1,
+          dn1,
+          result.ssig2,
+          result.csig2,
+          dn2
+        ).s12b * B;
+    }
+  }
+
+  // Undo the swaps
+  if (swapp < 0) {
+    [salp1, salp2] = [salp2, salp1];
+    [calp1, calp2] = [calp2, calp1];
+  }
+  salp1 *= swapp * lonsign;
+  calp1 *= swapp * latsign;
+  salp2 *= swapp * lonsign;
+  calp2 *= swapp * latsign;
+
+  return {
+    distance: 0 + s12x,
+    azimuth1: atan2d(salp1, calp1),
+    azimuth2: atan2d(salp2, calp2),
+  };
+}
+
+/**
+ * Solves the direct geodesic problem on WGS-84.
+ *
+ * @param lat1 - Latitude of the start in degrees
+ * @param lon1 - Longitude of the start in degrees
+ * @param azimuth1 - Initial azimuth in degrees clockwise from north
+ * @param distance - Distance to travel in meters (may be negative)
+ * @returns End point and azimuth there
+ */
+export function solveDirect(lat1: number, lon1: number, azimuth1: number, distance: number): DirectSolution {
+  const [salp1, calp1] = sincosd(angRound(angNormalize(azimuth1)));
+
+  let [sbet1, cbet1] = sincosd(angRound(lat1));
+  [sbet1, cbet1] = norm(F1 * sbet1, cbet1);
+  cbet1 = Math.max(TINY, cbet1);
+
+  // Azimuth at the equator crossing, and the starting point on the
+  // auxiliary sphere
+  const salp0 = salp1 * cbet1;
+  const calp0 = Math.hypot(calp1, salp1 * sbet1);
+  const somg1 = salp0 * sbet1;
+  const comg1 = sbet1 !== 0 || calp1 !== 0 ? cbet1 * calp1 : 1;
+  const [ssig1, csig1] = norm(sbet1, comg1);
+
+  const k2 = calp0 * calp0 * EP2;
+  const eps = k2 / (2 * (1 + Math.sqrt(1 + k2)) + k2);
+
+  const A1m1 = a1m1f(eps);
+  const C1a = seriesCoefficients(C1_COEFF, eps);
+  const C1pa = seriesCoefficients(C1P_COEFF, eps);
+  const B11 = sinCosSeries(true, ssig1, csig1, C1a);
+  const stau1 = ssig1 * Math.cos(B11) + csig1 * Math.sin(B11);
+  const ctau1 = csig1 * Math.cos(B11) - ssig1 * Math.sin(B11);
+
+  const A3c = -F * salp0 * a3f(eps);
+  const C3a = c3f(eps);
+  const B31 = sinCosSeries(true, ssig1, csig1, C3a);
+
+  // Arc length on the auxiliary sphere
+  const tau12 = distance / (B * (1 + A1m1));
+  const s = Math.sin(tau12);
+  const c = Math.cos(tau12);
+  const B12 = -sinCosSeries(true, stau1 * c + ctau1 * s, ctau1 * c - stau1 * s, C1pa);
+  const sig12 = tau12 - (B12 - B11);
+  const ssig12 = Math.sin(sig12);
+  const csig12 = Math.cos(sig12);
+
+  const ssig2 = ssig1 * csig12 + csig1 * ssig12;
+  const csig2 = csig1 * csig12 - ssig1 * ssig12;
+
+  const sbet2 = calp0 * ssig2;
+  let cbet2 = Math.hypot(salp0, calp0 * csig2);
+  if (cbet2 === 0) cbet2 = TINY;
+  const salp2 = salp0;
+  const calp2 = calp0 * csig2;
+
+  // Longitude difference on the auxiliary sphere, then on the ellipsoid
+  const somg2 = salp0 * ssig2;
+  const comg2 = csig2;
+  const omg12 = Math.atan2(somg2 * comg1 - comg2 * somg1, comg2 * comg1 + somg2 * somg1);
+  const lam12 = omg12 + A3c * (sig12 + (sinCosSeries(true, ssig2, csig2, C3a) - B31));
+
+  return {
+    latitude: atan2d(sbet2, F1 * cbet2),
+    longitude: angNormalize(angNormalize(lon1) + angNormalize(lam12 / DEGREE)),
+    azimuth2: atan2d(salp2, calp2),
+  };
+}
@@ -8,8 +8,38 @@
  * =============================================================================
  */
 
-const GOOGLE_API_STORAGE_KEY = 'carfinder_google_api_key';
-const SUPER_PRECISE_MODE_KEY = 'carfinder_super_precise_mode';
+import { z } from 'zod';
+import { STORAGE_KEYS, defineRecord } from './persistence';
+
+/**
+ * Google API key
+ * - v0: bare string (before the persistence layer)
+ * - v1: same value, wrapped in a version envelope
+ */
+const apiKeyStore = defineRecord<string | null>({
+  key: STORAGE_KEYS.googleApiKey,
+  version: 1,
+  schema: z.string().min(1).nullable(),
+  fallback: () => null,
+  migrations: {
+    0: (data) => data,
+  },
+});
+
+/**
+ * Super Precise Mode preference
+ * - v0: JSON boolean (before the persistence layer)
+ * - v1: same value, wrapped in a version envelope
+ */
+const superPreciseModeStore = defineRecord<boolean>({
+  key: STORAGE_KEYS.superPreciseMode,
+  version: 1,
+  schema: z.boolean(),
+  fallback: () => false,
+  migrations: {
+    0: (data) => data,
+  },
+});
 
 /**
  * Google Geolocation API response interface
@@ -23,65 +53,45 @@ interface GoogleGeolocationResponse {
 }
 
 /**
- * Save Google API key to localStorage
+ * Save Google API key
  */
-export function saveGoogleApiKey(apiKey: string): boolean {
-  try {
-    localStorage.setItem(GOOGLE_API_STORAGE_KEY, apiKey);
-    return true;
-  } catch (error) {
-    console.error('[GoogleGeo] Failed to save API key:', error);
-    return false;
-  }
+export function saveGoogleApiKey(apiKey: string): Promise<boolean> {
+  return apiKeyStore.write(apiKey);
 }
 
 /**
- * Get Google API key from localStorage
+ * Get Google API key
  */
-export function getGoogleApiKey(): string | null {
-  try {
-    return localStorage.getItem(GOOGLE_API_STORAGE_KEY);
-  } catch (error) {
-    console.error('[GoogleGeo] Failed to read API key:', error);
-    return null;
-  }
+export function getGoogleApiKey(): Promise<string | null> {
+  return apiKeyStore.read();
 }
 
 /**
- * Clear Google API key from localStorage
+ * Clear Google API key
  */
-export function clearGoogleApiKey(): void {
-  localStorage.removeItem(GOOGLE_API_STORAGE_KEY);
+export function clearGoogleApiKey(): Promise<void> {
+  return apiKeyStore.remove();
 }
 
 /**
  * Check if Google API key is configured
  */
-export function hasGoogleApiKey(): boolean {
-  return !!getGoogleApiKey();
+export async function hasGoogleApiKey(): Promise<boolean> {
+  return !!(await getGoogleApiKey());
 }
 
 /**
  * Save Super Precise Mode preference
  */
-export function setSuperPreciseMode(enabled: boolean): void {
-  try {
-    localStorage.setItem(SUPER_PRECISE_MODE_KEY, JSON.stringify(enabled));
-  } catch (error) {
-    console.error('[GoogleGeo] Failed to save preference:', error);
-  }
+export async function setSuperPreciseMode(enabled: boolean): Promise<void> {
+  await superPreciseModeStore.write(enabled);
 }
 
 /**
  * Get Super Precise Mode preference
  */
-export function getSuperPreciseMode(): boolean {
-  try {
-    const value = localStorage.getItem(SUPER_PRECISE_MODE_KEY);
-    return value ? JSON.parse(value) : false;
-  } catch (error) {
-    return false;
-  }
+export function getSuperPreciseMode(): Promise<boolean> {
+  return superPreciseModeStore.read();
 }
 
 /**
@@ -93,7 +103,7 @@ export async function getGoogleGeolocation(): Promise<{
   longitude: number;
   accuracy: number;
 } | null> {
-  const apiKey = getGoogleApiKey();
+  const apiKey = await getGoogleApiKey();
   
   if (!apiKey) {
     console.error('[GoogleGeo] No API key configured');
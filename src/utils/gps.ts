@@ -6,7 +6,10 @@
  * This module contains all geographic calculations needed for the car finder:
  * - Haversine formula for distance between two GPS points
  * - Bearing calculation for direction from one point to another
- * - Heading normalization and difference calculations
+ * - Destination point from a start, bearing and distance
+ * - Each of the above on a sphere or, via Karney's geodesic algorithms
+ *   (geodesic.ts), on the WGS-84 ellipsoid
+ * - Heading normalization, difference and unwrapping calculations
  * 
  * COORDINATE SYSTEM NOTES:
  * - All latitude/longitude values are in decimal degrees
@@ -15,6 +18,12 @@
  * =============================================================================
  */
 
+import type { ParkingDetails } from './parkingDetails';
+import type { ParkingMeter } from './meter';
+import { format } from 'date-fns';
+import { solveDirect, solveInverse } from './geodesic';
+import { getDateLocale, t } from './i18n';
+
 /**
  * Type definition for a geographic coordinate
  */
@@ -23,14 +32,34 @@ export interface Coordinates {
   longitude: number;  // Decimal degrees, positive = East
 }
 
+/**
+ * Which positioning source produced a location
+ * - 'gps': Device geolocation (GPS/WiFi/cell as chosen by the browser)
+ * - 'google': Google Geolocation API (Super Precise Mode)
+ */
+export type LocationSource = 'gps' | 'google';
+
 /**
  * Type definition for saved car location with metadata
  */
 export interface SavedLocation extends Coordinates {
   timestamp: number;  // Unix timestamp when location was saved
   accuracy?: number;  // GPS accuracy in meters (if available)
+  altitude?: number;  // Meters above the WGS84 ellipsoid (if available)
+  altitudeAccuracy?: number;  // Altitude accuracy in meters (if available)
+  provider?: LocationSource;  // Source used to capture the location
+  photos?: string[];  // JPEG data URLs of the spot (see photos.ts)
+  details?: ParkingDetails;  // Level, section, spot number and note
+  meter?: ParkingMeter;  // Paid parking time limit and reminders
 }
 
+/**
+ * Shape of the Earth used for distances and bearings
+ * - 'sphere': mean radius; simple and fast, up to ~0.5% off in distance
+ * - 'wgs84': the GPS ellipsoid; exact, a few microseconds per call
+ */
+export type EarthModel = 'sphere' | 'wgs84';
+
 /**
  * EARTH'S RADIUS
  * Used in distance calculations. Value in meters.
@@ -38,19 +67,6 @@ export interface SavedLocation extends Coordinates {
  */
 const EARTH_RADIUS_METERS = 6371000;
 
-/**
- * FEET PER METER
- * Conversion factor for imperial units
- */
-const FEET_PER_METER = 3.28084;
-
-/**
- * DISTANCE THRESHOLD
- * Distance in feet at which we switch display from feet to meters
- * User specified 1000ft threshold
- */
-export const DISTANCE_THRESHOLD_FEET = 1000;
-
 /**
  * =============================================================================
  * HAVERSINE FORMULA
@@ -69,9 +85,14 @@ export const DISTANCE_THRESHOLD_FEET = 1000;
  * 
  * @param point1 - Starting coordinates
  * @param point2 - Ending coordinates
+ * @param model - Earth model (default 'sphere')
  * @returns Distance in meters
  */
-export function calculateDistance(point1: Coordinates, point2: Coordinates): number {
+export function calculateDistance(point1: Coordinates, point2: Coordinates, model: EarthModel = 'sphere'): number {
+  if (model === 'wgs84') {
+    return geodesicInverse(point1, point2).distance;
+  }
+  
   // Convert degrees to radians
   const toRadians = (degrees: number): number => degrees * (Math.PI / 180);
   
@@ -113,9 +134,14 @@ export function calculateDistance(point1: Coordinates, point2: Coordinates): num
  * 
  * @param from - Starting coordinates (user's current position)
  * @param to - Destination coordinates (car location)
+ * @param model - Earth model (default 'sphere')
  * @returns Bearing in degrees (0-360), measured clockwise from north
  */
-export function calculateBearing(from: Coordinates, to: Coordinates): number {
+export function calculateBearing(from: Coordinates, to: Coordinates, model: EarthModel = 'sphere'): number {
+  if (model === 'wgs84') {
+    return geodesicInverse(from, to).initialBearing;
+  }
+  
   const toRadians = (degrees: number): number => degrees * (Math.PI / 180);
   const toDegrees = (radians: number): number => radians * (180 / Math.PI);
   
@@ -141,6 +167,135 @@ export function calculateBearing(from: Coordinates, to: Coordinates): number {
   return bearing;
 }
 
+/**
+ * Calculates the final bearing: the direction of travel on arrival at `to`
+ * when following the shortest path from `from`. Differs from the initial
+ * bearing on long paths, as the path curves relative to the meridians.
+ *
+ * @param from - Starting coordinates
+ * @param to - Destination coordinates
+ * @param model - Earth model (default 'sphere')
+ * @returns Bearing in degrees (0-360), measured clockwise from north
+ */
+export function calculateFinalBearing(from: Coordinates, to: Coordinates, model: EarthModel = 'sphere'): number {
+  if (model === 'wgs84') {
+    return geodesicInverse(from, to).finalBearing;
+  }
+  // On a sphere: the reverse of the initial bearing from the far end
+  return (calculateBearing(to, from) + 180) % 360;
+}
+
+/**
+ * =============================================================================
+ * DESTINATION POINT
+ * =============================================================================
+ *
+ * Calculates the point reached by traveling a distance along a bearing
+ * on a great circle. The inverse of distance + bearing above.
+ *
+ * Formula:
+ * lat2 = asin(sin(lat1)·cos(δ) + cos(lat1)·sin(δ)·cos(θ))
+ * long2 = long1 + atan2(sin(θ)·sin(δ)·cos(lat1), cos(δ) − sin(lat1)·sin(lat2))
+ * where δ = distance / Earth's radius
+ *
+ * @param from - Starting coordinates
+ * @param bearing - Direction of travel in degrees clockwise from north
+ * @param distance - Distance to travel in meters
+ * @param model - Earth model (default 'sphere')
+ * @returns Destination coordinates
+ */
+export function destinationPoint(
+  from: Coordinates,
+  bearing: number,
+  distance: number,
+  model: EarthModel = 'sphere'
+): Coordinates {
+  if (model === 'wgs84') {
+    return geodesicDirect(from, bearing, distance).coords;
+  }
+
+  const toRadians = (degrees: number): number => degrees * (Math.PI / 180);
+  const toDegrees = (radians: number): number => radians * (180 / Math.PI);
+
+  const lat1 = toRadians(from.latitude);
+  const long1 = toRadians(from.longitude);
+  const theta = toRadians(bearing);
+  const delta = distance / EARTH_RADIUS_METERS;
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(delta) + Math.cos(lat1) * Math.sin(delta) * Math.cos(theta)
+  );
+  const long2 = long1 + Math.atan2(
+    Math.sin(theta) * Math.sin(delta) * Math.cos(lat1),
+    Math.cos(delta) - Math.sin(lat1) * Math.sin(lat2)
+  );
+
+  return {
+    latitude: toDegrees(lat2),
+    // Normalize longitude to -180..180
+    longitude: ((toDegrees(long2) + 540) % 360) - 180,
+  };
+}
+
+/**
+ * =============================================================================
+ * ELLIPSOIDAL GEODESICS (WGS-84)
+ * =============================================================================
+ *
+ * Exact shortest paths on the WGS-84 ellipsoid (Karney's algorithms, see
+ * geodesic.ts). Robust for every pair of points, including coincident,
+ * very close and nearly antipodal ones, where Vincenty's method fails.
+ */
+
+/**
+ * Shortest path between two points
+ */
+export interface GeodesicInverse {
+  distance: number;        // Meters
+  initialBearing: number;  // Degrees (0-360) at the start
+  finalBearing: number;    // Degrees (0-360) on arrival
+}
+
+/**
+ * End of a path traveled along a bearing
+ */
+export interface GeodesicDirect {
+  coords: Coordinates;
+  finalBearing: number;    // Degrees (0-360) on arrival
+}
+
+/**
+ * Solves the inverse problem: distance and bearings between two points.
+ *
+ * @param from - Starting coordinates
+ * @param to - Destination coordinates
+ * @returns Distance and initial/final bearings on the WGS-84 ellipsoid
+ */
+export function geodesicInverse(from: Coordinates, to: Coordinates): GeodesicInverse {
+  const solution = solveInverse(from.latitude, from.longitude, to.latitude, to.longitude);
+  return {
+    distance: solution.distance,
+    initialBearing: normalizeHeading(solution.azimuth1),
+    finalBearing: normalizeHeading(solution.azimuth2),
+  };
+}
+
+/**
+ * Solves the direct problem: where a bearing and distance lead.
+ *
+ * @param from - Starting coordinates
+ * @param bearing - Initial direction in degrees clockwise from north
+ * @param distance - Distance to travel in meters
+ * @returns Destination and final bearing on the WGS-84 ellipsoid
+ */
+export function geodesicDirect(from: Coordinates, bearing: number, distance: number): GeodesicDirect {
+  const solution = solveDirect(from.latitude, from.longitude, bearing, distance);
+  return {
+    coords: { latitude: solution.latitude, longitude: solution.longitude },
+    finalBearing: normalizeHeading(solution.azimuth2),
+  };
+}
+
 /**
  * =============================================================================
  * HEADING NORMALIZATION
@@ -164,6 +319,41 @@ export function normalizeHeading(heading: number): number {
   return heading % 360;
 }
 
+/**
+ * =============================================================================
+ * ANGLE DIFFERENCE & UNWRAPPING
+ * =============================================================================
+ * 
+ * Headings wrap around at 360°, so 359° → 1° is a 2° turn, not 358°.
+ * 
+ * angleDifference gives the shortest signed turn between two headings.
+ * unwrapAngle turns a stream of 0-360 values into a continuous one
+ * (..., 358, 359, 361, 362, ...) so CSS rotation transitions never spin
+ * the long way around.
+ * 
+ * Examples:
+ * - angleDifference(350, 10) returns 20
+ * - angleDifference(10, 350) returns -20
+ * - unwrapAngle(359, 1) returns 361
+ * 
+ * @param from - Starting angle in degrees (any value)
+ * @param to - Target angle in degrees (any value)
+ * @returns Signed difference in degrees (-180 to 180)
+ */
+export function angleDifference(from: number, to: number): number {
+  const difference = normalizeHeading(to - from);
+  return difference > 180 ? difference - 360 : difference;
+}
+
+/**
+ * @param previous - Last unwrapped angle (may be outside 0-360)
+ * @param angle - New angle in degrees (any value)
+ * @returns The equivalent of angle closest to previous
+ */
+export function unwrapAngle(previous: number, angle: number): number {
+  return previous + angleDifference(previous, angle);
+}
+
 /**
  * =============================================================================
  * RELATIVE HEADING CALCULATION
@@ -196,59 +386,19 @@ export function calculateRelativeHeading(bearing: number, deviceHeading: number)
   return normalizeHeading(relative);
 }
 
-/**
- * =============================================================================
- * DISTANCE FORMATTING
- * =============================================================================
- * 
- * Formats distance for display with appropriate units.
- * - Under 1000ft: displays in feet
- * - Over 1000ft: displays in meters
- * 
- * This threshold was specified by the user for the ideal user experience.
- * 
- * @param meters - Distance in meters
- * @returns Object with formatted value and unit string
- */
-export function formatDistance(meters: number): { value: string; unit: string } {
-  const feet = meters * FEET_PER_METER;
-  
-  if (feet < DISTANCE_THRESHOLD_FEET) {
-    // Display in feet for short distances
-    return {
-      value: Math.round(feet).toLocaleString(),
-      unit: 'ft'
-    };
-  } else {
-    // Display in meters for longer distances
-    // Round to nearest 10 meters for cleaner display
-    const roundedMeters = Math.round(meters / 10) * 10;
-    return {
-      value: roundedMeters.toLocaleString(),
-      unit: 'm'
-    };
-  }
-}
-
 /**
  * =============================================================================
  * TIMESTAMP FORMATTING
  * =============================================================================
  * 
- * Formats a Unix timestamp into a human-readable date/time string.
+ * Formats a Unix timestamp into a human-readable date/time string
+ * in the current language.
  * 
  * @param timestamp - Unix timestamp in milliseconds
- * @returns Formatted date string (e.g., "Dec 12, 2024 at 3:45 PM")
+ * @returns Formatted date string (e.g., "Dec 12, 2024, 3:45 PM")
  */
 export function formatTimestamp(timestamp: number): string {
-  return new Intl.DateTimeFormat('en-US', {
-    month: 'short',
-    day: 'numeric',
-    year: 'numeric',
-    hour: 'numeric',
-    minute: '2-digit',
-    hour12: true
-  }).format(new Date(timestamp));
+  return format(timestamp, 'PPp', { locale: getDateLocale() });
 }
 
 /**
@@ -258,13 +408,31 @@ export function formatTimestamp(timestamp: number): string {
  * 
  * Converts a bearing in degrees to a cardinal direction string.
  * Useful for debugging and accessibility features.
- * 
+ */
+
+/**
+ * How finely the compass rose is divided
+ */
+export type CompassPoints = 8 | 16 | 32;
+
+/**
+ * The 32 compass points clockwise from north; every 2nd is a 16-point
+ * direction and every 4th an 8-point one
+ */
+const COMPASS_POINTS = [
+  'N', 'NbE', 'NNE', 'NEbN', 'NE', 'NEbE', 'ENE', 'EbN',
+  'E', 'EbS', 'ESE', 'SEbE', 'SE', 'SEbS', 'SSE', 'SbE',
+  'S', 'SbW', 'SSW', 'SWbS', 'SW', 'SWbW', 'WSW', 'WbS',
+  'W', 'WbN', 'WNW', 'NWbW', 'NW', 'NWbN', 'NNW', 'NbW',
+] as const;
+
+/**
  * @param bearing - Bearing in degrees (0-360)
- * @returns Cardinal direction string (N, NE, E, SE, S, SW, W, NW)
+ * @param points - 8, 16 or 32-point compass rose
+ * @returns Localized cardinal direction (e.g. NE, NNE or NEbN in English)
  */
-export function getCardinalDirection(bearing: number): string {
-  const directions = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
-  // Each direction covers 45 degrees, offset by 22.5 degrees for centered ranges
-  const index = Math.round(bearing / 45) % 8;
-  return directions[index];
+export function getCardinalDirection(bearing: number, points: CompassPoints = 8): string {
+  // Each direction covers 360/points degrees, centered on the direction
+  const index = Math.round(normalizeHeading(bearing) / (360 / points)) % points;
+  return t(`direction.${COMPASS_POINTS[index * (32 / points)]}`);
 }
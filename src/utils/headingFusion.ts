@@ -0,0 +1,99 @@
+/**
+ * =============================================================================
+ * HEADING FUSION - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Decides which way the user is facing from two imperfect sources:
+ * - Compass (magnetometer): works standing still, but is easily thrown off
+ *   by the steel of parked cars
+ * - GPS course over ground: immune to magnetic fields, but only meaningful
+ *   while walking, and the faster the better
+ *
+ * The two are combined as a weighted circular mean, each weighted by the
+ * inverse square of its expected error. Course error is estimated from
+ * speed: a fixed velocity error matters less the faster you move.
+ * =============================================================================
+ */
+
+/**
+ * Which source is steering the arrow (labels are the "headingSource.*" messages)
+ */
+export type HeadingSource = 'compass' | 'course' | 'blended';
+
+/**
+ * Inputs to the heading fusion
+ */
+export interface HeadingInputs {
+  compass: number | null;          // Degrees from north
+  compassAccuracy?: number | null; // Degrees, if the device reports it
+  course: number | null;           // GPS course over ground, degrees from north
+  speed: number | null;            // Ground speed in m/s
+}
+
+/**
+ * Fused heading
+ */
+export interface HeadingEstimate {
+  heading: number;       // Degrees from north (0-360)
+  source: HeadingSource;
+  courseWeight: number;  // Share of the GPS course in the result (0-1)
+}
+
+/**
+ * Speed above which GPS course is used at all (m/s); slow walking is ~1.1
+ */
+export const WALKING_SPEED_THRESHOLD = 0.8;
+
+/**
+ * Compass error assumed when the device doesn't report one (degrees)
+ */
+const DEFAULT_COMPASS_ACCURACY = 15;
+
+/**
+ * Typical GPS (Doppler) velocity error (m/s)
+ */
+const GPS_VELOCITY_ACCURACY = 0.3;
+
+/**
+ * Share of the total weight above which one source is named alone
+ */
+const DOMINANT_SHARE = 0.8;
+
+/**
+ * Expected error of the GPS course at a given speed.
+ *
+ * @param speed - Ground speed in m/s
+ * @returns Error in degrees
+ */
+export function courseAccuracy(speed: number): number {
+  return (Math.atan2(GPS_VELOCITY_ACCURACY, speed) * 180) / Math.PI;
+}
+
+/**
+ * Combines compass heading and GPS course.
+ *
+ * @param inputs - Current readings
+ * @returns The fused heading, or null if neither source is usable
+ */
+export function fuseHeading(inputs: HeadingInputs): HeadingEstimate | null {
+  const { compass, compassAccuracy, course, speed } = inputs;
+  const hasCourse = course !== null && speed !== null && speed >= WALKING_SPEED_THRESHOLD;
+
+  if (compass === null && !hasCourse) return null;
+  if (!hasCourse) return { heading: compass, source: 'compass', courseWeight: 0 };
+  if (compass === null) return { heading: course, source: 'course', courseWeight: 1 };
+
+  const compassWeight = 1 / (compassAccuracy ?? DEFAULT_COMPASS_ACCURACY) ** 2;
+  const courseWeight = 1 / courseAccuracy(speed) ** 2;
+  const share = courseWeight / (compassWeight + courseWeight);
+
+  // Weighted circular mean (averaging unit vectors handles the 359°/1° wrap)
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const x = (1 - share) * Math.sin(toRadians(compass)) + share * Math.sin(toRadians(course));
+  const y = (1 - share) * Math.cos(toRadians(compass)) + share * Math.cos(toRadians(course));
+  const heading = ((Math.atan2(x, y) * 180) / Math.PI + 360) % 360;
+
+  const source: HeadingSource =
+    share >= DOMINANT_SHARE ? 'course' : share <= 1 - DOMINANT_SHARE ? 'compass' : 'blended';
+  return { heading, source, courseWeight: share };
+}
@@ -0,0 +1,221 @@
+/**
+ * =============================================================================
+ * PARKING HISTORY - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Keeps a log of every parking session so that updating or clearing a
+ * vehicle's saved location no longer throws the previous spot away.
+ *
+ * SESSION LIFECYCLE:
+ * - A session starts when a location is saved for a vehicle
+ * - It ends when that vehicle's location is updated or cleared
+ * - At most one session per vehicle is open (endedAt === null) at a time
+ *
+ * Sessions are stored newest first. Photos stay with the vehicle's saved
+ * location only: copying their data URLs into every session would make the
+ * log grow by megabytes per spot and rewrite all of it on each update.
+ * =============================================================================
+ */
+
+import { SavedLocation, LocationSource } from './gps';
+import { STORAGE_KEYS, defineList } from './persistence';
+import { ParkingSessionSchema } from './schemas';
+
+/**
+ * Type definition for a single parking session
+ */
+export interface ParkingSession {
+  id: string;
+  vehicleId: string;
+  location: SavedLocation;    // Without photos
+  startedAt: number;           // Unix timestamp when the spot was saved
+  endedAt: number | null;      // Unix timestamp when it was replaced/cleared, null if still parked
+  accuracy?: number;           // Capture accuracy in meters
+  provider: LocationSource;    // Source used to capture the spot
+  name?: string;               // Optional user-given label
+}
+
+/**
+ * Parking history list
+ * - v0: unversioned list (before the persistence layer)
+ * - v1: same shape, wrapped in a version envelope
+ * - v2: photos removed from session locations
+ */
+const historyStore = defineList<ParkingSession>({
+  key: STORAGE_KEYS.parkingHistory,
+  version: 2,
+  itemSchema: ParkingSessionSchema,
+  migrations: {
+    0: (data) => data,
+    1: (data) => Array.isArray(data)
+      ? data.map((session) => session?.location
+        ? { ...session, location: withoutPhotos(session.location) }
+        : session)
+      : data,
+  },
+});
+
+/**
+ * Copy of a location without its photos, as kept in the history
+ */
+function withoutPhotos(location: SavedLocation): SavedLocation {
+  const { photos, ...rest } = location;
+  return rest;
+}
+
+/**
+ * Generates a reasonably unique ID for a new session
+ */
+function generateSessionId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Retrieves all parking sessions, newest first.
+ *
+ * @returns List of sessions (empty if none; invalid entries are quarantined)
+ */
+export function getParkingHistory(): Promise<ParkingSession[]> {
+  return historyStore.read();
+}
+
+/**
+ * Looks up a single session by ID.
+ *
+ * @returns The session, or null if it does not exist
+ */
+export async function getParkingSession(sessionId: string): Promise<ParkingSession | null> {
+  return (await getParkingHistory()).find((s) => s.id === sessionId) ?? null;
+}
+
+/**
+ * Closes every open session of a vehicle.
+ *
+ * @param sessions - History list (not mutated)
+ * @returns A new list with the vehicle's open sessions ended
+ */
+function endOpenSessions(sessions: ParkingSession[], vehicleId: string, endedAt: number): ParkingSession[] {
+  return sessions.map((s) =>
+    s.vehicleId === vehicleId && s.endedAt === null ? { ...s, endedAt } : s
+  );
+}
+
+/**
+ * Records a new parking session for a vehicle.
+ * Any session still open for the same vehicle is ended first.
+ *
+ * @param vehicleId - The vehicle that was parked
+ * @param location - The saved location
+ * @returns The created session, or null if storage failed
+ */
+export async function startParkingSession(vehicleId: string, location: SavedLocation): Promise<ParkingSession | null> {
+  const session: ParkingSession = {
+    id: generateSessionId(),
+    vehicleId,
+    location: withoutPhotos(location),
+    startedAt: location.timestamp,
+    endedAt: null,
+    accuracy: location.accuracy,
+    provider: location.provider ?? 'gps',
+  };
+
+  const saved = await historyStore.update((sessions) =>
+    [session, ...endOpenSessions(sessions, vehicleId, location.timestamp)]
+  );
+  return saved ? session : null;
+}
+
+/**
+ * Ends a vehicle's open session (e.g. when its location is cleared).
+ *
+ * @param vehicleId - The vehicle that left its spot
+ * @param endedAt - When the session ended (defaults to now)
+ */
+export async function endParkingSession(vehicleId: string, endedAt: number = Date.now()): Promise<void> {
+  await historyStore.update((sessions) => endOpenSessions(sessions, vehicleId, endedAt));
+}
+
+/**
+ * Replaces the location stored in a vehicle's open session.
+ * Keeps the history in step when extra information (e.g. parking details)
+ * is attached to the current spot after it was saved. Photos are dropped.
+ *
+ * @param vehicleId - The vehicle whose open session should be updated
+ * @param location - The updated location
+ * @returns true if saved successfully
+ */
+export function updateOpenParkingSession(vehicleId: string, location: SavedLocation): Promise<boolean> {
+  return historyStore.update((sessions) =>
+    sessions.map((s) =>
+      s.vehicleId === vehicleId && s.endedAt === null ? { ...s, location: withoutPhotos(location) } : s
+    )
+  );
+}
+
+/**
+ * Adds sessions imported from a file (see geoFormats.ts) to the history.
+ * Imported sessions are always ended, so they never replace a vehicle's
+ * current spot. Spots already in the history (same coordinates, and the
+ * same time or name) are skipped; the name catches re-imports of files
+ * whose spots had no time of their own and were given the import time.
+ *
+ * @param vehicleId - Vehicle the imported sessions are assigned to
+ * @param entries - Imported locations with optional name and end time
+ * @returns Number of sessions added, or null if storage failed
+ */
+export async function importParkingSessions(
+  vehicleId: string,
+  entries: { location: SavedLocation; name?: string; endedAt?: number | null }[]
+): Promise<number | null> {
+  const sameSpot = (session: ParkingSession, location: SavedLocation, name: string | undefined) =>
+    session.location.latitude === location.latitude &&
+    session.location.longitude === location.longitude &&
+    (session.location.timestamp === location.timestamp || (session.name ?? '') === (name?.trim() ?? ''));
+
+  let added = 0;
+  const saved = await historyStore.update((sessions) => {
+    const imported: ParkingSession[] = [];
+    entries.forEach(({ location, name, endedAt }) => {
+      if ([...sessions, ...imported].some((s) => sameSpot(s, location, name))) return;
+      imported.push({
+        id: generateSessionId(),
+        vehicleId,
+        location: withoutPhotos(location),
+        startedAt: location.timestamp,
+        endedAt: Math.max(endedAt ?? location.timestamp, location.timestamp),
+        accuracy: location.accuracy,
+        provider: location.provider ?? 'gps',
+        name: name?.trim() || undefined,
+      });
+    });
+    added = imported.length;
+    return [...sessions, ...imported].sort((a, b) => b.startedAt - a.startedAt);
+  });
+  return saved ? added : null;
+}
+
+/**
+ * Sets or clears the user-given name of a session.
+ *
+ * @param sessionId - Session to rename
+ * @param name - New name; empty string removes the name
+ * @returns true if saved successfully
+ */
+export function renameParkingSession(sessionId: string, name: string): Promise<boolean> {
+  const trimmed = name.trim();
+  return historyStore.update((sessions) =>
+    sessions.map((s) => (s.id === sessionId ? { ...s, name: trimmed || undefined } : s))
+  );
+}
+
+/**
+ * Permanently removes a session from the history.
+ *
+ * @returns true if saved successfully
+ */
+export function deleteParkingSession(sessionId: string): Promise<boolean> {
+  return historyStore.update((sessions) => sessions.filter((s) => s.id !== sessionId));
+}
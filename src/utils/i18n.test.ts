@@ -0,0 +1,107 @@
+/**
+ * =============================================================================
+ * RIGHT-TO-LEFT LAYOUT TESTS - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Checks that a right-to-left language mirrors the layout:
+ * - The en-XB pseudo-locale switches the document to rtl and displays its
+ *   text right-to-left
+ * - Components only use logical (start/end) Tailwind classes for horizontal
+ *   spacing and positioning, which the browser flips under dir="rtl";
+ *   physical left/right classes would stay put
+ * =============================================================================
+ */
+
+import { readFileSync, readdirSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { LOCALE_LABELS, detectLocale, getTextDirection, setLocale, t } from './i18n';
+
+const SRC_DIR = join(__dirname, '..');
+
+/**
+ * Tailwind classes tied to the left or right side, with any variants
+ * (e.g. "sm:pl-4", "-right-0.5", "rounded-tl-lg", "text-left")
+ */
+const PHYSICAL_CLASS =
+  /^(?:[\w[\]=&.-]+:)*-?(?:(?:[mp][lr]|left|right|border-[lr]|rounded-[lr]|rounded-[tb][lr]|scroll-[mp][lr])-\S+|(?:text|float|clear)-(?:left|right))$/;
+
+/**
+ * Horizontal centering (left-1/2 with -translate-x-1/2) looks the same
+ * either way round
+ */
+const CENTERING_CLASSES = new Set(['left-1/2', 'left-[50%]']);
+
+function listTsx(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return entry.name === 'ui' ? [] : listTsx(path);
+    return entry.name.endsWith('.tsx') ? [path] : [];
+  });
+}
+
+/**
+ * App components and pages, plus the ui primitives they use
+ */
+function layoutFiles(): string[] {
+  const appFiles = [...listTsx(join(SRC_DIR, 'components')), ...listTsx(join(SRC_DIR, 'pages'))];
+  const primitives = new Set<string>();
+  appFiles.forEach((file) => {
+    for (const [, name] of readFileSync(file, 'utf8').matchAll(/from '@\/components\/ui\/([\w-]+)'/g)) {
+      primitives.add(join(SRC_DIR, 'components', 'ui', `${name}.tsx`));
+    }
+  });
+  return [...appFiles, ...primitives];
+}
+
+/**
+ * Physical left/right classes in a file's string literals, as "file:line class"
+ */
+function findPhysicalClasses(file: string): string[] {
+  const found: string[] = [];
+  readFileSync(file, 'utf8').split('\n').forEach((line, index) => {
+    for (const [literal] of line.matchAll(/"[^"]*"|'[^']*'|`[^`]*`/g)) {
+      literal.slice(1, -1).split(/\s+/).forEach((token) => {
+        if (PHYSICAL_CLASS.test(token) && !CENTERING_CLASSES.has(token)) {
+          found.push(`${relative(SRC_DIR, file)}:${index + 1} ${token}`);
+        }
+      });
+    }
+  });
+  return found;
+}
+
+describe('pseudo-RTL locale', () => {
+  afterEach(() => setLocale('en'));
+
+  it('is right-to-left while the real catalogs are left-to-right', () => {
+    expect(getTextDirection('en-XB')).toBe('rtl');
+    expect(getTextDirection('en')).toBe('ltr');
+    expect(getTextDirection('es')).toBe('ltr');
+    expect(getTextDirection('de')).toBe('ltr');
+  });
+
+  it('shows the English text with placeholders and plurals filled in', () => {
+    setLocale('en-XB');
+    expect(t('history.count', { count: 2 })).toBe('\u202E2 spots\u202C');
+    expect(t('qr.saveAs', { vehicle: 'Van' })).toBe('\u202ESave as Van\u202C');
+  });
+
+  it('is offered in development builds but never detected', () => {
+    expect(LOCALE_LABELS['en-XB']).toBeDefined();
+    expect(detectLocale(['en-XB'])).toBe('en');
+  });
+});
+
+describe('layout classes', () => {
+  it('finds physical classes', () => {
+    expect(['mr-2', 'sm:pl-4', '-right-0.5', 'rounded-tl-lg', 'sm:text-left', 'data-[state=open]:left-2']
+      .every((token) => PHYSICAL_CLASS.test(token))).toBe(true);
+    expect(['me-2', 'ps-4', '-end-0.5', 'rounded-ss-lg', 'text-start', 'left', 'translate-x-5', 'leftover']
+      .some((token) => PHYSICAL_CLASS.test(token))).toBe(false);
+  });
+
+  it('uses logical start/end classes in components and pages', () => {
+    expect(layoutFiles().flatMap(findPhysicalClasses)).toEqual([]);
+  });
+});
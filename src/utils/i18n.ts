@@ -0,0 +1,242 @@
+/**
+ * =============================================================================
+ * INTERNATIONALIZATION - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Message catalogs, locale detection and localized dates.
+ *
+ * MESSAGES:
+ * - One catalog per language in src/locales; English (en.ts) defines the
+ *   keys, and the other catalogs must provide every one of them
+ * - Placeholders are written {name} and filled from the params passed to t()
+ * - A message can be a set of plural forms ({ one, other, ... }), picked by
+ *   the CLDR plural rules of the language for the "count" param
+ *
+ * LOCALE:
+ * - "Automatic" picks the first of the browser's preferred languages that
+ *   has a catalog, falling back to English
+ * - The <html> element's lang and dir follow the locale, so right-to-left
+ *   catalogs lay out correctly; components use logical (start/end) spacing
+ * - Development builds also offer en-XB, a pseudo-locale that shows the
+ *   English text right-to-left to check that layouts mirror
+ *
+ * React components read messages through useLocale(), which re-renders
+ * them when the language changes. Everything else calls t() directly.
+ * =============================================================================
+ */
+
+import { z } from 'zod';
+import type { Locale as DateLocale } from 'date-fns';
+import { de as deDateLocale, enUS, es as esDateLocale } from 'date-fns/locale';
+import { STORAGE_KEYS, defineRecord } from './persistence';
+import { en, MessageKey } from '../locales/en';
+import { es } from '../locales/es';
+import { de } from '../locales/de';
+import { pseudoRtl } from '../locales/pseudoRtl';
+
+export type { MessageKey };
+
+/**
+ * Languages with a message catalog
+ */
+export type Locale = 'en' | 'es' | 'de' | 'en-XB';
+
+/**
+ * Language chosen in Settings
+ */
+export type LocalePreference = 'auto' | Locale;
+
+/**
+ * Text direction of a language
+ */
+export type TextDirection = 'ltr' | 'rtl';
+
+/**
+ * Plural forms of a message; "other" is required by every language
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/**
+ * A catalog entry
+ */
+export type Message = string | PluralMessage;
+
+/**
+ * Values substituted into {placeholders}
+ */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Everything needed to present one language
+ */
+interface LocaleDefinition {
+  label: string;  // Name of the language in that language
+  dir: TextDirection;
+  dateLocale: DateLocale;
+  messages: Record<MessageKey, Message>;
+  /** Testing aid, listed in development builds only */
+  pseudo?: boolean;
+}
+
+/**
+ * Supported languages
+ */
+const LOCALES: Record<Locale, LocaleDefinition> = {
+  en: { label: 'English', dir: 'ltr', dateLocale: enUS, messages: en },
+  es: { label: 'Español', dir: 'ltr', dateLocale: esDateLocale, messages: es },
+  de: { label: 'Deutsch', dir: 'ltr', dateLocale: deDateLocale, messages: de },
+  'en-XB': { label: 'Pseudo RTL', dir: 'rtl', dateLocale: enUS, messages: pseudoRtl, pseudo: true },
+};
+
+/**
+ * Display names for the languages offered in Settings, each in its own
+ * language (pseudo-locales only in development)
+ */
+export const LOCALE_LABELS = Object.fromEntries(
+  Object.entries(LOCALES)
+    .filter(([, definition]) => !definition.pseudo || import.meta.env.DEV)
+    .map(([locale, definition]) => [locale, definition.label])
+) as Partial<Record<Locale, string>>;
+
+/**
+ * Language used when the browser prefers none we support
+ */
+const DEFAULT_LOCALE: Locale = 'en';
+
+/**
+ * Language preference
+ * - v1: 'auto' or a language code (en-XB being the pseudo-locale)
+ */
+const localePreferenceStore = defineRecord<LocalePreference>({
+  key: STORAGE_KEYS.locale,
+  version: 1,
+  schema: z.enum(['auto', 'en', 'es', 'de', 'en-XB']),
+  fallback: () => 'auto',
+});
+
+/**
+ * Picks the catalog for the browser's preferred languages.
+ *
+ * @param languages - BCP 47 tags in order of preference
+ * @returns First supported language, or English
+ */
+export function detectLocale(
+  languages: readonly string[] = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : []
+): Locale {
+  for (const tag of languages) {
+    const language = tag.split('-')[0].toLowerCase();
+    if (language in LOCALES) return language as Locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+let currentLocale: Locale = detectLocale();
+const listeners = new Set<() => void>();
+
+/**
+ * Current language
+ */
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+/**
+ * Text direction of a language
+ */
+export function getTextDirection(locale: Locale = currentLocale): TextDirection {
+  return LOCALES[locale].dir;
+}
+
+/**
+ * date-fns locale for the current language
+ */
+export function getDateLocale(): DateLocale {
+  return LOCALES[currentLocale].dateLocale;
+}
+
+/**
+ * Switches the language for this session and updates the document.
+ *
+ * @param locale - Language to use
+ */
+export function setLocale(locale: Locale): void {
+  currentLocale = locale;
+  if (typeof document !== 'undefined') {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = getTextDirection(locale);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Registers a callback for language changes.
+ *
+ * @returns Function that removes the callback
+ */
+export function subscribeLocale(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Retrieves the saved language preference
+ */
+export function getLocalePreference(): Promise<LocalePreference> {
+  return localePreferenceStore.read();
+}
+
+/**
+ * Saves the language preference and switches to it
+ */
+export async function setLocalePreference(preference: LocalePreference): Promise<boolean> {
+  setLocale(preference === 'auto' ? detectLocale() : preference);
+  return localePreferenceStore.write(preference);
+}
+
+/**
+ * Applies the saved language preference. Called once at startup; the
+ * detected language is used until it resolves.
+ */
+export async function initLocale(): Promise<void> {
+  setLocale(currentLocale);
+  const preference = await getLocalePreference();
+  if (preference !== 'auto') setLocale(preference);
+}
+
+/**
+ * Formats a number for the current language
+ */
+export function formatNumber(value: number, decimals?: number): string {
+  return value.toLocaleString(currentLocale, {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals ?? 3,
+  });
+}
+
+/**
+ * Looks up a message in the current language.
+ *
+ * @param key - Catalog key
+ * @param params - Placeholder values; a numeric "count" selects the plural form
+ * @returns The localized message
+ */
+export function t(key: MessageKey, params: MessageParams = {}): string {
+  const message = LOCALES[currentLocale].messages[key] ?? en[key];
+
+  let template: string;
+  if (typeof message === 'string') {
+    template = message;
+  } else {
+    const count = typeof params.count === 'number' ? params.count : 0;
+    const form = new Intl.PluralRules(currentLocale).select(count);
+    template = message[form] ?? message.other;
+  }
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? formatNumber(value) : value;
+  });
+}
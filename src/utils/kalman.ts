@@ -0,0 +1,265 @@
+/**
+ * =============================================================================
+ * KALMAN POSITION FILTER - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Constant-velocity Kalman filter that turns noisy GPS fixes into a smooth,
+ * responsive position estimate with an honest uncertainty.
+ *
+ * MODEL:
+ * - Works in a local east/north plane (meters) anchored at the first fix,
+ *   which is accurate to well under a centimeter over walking distances
+ * - State per axis: [position, velocity]; east and north are independent
+ * - Process noise: random acceleration (white-noise jerk model), tuned for
+ *   a person walking with a phone
+ * - Measurement noise: from the fix's reported accuracy, which the
+ *   Geolocation API defines as the radius of 95% confidence; for a circular
+ *   Gaussian error that is about 2.45 times the 1-sigma error on each axis
+ *
+ * ROBUSTNESS:
+ * - Fixes that disagree wildly with the estimate (chi-square gate) are
+ *   ignored, unless several arrive in a row, in which case the filter
+ *   assumes it is the estimate that is wrong and re-initializes
+ * - Long gaps between fixes (e.g. app in background) also re-initialize
+ *
+ * The reported accuracy is converted back to a 95% radius, the same
+ * convention as the Geolocation API input, so it can be displayed in the
+ * same way.
+ * =============================================================================
+ */
+
+import { Coordinates } from './gps';
+
+/**
+ * A position measurement fed into the filter
+ */
+export interface PositionMeasurement {
+  coords: Coordinates;
+  accuracy: number;   // Meters (95% confidence radius)
+  timestamp: number;  // Unix timestamp in milliseconds
+}
+
+/**
+ * Filter output
+ */
+export interface PositionEstimate {
+  coords: Coordinates;
+  accuracy: number;       // Estimated position uncertainty in meters (95% confidence radius)
+  speed: number;          // Estimated ground speed in m/s
+  course: number | null;  // Direction of travel in degrees from north, null when (nearly) stationary
+  timestamp: number;
+}
+
+/**
+ * Tuning parameters
+ */
+export interface KalmanFilterOptions {
+  /** Random acceleration standard deviation in m/s² (higher = more responsive) */
+  accelerationNoise?: number;
+  /** Gap after which the filter re-initializes, in milliseconds */
+  maxGapMs?: number;
+  /** Consecutive rejected fixes after which the filter re-initializes */
+  maxRejectedFixes?: number;
+}
+
+/**
+ * Kalman position filter handle
+ */
+export interface KalmanFilter {
+  /** Incorporate a fix and return the new estimate */
+  update: (measurement: PositionMeasurement) => PositionEstimate;
+  /** Predict the estimate at a later time without a fix */
+  predict: (timestamp: number) => PositionEstimate | null;
+  /** Current estimate, or null before the first fix */
+  getEstimate: () => PositionEstimate | null;
+  /** Forget all state; the next fix initializes the filter */
+  reset: () => void;
+}
+
+const DEFAULT_OPTIONS: Required<KalmanFilterOptions> = {
+  accelerationNoise: 1.0,
+  maxGapMs: 60_000,
+  maxRejectedFixes: 3,
+};
+
+/**
+ * Ratio of a 95% confidence radius to the 1-sigma error per axis of a
+ * circular Gaussian: sqrt(-2 ln 0.05)
+ */
+export const ACCURACY_PER_SIGMA = Math.sqrt(-2 * Math.log(0.05));
+
+/**
+ * Per-axis measurement variance (m²) of a fix's reported accuracy
+ * (reported accuracies below 1 m are not trusted)
+ */
+function measurementVariance(accuracy: number): number {
+  return (Math.max(accuracy, 1) / ACCURACY_PER_SIGMA) ** 2;
+}
+
+/**
+ * Chi-square threshold for 2 degrees of freedom at 99.9%
+ */
+const GATE_THRESHOLD = 13.82;
+
+/**
+ * Initial velocity uncertainty (m/s) when the filter starts
+ */
+const INITIAL_VELOCITY_SIGMA = 2;
+
+/**
+ * Speed below which the course is considered unknown (m/s)
+ */
+const MIN_COURSE_SPEED = 0.5;
+
+/**
+ * Meters per degree of latitude (mean Earth radius)
+ */
+const METERS_PER_DEGREE = (Math.PI / 180) * 6371000;
+
+/**
+ * State of one axis: position/velocity plus 2x2 covariance
+ * [p00 p01; p01 p11] (symmetric)
+ */
+interface AxisState {
+  x: number;
+  v: number;
+  p00: number;
+  p01: number;
+  p11: number;
+}
+
+function initAxis(x: number, variance: number): AxisState {
+  return { x, v: 0, p00: variance, p01: 0, p11: INITIAL_VELOCITY_SIGMA ** 2 };
+}
+
+/**
+ * Time update: x' = F x, P' = F P Fᵀ + Q
+ * F = [1 dt; 0 1], Q = q [dt⁴/4 dt³/2; dt³/2 dt²]
+ */
+function predictAxis(s: AxisState, dt: number, q: number): AxisState {
+  const dt2 = dt * dt;
+  return {
+    x: s.x + s.v * dt,
+    v: s.v,
+    p00: s.p00 + 2 * dt * s.p01 + dt2 * s.p11 + (q * dt2 * dt2) / 4,
+    p01: s.p01 + dt * s.p11 + (q * dt2 * dt) / 2,
+    p11: s.p11 + q * dt2,
+  };
+}
+
+/**
+ * Measurement update with H = [1 0]
+ */
+function correctAxis(s: AxisState, z: number, r: number): AxisState {
+  const innovationVariance = s.p00 + r;
+  const k0 = s.p00 / innovationVariance;
+  const k1 = s.p01 / innovationVariance;
+  const y = z - s.x;
+  return {
+    x: s.x + k0 * y,
+    v: s.v + k1 * y,
+    p00: (1 - k0) * s.p00,
+    p01: (1 - k0) * s.p01,
+    p11: s.p11 - k1 * s.p01,
+  };
+}
+
+/**
+ * Creates a constant-velocity Kalman filter for GPS fixes.
+ *
+ * @param options - Tuning parameters (defaults suit walking)
+ * @returns Filter handle
+ */
+export function createKalmanFilter(options: KalmanFilterOptions = {}): KalmanFilter {
+  const { accelerationNoise, maxGapMs, maxRejectedFixes } = { ...DEFAULT_OPTIONS, ...options };
+  const q = accelerationNoise ** 2;
+
+  let origin: Coordinates | null = null;
+  let metersPerDegreeLng = METERS_PER_DEGREE;
+  let east: AxisState | null = null;
+  let north: AxisState | null = null;
+  let lastTimestamp = 0;
+  let rejectedFixes = 0;
+
+  const toLocal = (coords: Coordinates) => ({
+    e: (coords.longitude - origin.longitude) * metersPerDegreeLng,
+    n: (coords.latitude - origin.latitude) * METERS_PER_DEGREE,
+  });
+
+  const buildEstimate = (e: AxisState, n: AxisState, timestamp: number): PositionEstimate => {
+    const speed = Math.hypot(e.v, n.v);
+    return {
+      coords: {
+        latitude: origin.latitude + n.x / METERS_PER_DEGREE,
+        longitude: origin.longitude + e.x / metersPerDegreeLng,
+      },
+      accuracy: ACCURACY_PER_SIGMA * Math.sqrt(Math.max(e.p00, n.p00)),
+      speed,
+      course: speed >= MIN_COURSE_SPEED ? ((Math.atan2(e.v, n.v) * 180) / Math.PI + 360) % 360 : null,
+      timestamp,
+    };
+  };
+
+  const initialize = (measurement: PositionMeasurement): PositionEstimate => {
+    origin = measurement.coords;
+    metersPerDegreeLng = METERS_PER_DEGREE * Math.cos((origin.latitude * Math.PI) / 180);
+    const variance = measurementVariance(measurement.accuracy);
+    east = initAxis(0, variance);
+    north = initAxis(0, variance);
+    lastTimestamp = measurement.timestamp;
+    rejectedFixes = 0;
+    return buildEstimate(east, north, lastTimestamp);
+  };
+
+  const reset = () => {
+    origin = null;
+    east = null;
+    north = null;
+    lastTimestamp = 0;
+    rejectedFixes = 0;
+  };
+
+  const predict = (timestamp: number): PositionEstimate | null => {
+    if (!east || !north) return null;
+    const dt = Math.max(0, (timestamp - lastTimestamp) / 1000);
+    return buildEstimate(predictAxis(east, dt, q), predictAxis(north, dt, q), timestamp);
+  };
+
+  const update = (measurement: PositionMeasurement): PositionEstimate => {
+    const gap = measurement.timestamp - lastTimestamp;
+    if (!east || !north || gap > maxGapMs) {
+      return initialize(measurement);
+    }
+
+    // Out-of-order fixes are treated as simultaneous with the last one
+    const dt = Math.max(0, gap / 1000);
+    const predictedEast = predictAxis(east, dt, q);
+    const predictedNorth = predictAxis(north, dt, q);
+    const r = measurementVariance(measurement.accuracy);
+    const { e, n } = toLocal(measurement.coords);
+
+    // Normalized innovation squared (axes are independent)
+    const nis =
+      (e - predictedEast.x) ** 2 / (predictedEast.p00 + r) +
+      (n - predictedNorth.x) ** 2 / (predictedNorth.p00 + r);
+
+    if (nis > GATE_THRESHOLD) {
+      rejectedFixes++;
+      if (rejectedFixes >= maxRejectedFixes) {
+        // Consistently far away: our estimate is what's wrong
+        return initialize(measurement);
+      }
+      return buildEstimate(predictedEast, predictedNorth, measurement.timestamp);
+    }
+
+    rejectedFixes = 0;
+    east = correctAxis(predictedEast, e, r);
+    north = correctAxis(predictedNorth, n, r);
+    lastTimestamp = Math.max(lastTimestamp, measurement.timestamp);
+    return buildEstimate(east, north, lastTimestamp);
+  };
+
+  const getEstimate = () => (east && north ? buildEstimate(east, north, lastTimestamp) : null);
+
+  return { update, predict, getEstimate, reset };
+}
@@ -0,0 +1,225 @@
+/**
+ * =============================================================================
+ * LOCATION FUSION - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Combines readings from any number of LocationProviders into one position.
+ *
+ * PER READING:
+ * 1. Choose: a reading much worse than a fresh reading from another
+ *    provider is dropped (e.g. a coarse Google fix while GPS has a lock)
+ * 2. Blend: everything else goes through one Kalman filter, which weights
+ *    each reading by its own accuracy, so comparable sources average out
+ *    and a better source naturally dominates
+ *
+ * DEAD RECKONING:
+ * When no good fix has arrived for a few seconds (e.g. underground), each
+ * walking step moves the position along the compass heading instead, and
+ * the output is flagged as estimated. The next good fix - or any fix more
+ * accurate than the estimate - re-anchors the position.
+ *
+ * The output names the provider that currently contributes most, so the UI
+ * can say where the position comes from.
+ * =============================================================================
+ */
+
+import { Coordinates } from './gps';
+import { createKalmanFilter } from './kalman';
+import { createDeadReckoning } from './deadReckoning';
+import { AltitudeReading, createAltitudeFilter } from './altitude';
+import { LocationProvider, LocationReading } from './locationProviders';
+import type { MessageKey } from './i18n';
+
+/**
+ * Fused position
+ */
+export interface FusedLocation {
+  coords: Coordinates;
+  accuracy: number;         // Meters (95% confidence radius), from the filter
+  speed: number;            // Ground speed in m/s (measured if the provider reports it)
+  course: number | null;    // Direction of travel, null when (nearly) stationary
+  altitude: AltitudeReading | null;  // Smoothed altitude, null if no provider reports one
+  timestamp: number;
+  /** Provider whose fresh readings are the most accurate */
+  primary: LocationProvider;
+  /** Ids of providers whose readings were used recently */
+  sources: string[];
+  /** Dead-reckoned from steps since the last good fix */
+  estimated: boolean;
+}
+
+/**
+ * Callbacks registered with the fusion layer
+ */
+export interface LocationFusionListener {
+  onLocation: (location: FusedLocation) => void;
+  onError?: (message: MessageKey, provider: LocationProvider) => void;
+}
+
+/**
+ * Fusion handle
+ */
+export interface LocationFusion {
+  start: () => void;
+  stop: () => void;
+  subscribe: (listener: LocationFusionListener) => () => void;
+  getLocation: () => FusedLocation | null;
+  /** Report a walking step taken in the given compass heading */
+  step: (heading: number, timestamp: number) => void;
+}
+
+/**
+ * How long a provider's last reading counts as fresh (ms)
+ */
+const FRESH_READING_MS = 10000;
+
+/**
+ * A reading is dropped if it is this many times less accurate than a
+ * fresh reading from another provider
+ */
+const DOMINANCE_RATIO = 3;
+
+/**
+ * Fixes at least this accurate (meters) count as good
+ */
+const GOOD_FIX_ACCURACY = 20;
+
+/**
+ * Time without a good fix after which steps take over (ms)
+ */
+const GPS_LOST_MS = 5000;
+
+/**
+ * Creates a fusion layer over a set of providers.
+ *
+ * @param providers - Sources to combine
+ * @returns Fusion handle; call start() to begin
+ */
+export function createLocationFusion(providers: LocationProvider[]): LocationFusion {
+  const filter = createKalmanFilter();
+  const deadReckoning = createDeadReckoning();
+  const altitudeFilter = createAltitudeFilter();
+  const listeners = new Set<LocationFusionListener>();
+  const accepted = new Map<LocationProvider, LocationReading>();
+  const unsubscribers: (() => void)[] = [];
+  let location: FusedLocation | null = null;
+  let lastGoodFixAt = -Infinity;
+  let isDeadReckoning = false;
+  let altitude: AltitudeReading | null = null;
+
+  const emit = () => listeners.forEach((listener) => listener.onLocation(location));
+
+  /**
+   * Most accurate fresh reading among the other providers
+   */
+  const bestFreshOther = (provider: LocationProvider, now: number): number => {
+    let best = Infinity;
+    accepted.forEach((reading, other) => {
+      if (other !== provider && now - reading.timestamp <= FRESH_READING_MS) {
+        best = Math.min(best, reading.accuracy);
+      }
+    });
+    return best;
+  };
+
+  const handleReading = (provider: LocationProvider, reading: LocationReading) => {
+    if (reading.accuracy > bestFreshOther(provider, reading.timestamp) * DOMINANCE_RATIO) {
+      return;
+    }
+
+    const isGood = reading.accuracy <= GOOD_FIX_ACCURACY;
+    if (isDeadReckoning) {
+      // A poor fix is worse than walking on from the last good one
+      if (!isGood && reading.accuracy > deadReckoning.getEstimate().accuracy) {
+        return;
+      }
+      // Re-anchor: the filter's pre-outage state is stale
+      filter.reset();
+      isDeadReckoning = false;
+    }
+
+    accepted.set(provider, reading);
+    if (isGood) {
+      lastGoodFixAt = reading.timestamp;
+    }
+
+    const estimate = filter.update(reading);
+    deadReckoning.anchor(estimate.coords, estimate.accuracy);
+    if (reading.altitude) {
+      altitude = altitudeFilter.update(reading.altitude, reading.timestamp);
+    }
+
+    let primary = provider;
+    const sources: string[] = [];
+    accepted.forEach((other, otherProvider) => {
+      if (reading.timestamp - other.timestamp > FRESH_READING_MS) return;
+      sources.push(otherProvider.id);
+      if (other.accuracy < accepted.get(primary).accuracy) {
+        primary = otherProvider;
+      }
+    });
+
+    // Doppler-measured motion beats motion derived from position changes
+    location = {
+      ...estimate,
+      speed: reading.speed ?? estimate.speed,
+      course: reading.course ?? estimate.course,
+      altitude,
+      primary,
+      sources,
+      estimated: false,
+    };
+    emit();
+  };
+
+  const step = (heading: number, timestamp: number) => {
+    if (!location || timestamp - lastGoodFixAt < GPS_LOST_MS) return;
+
+    const estimate = deadReckoning.step(heading);
+    if (!estimate) return;
+
+    isDeadReckoning = true;
+    location = {
+      ...location,
+      coords: estimate.coords,
+      accuracy: estimate.accuracy,
+      course: heading,
+      timestamp,
+      estimated: true,
+    };
+    emit();
+  };
+
+  return {
+    start: () => {
+      if (unsubscribers.length > 0) return;
+      filter.reset();
+      accepted.clear();
+      altitudeFilter.reset();
+      altitude = null;
+      lastGoodFixAt = -Infinity;
+      isDeadReckoning = false;
+      for (const provider of providers) {
+        unsubscribers.push(
+          provider.subscribe({
+            onReading: (reading) => handleReading(provider, reading),
+            onError: (message) => listeners.forEach((listener) => listener.onError?.(message, provider)),
+          })
+        );
+        provider.start();
+      }
+    },
+    stop: () => {
+      unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe());
+      providers.forEach((provider) => provider.stop());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getLocation: () => location,
+    step,
+  };
+}
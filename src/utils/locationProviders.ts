@@ -0,0 +1,369 @@
+/**
+ * =============================================================================
+ * LOCATION PROVIDERS - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Common interface for every source of the user's position, so navigation
+ * can combine them (see locationFusion.ts) without knowing where a reading
+ * came from.
+ *
+ * PROVIDERS:
+ * - GPS: browser geolocation (watchPosition), always present
+ * - Google: Google Geolocation API polled every few seconds (Super Precise)
+ * - Mock: simulated walk for development, enabled with ?mockLocation=lat,lng
+ *
+ * Adding a source means implementing LocationProvider and registering it in
+ * createLocationProviders(); the UI picks it up automatically.
+ * =============================================================================
+ */
+
+import { Coordinates } from './gps';
+import { getGoogleGeolocation } from './googleGeolocation';
+import { AltitudeReading, readAltitude } from './altitude';
+import type { MessageKey } from './i18n';
+
+/**
+ * A single position report from a provider
+ */
+export interface LocationReading {
+  coords: Coordinates;
+  accuracy: number;   // Meters (95% confidence radius, as the Geolocation API reports it)
+  timestamp: number;  // Unix timestamp in milliseconds
+  altitude?: AltitudeReading;  // If the source measures height
+  speed?: number;     // Measured ground speed in m/s, if reported
+  course?: number;    // Measured direction of travel (degrees from north), if reported while moving
+}
+
+/**
+ * What a provider can and can't do
+ */
+export interface LocationProviderCapabilities {
+  /** Pushes readings on its own as the user moves (vs. periodic polling) */
+  continuous: boolean;
+  /** Needs a network connection to produce readings */
+  requiresNetwork: boolean;
+  /** Readings may count against a paid API quota */
+  billed: boolean;
+  /** Readings are simulated, not measured */
+  simulated: boolean;
+  /** Typical accuracy in meters, before any reading has arrived */
+  typicalAccuracy: number;
+}
+
+/**
+ * Callbacks registered with a provider
+ */
+export interface LocationProviderListener {
+  onReading: (reading: LocationReading) => void;
+  /** Message key for the user; the provider keeps trying unless it says otherwise */
+  onError?: (message: MessageKey) => void;
+}
+
+/**
+ * A source of position readings
+ */
+export interface LocationProvider {
+  /** Stable identifier, e.g. 'gps' */
+  id: string;
+  /** Message key of the short label for the accuracy indicator */
+  label: MessageKey;
+  capabilities: LocationProviderCapabilities;
+  /** Begin producing readings (no-op if already started) */
+  start: () => void;
+  /** Stop producing readings and release the underlying sensor */
+  stop: () => void;
+  /** Register callbacks; returns an unsubscribe function */
+  subscribe: (listener: LocationProviderListener) => () => void;
+  /** Most recent reading, null before the first one */
+  getLastReading: () => LocationReading | null;
+}
+
+/**
+ * Geolocation options for GPS tracking
+ * enableHighAccuracy: Use GPS if available (more accurate but slower)
+ * timeout: Max time to wait for position (ms)
+ * maximumAge: Accept cached position if this recent (ms)
+ */
+export const GEO_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 15000,        // 15 seconds timeout
+  maximumAge: 0,         // Always get fresh position
+};
+
+/**
+ * Google API polling interval during navigation (ms)
+ */
+const GOOGLE_POLL_INTERVAL_MS = 3000;
+
+/**
+ * Convert GeolocationPositionError to the message key shown to the user
+ */
+export function getGeolocationErrorMessage(error: GeolocationPositionError): MessageKey {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return 'location.error.denied';
+    case error.POSITION_UNAVAILABLE:
+      return 'location.error.unavailable';
+    case error.TIMEOUT:
+      return 'location.error.timeout';
+    default:
+      return 'location.error.unknown';
+  }
+}
+
+/**
+ * Extracts speed and course from a geolocation fix
+ * Browsers report heading as null or NaN while stationary
+ */
+function readMotion(coords: GeolocationCoordinates): Pick<LocationReading, 'speed' | 'course'> {
+  const motion: Pick<LocationReading, 'speed' | 'course'> = {};
+  if (coords.speed !== null && Number.isFinite(coords.speed)) {
+    motion.speed = coords.speed;
+  }
+  if (coords.heading !== null && Number.isFinite(coords.heading) && motion.speed > 0) {
+    motion.course = coords.heading;
+  }
+  return motion;
+}
+
+/**
+ * Listener bookkeeping shared by all providers
+ */
+function createEmitter() {
+  const listeners = new Set<LocationProviderListener>();
+  let lastReading: LocationReading | null = null;
+
+  return {
+    subscribe: (listener: LocationProviderListener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emitReading: (reading: LocationReading) => {
+      lastReading = reading;
+      listeners.forEach((listener) => listener.onReading(reading));
+    },
+    emitError: (message: MessageKey) => {
+      listeners.forEach((listener) => listener.onError?.(message));
+    },
+    getLastReading: () => lastReading,
+  };
+}
+
+/**
+ * Browser geolocation (GPS, WiFi or cell as the browser sees fit)
+ */
+export function createGpsProvider(): LocationProvider {
+  const emitter = createEmitter();
+  let watchId: number | null = null;
+
+  return {
+    id: 'gps',
+    label: 'provider.gps',
+    capabilities: {
+      continuous: true,
+      requiresNetwork: false,
+      billed: false,
+      simulated: false,
+      typicalAccuracy: 10,
+    },
+    start: () => {
+      if (watchId !== null) return;
+      if (!navigator.geolocation) {
+        emitter.emitError('location.error.unsupported');
+        return;
+      }
+      watchId = navigator.geolocation.watchPosition(
+        (pos) =>
+          emitter.emitReading({
+            coords: { latitude: pos.coords.latitude, longitude: pos.coords.longitude },
+            accuracy: pos.coords.accuracy,
+            timestamp: pos.timestamp,
+            altitude: readAltitude(pos.coords) ?? undefined,
+            ...readMotion(pos.coords),
+          }),
+        (err) => emitter.emitError(getGeolocationErrorMessage(err)),
+        GEO_OPTIONS
+      );
+    },
+    stop: () => {
+      if (watchId === null) return;
+      navigator.geolocation.clearWatch(watchId);
+      watchId = null;
+    },
+    subscribe: emitter.subscribe,
+    getLastReading: emitter.getLastReading,
+  };
+}
+
+/**
+ * Google Geolocation API, polled while started (Super Precise Mode)
+ */
+export function createGoogleProvider(): LocationProvider {
+  const emitter = createEmitter();
+  let intervalId: number | null = null;
+  let generation = 0;
+
+  const poll = async (pollGeneration: number) => {
+    if (!navigator.onLine) return;
+    try {
+      const result = await getGoogleGeolocation();
+      // Ignore responses that arrive after stop()
+      if (result && pollGeneration === generation) {
+        emitter.emitReading({
+          coords: { latitude: result.latitude, longitude: result.longitude },
+          accuracy: result.accuracy,
+          timestamp: Date.now(),
+        });
+      }
+    } catch (err) {
+      // Don't spam errors; other providers keep navigation going
+      console.error('[LocationProviders] Google polling error:', err);
+    }
+  };
+
+  return {
+    id: 'google',
+    label: 'provider.google',
+    capabilities: {
+      continuous: false,
+      requiresNetwork: true,
+      billed: true,
+      simulated: false,
+      typicalAccuracy: 20,
+    },
+    start: () => {
+      if (intervalId !== null) return;
+      const pollGeneration = ++generation;
+      poll(pollGeneration);
+      intervalId = window.setInterval(() => poll(pollGeneration), GOOGLE_POLL_INTERVAL_MS);
+    },
+    stop: () => {
+      if (intervalId === null) return;
+      window.clearInterval(intervalId);
+      intervalId = null;
+      generation++;
+    },
+    subscribe: emitter.subscribe,
+    getLastReading: emitter.getLastReading,
+  };
+}
+
+/**
+ * Settings for the simulated walk
+ */
+export interface MockProviderOptions {
+  /** Where the walk begins */
+  start: Coordinates;
+  /** Walking direction in degrees from north */
+  heading?: number;
+  /** Walking speed in m/s */
+  speed?: number;
+  /** Reported accuracy and noise level in meters */
+  accuracy?: number;
+  /** Time between readings (ms) */
+  intervalMs?: number;
+}
+
+/**
+ * Simulated provider that walks in a straight line with GPS-like noise
+ * Useful for trying navigation at a desk
+ *
+ * @param options - Walk parameters
+ */
+export function createMockProvider(options: MockProviderOptions): LocationProvider {
+  const { start, heading = 0, speed = 1.4, accuracy = 8, intervalMs = 1000 } = options;
+  const emitter = createEmitter();
+  let intervalId: number | null = null;
+  let startedAt = 0;
+
+  const metersPerDegreeLat = 111195;
+  const metersPerDegreeLng = metersPerDegreeLat * Math.cos((start.latitude * Math.PI) / 180);
+  const headingRad = (heading * Math.PI) / 180;
+
+  // Box-Muller; scaled so 95% of fixes fall within the reported accuracy
+  // (a 95% radius is 2.45 times the per-axis sigma)
+  const sigma = accuracy / Math.sqrt(-2 * Math.log(0.05));
+  const noise = () =>
+    Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random()) * sigma;
+
+  const emit = () => {
+    const now = Date.now();
+    const distance = (speed * (now - startedAt)) / 1000;
+    const north = distance * Math.cos(headingRad) + noise();
+    const east = distance * Math.sin(headingRad) + noise();
+    emitter.emitReading({
+      coords: {
+        latitude: start.latitude + north / metersPerDegreeLat,
+        longitude: start.longitude + east / metersPerDegreeLng,
+      },
+      accuracy,
+      timestamp: now,
+    });
+  };
+
+  return {
+    id: 'mock',
+    label: 'provider.mock',
+    capabilities: {
+      continuous: true,
+      requiresNetwork: false,
+      billed: false,
+      simulated: true,
+      typicalAccuracy: accuracy,
+    },
+    start: () => {
+      if (intervalId !== null) return;
+      startedAt = Date.now();
+      emit();
+      intervalId = window.setInterval(emit, intervalMs);
+    },
+    stop: () => {
+      if (intervalId === null) return;
+      window.clearInterval(intervalId);
+      intervalId = null;
+    },
+    subscribe: emitter.subscribe,
+    getLastReading: emitter.getLastReading,
+  };
+}
+
+/**
+ * Reads the development-only ?mockLocation=lat,lng[,heading] parameter
+ */
+function getMockOptionsFromUrl(): MockProviderOptions | null {
+  if (!import.meta.env.DEV) return null;
+
+  const value = new URLSearchParams(window.location.search).get('mockLocation');
+  const [latitude, longitude, heading] = (value ?? '').split(',').map(Number);
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  return { start: { latitude, longitude }, heading: Number.isFinite(heading) ? heading : 0 };
+}
+
+/**
+ * Settings that decide which providers take part in navigation
+ */
+export interface LocationProviderSettings {
+  superPrecise: boolean;
+}
+
+/**
+ * Builds the providers for navigation
+ * In development, ?mockLocation replaces the real sensors entirely.
+ *
+ * @param settings - User preferences
+ * @returns Providers to hand to the fusion layer
+ */
+export function createLocationProviders(settings: LocationProviderSettings): LocationProvider[] {
+  const mockOptions = getMockOptionsFromUrl();
+  if (mockOptions) {
+    return [createMockProvider(mockOptions)];
+  }
+
+  const providers = [createGpsProvider()];
+  if (settings.superPrecise) {
+    providers.push(createGoogleProvider());
+  }
+  return providers;
+}
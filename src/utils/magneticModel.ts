@@ -0,0 +1,341 @@
+/**
+ * =============================================================================
+ * MAGNETIC DECLINATION (WORLD MAGNETIC MODEL) - CAR FINDER PWA
+ * =============================================================================
+ *
+ * A compass points to magnetic north, but bearings from calculateBearing()
+ * are relative to true north. The angle between the two (declination)
+ * reaches 10-20° in much of the world, which is enough to send the user down
+ * the wrong row of cars.
+ *
+ * This module evaluates the World Magnetic Model (WMM2025, NOAA/BGS) offline
+ * for the user's position and date and returns the declination.
+ *
+ * HOW IT WORKS:
+ * - Geodetic coordinates are converted to geocentric spherical coordinates
+ * - The degree-12 spherical harmonic expansion gives the field's north,
+ *   east and down components, with coefficients advanced by their secular
+ *   variation to the requested date
+ * - Declination = atan2(east, north), positive when magnetic north is east
+ *   of true north
+ *
+ * Whether a platform's compass needs the correction is a user preference:
+ * Android's alpha is magnetic, iOS usually reports true north already.
+ * =============================================================================
+ */
+
+import { z } from 'zod';
+import { Coordinates } from './gps';
+import { STORAGE_KEYS, defineRecord } from './persistence';
+import { formatNumber, t } from './i18n';
+
+/**
+ * Where compass headings come from
+ * - ios: webkitCompassHeading
+ * - android: alpha from deviceorientation (Android and other browsers)
+ */
+export type CompassPlatform = 'ios' | 'android';
+
+/**
+ * Display labels for compass platforms
+ */
+export const COMPASS_PLATFORM_LABELS: Record<CompassPlatform, string> = {
+  ios: 'iOS',
+  android: 'Android',
+};
+
+/**
+ * Per-platform setting: correct compass headings to true north
+ */
+export type DeclinationCorrection = Record<CompassPlatform, boolean>;
+
+/**
+ * iOS normally reports true north already; Android's alpha is magnetic
+ */
+export const DEFAULT_DECLINATION_CORRECTION: DeclinationCorrection = { ios: false, android: true };
+
+/**
+ * Model epoch (decimal year); the coefficients are valid for five years
+ */
+export const WMM_EPOCH = 2025.0;
+
+/**
+ * WGS84 ellipsoid and the model's reference radius (km)
+ */
+const WGS84_A = 6378.137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+const REFERENCE_RADIUS = 6371.2;
+
+/**
+ * Maximum degree of the expansion
+ */
+const MAX_DEGREE = 12;
+
+/**
+ * WMM2025 coefficients, as published in WMM.COF:
+ * n, m, g (nT), h (nT), g secular variation (nT/yr), h secular variation (nT/yr)
+ */
+const WMM_COEFFICIENTS = `
+  1  0  -29351.8       0.0       12.0        0.0
+  1  1   -1410.8    4545.4        9.7      -21.5
+  2  0   -2556.6       0.0      -11.6        0.0
+  2  1    2951.1   -3133.6       -5.2      -27.7
+  2  2    1649.3    -815.1       -8.0      -12.1
+  3  0    1361.0       0.0       -1.3        0.0
+  3  1   -2404.1     -56.6       -4.2        4.0
+  3  2    1243.8     237.5        0.4       -0.3
+  3  3     453.6    -549.5      -15.6       -4.1
+  4  0     895.0       0.0       -1.6        0.0
+  4  1     799.5     278.6       -2.4       -1.1
+  4  2      55.7    -133.9       -6.0        4.1
+  4  3    -281.1     212.0        5.6        1.6
+  4  4      12.1    -375.6       -7.0       -4.4
+  5  0    -233.2       0.0        0.6        0.0
+  5  1     368.9      45.4        1.4       -0.5
+  5  2     187.2     220.2        0.0        2.2
+  5  3    -138.7    -122.9        0.6        0.4
+  5  4    -142.0      43.0        2.2        1.7
+  5  5      20.9     106.1        0.9        1.9
+  6  0      64.4       0.0       -0.2        0.0
+  6  1      63.8     -18.4       -0.4        0.3
+  6  2      76.9      16.8        0.9       -1.6
+  6  3    -115.7      48.8        1.2       -0.4
+  6  4     -40.9     -59.8       -0.9        0.9
+  6  5      14.9      10.9        0.3        0.7
+  6  6     -60.7      72.7        0.9        0.9
+  7  0      79.5       0.0       -0.0        0.0
+  7  1     -77.0     -48.9       -0.1        0.6
+  7  2      -8.8     -14.4       -0.1        0.5
+  7  3      59.3      -1.0        0.5       -0.8
+  7  4      15.8      23.4       -0.1        0.0
+  7  5       2.5      -7.4       -0.8       -1.0
+  7  6     -11.1     -25.1       -0.8        0.6
+  7  7      14.2      -2.3        0.8       -0.2
+  8  0      23.2       0.0       -0.1        0.0
+  8  1      10.8       7.1        0.2       -0.2
+  8  2     -17.5     -12.6        0.0        0.5
+  8  3       2.0      11.4        0.5       -0.4
+  8  4     -21.7      -9.7       -0.1        0.4
+  8  5      16.9      12.7        0.3       -0.5
+  8  6      15.0       0.7        0.2       -0.6
+  8  7     -16.8      -5.2       -0.0        0.3
+  8  8       0.9       3.9        0.2        0.2
+  9  0       4.6       0.0       -0.0        0.0
+  9  1       7.8     -24.8       -0.1       -0.3
+  9  2       3.0      12.2        0.1        0.3
+  9  3      -0.2       8.3        0.3       -0.3
+  9  4      -2.5      -3.3       -0.3        0.3
+  9  5     -13.1      -5.2        0.0        0.2
+  9  6       2.4       7.2        0.3       -0.1
+  9  7       8.6      -0.6       -0.1       -0.2
+  9  8      -8.7       0.8        0.1        0.4
+  9  9     -12.9      10.0       -0.1        0.1
+ 10  0      -1.3       0.0        0.1        0.0
+ 10  1      -6.4       3.3        0.0        0.0
+ 10  2       0.2       0.0        0.1       -0.0
+ 10  3       2.0       2.4        0.1       -0.2
+ 10  4      -1.0       5.3       -0.0        0.1
+ 10  5      -0.6      -9.1       -0.3       -0.1
+ 10  6      -0.9       0.4        0.0        0.1
+ 10  7       1.5      -4.2       -0.1        0.0
+ 10  8       0.9      -3.8       -0.1       -0.1
+ 10  9      -2.7       0.9       -0.0        0.2
+ 10 10      -3.9      -9.1       -0.0       -0.0
+ 11  0       2.9       0.0        0.0        0.0
+ 11  1      -1.5       0.0       -0.0       -0.0
+ 11  2      -2.5       2.9        0.0        0.1
+ 11  3       2.4      -0.6        0.0       -0.0
+ 11  4      -0.6       0.2        0.0        0.1
+ 11  5      -0.1       0.5       -0.1       -0.0
+ 11  6      -0.6      -0.3        0.0       -0.0
+ 11  7      -0.1      -1.2       -0.0        0.1
+ 11  8       1.1      -1.7       -0.1       -0.0
+ 11  9      -1.0      -2.9       -0.1        0.0
+ 11 10      -0.2      -1.8       -0.1        0.0
+ 11 11       2.6      -2.3       -0.1        0.0
+ 12  0      -2.0       0.0        0.0        0.0
+ 12  1      -0.2      -1.3        0.0       -0.0
+ 12  2       0.3       0.7       -0.0        0.0
+ 12  3       1.2       1.0       -0.0       -0.1
+ 12  4      -1.3      -1.4       -0.0        0.1
+ 12  5       0.6      -0.0       -0.0       -0.0
+ 12  6       0.6       0.6        0.1       -0.0
+ 12  7       0.5      -0.1       -0.0       -0.0
+ 12  8      -0.1       0.8        0.0        0.0
+ 12  9      -0.4       0.1        0.0       -0.0
+ 12 10      -0.2      -1.0       -0.1       -0.0
+ 12 11      -1.3       0.1       -0.0        0.0
+ 12 12      -0.7       0.2       -0.1       -0.1
+`;
+
+/**
+ * Coefficient tables indexed [n][m]
+ */
+interface CoefficientTables {
+  g: number[][];
+  h: number[][];
+  gDot: number[][];
+  hDot: number[][];
+}
+
+/**
+ * Parses the coefficient table once, on first use
+ */
+let coefficients: CoefficientTables | null = null;
+
+function getCoefficients(): CoefficientTables {
+  if (coefficients) return coefficients;
+
+  const table = () => Array.from({ length: MAX_DEGREE + 1 }, () => new Array<number>(MAX_DEGREE + 1).fill(0));
+  const parsed: CoefficientTables = { g: table(), h: table(), gDot: table(), hDot: table() };
+
+  WMM_COEFFICIENTS.trim()
+    .split('\n')
+    .forEach((line) => {
+      const [n, m, g, h, gDot, hDot] = line.trim().split(/\s+/).map(Number);
+      parsed.g[n][m] = g;
+      parsed.h[n][m] = h;
+      parsed.gDot[n][m] = gDot;
+      parsed.hDot[n][m] = hDot;
+    });
+
+  coefficients = parsed;
+  return parsed;
+}
+
+/**
+ * Converts a date to a decimal year (e.g. 1 July 2026 ≈ 2026.5)
+ */
+function toDecimalYear(date: Date): number {
+  const year = date.getUTCFullYear();
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  return year + (date.getTime() - start) / (end - start);
+}
+
+/**
+ * Calculates magnetic declination using the World Magnetic Model.
+ *
+ * @param coords - Geodetic position (WGS84)
+ * @param date - When (defaults to now); accuracy degrades slowly after 2030
+ * @param altitude - Height above the ellipsoid in meters (default 0)
+ * @returns Declination in degrees, positive when magnetic north is east of true north
+ */
+export function getMagneticDeclination(coords: Coordinates, date: Date = new Date(), altitude = 0): number {
+  const { g, h, gDot, hDot } = getCoefficients();
+  const dt = toDecimalYear(date) - WMM_EPOCH;
+
+  // Keep away from the poles, where east and north are undefined
+  const latitude = Math.max(-89.999, Math.min(89.999, coords.latitude));
+  const phi = (latitude * Math.PI) / 180;
+  const lambda = (coords.longitude * Math.PI) / 180;
+  const heightKm = altitude / 1000;
+
+  // Geodetic -> geocentric spherical
+  const sinPhi = Math.sin(phi);
+  const primeVerticalRadius = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinPhi * sinPhi);
+  const p = (primeVerticalRadius + heightKm) * Math.cos(phi);
+  const z = (primeVerticalRadius * (1 - WGS84_E2) + heightKm) * sinPhi;
+  const r = Math.sqrt(p * p + z * z);
+  const phiGeocentric = Math.asin(z / r);
+
+  // Colatitude terms for the Legendre functions
+  const cosTheta = Math.sin(phiGeocentric);
+  const sinTheta = Math.cos(phiGeocentric);
+
+  // Schmidt semi-normalized associated Legendre functions P[n][m](cos θ)
+  // and their derivatives with respect to θ
+  const P: number[][] = [];
+  const dP: number[][] = [];
+  for (let n = 0; n <= MAX_DEGREE; n++) {
+    P.push(new Array<number>(n + 1).fill(0));
+    dP.push(new Array<number>(n + 1).fill(0));
+  }
+  P[0][0] = 1;
+  for (let n = 1; n <= MAX_DEGREE; n++) {
+    for (let m = 0; m <= n; m++) {
+      if (n === m) {
+        const k = Math.sqrt(m === 1 ? 1 : (2 * m - 1) / (2 * m));
+        P[n][m] = k * sinTheta * P[n - 1][m - 1];
+        dP[n][m] = k * (sinTheta * dP[n - 1][m - 1] + cosTheta * P[n - 1][m - 1]);
+      } else {
+        const a = (2 * n - 1) / Math.sqrt(n * n - m * m);
+        const b = n > m + 1 ? Math.sqrt(((n - 1) * (n - 1) - m * m) / (n * n - m * m)) : 0;
+        const previous2 = n > m + 1 ? P[n - 2][m] : 0;
+        const previous2Derivative = n > m + 1 ? dP[n - 2][m] : 0;
+        P[n][m] = a * cosTheta * P[n - 1][m] - b * previous2;
+        dP[n][m] = a * (cosTheta * dP[n - 1][m] - sinTheta * P[n - 1][m]) - b * previous2Derivative;
+      }
+    }
+  }
+
+  // Field components in the geocentric frame (north, east, down)
+  let north = 0;
+  let east = 0;
+  let down = 0;
+  for (let n = 1; n <= MAX_DEGREE; n++) {
+    const radialFactor = Math.pow(REFERENCE_RADIUS / r, n + 2);
+    for (let m = 0; m <= n; m++) {
+      const gnm = g[n][m] + dt * gDot[n][m];
+      const hnm = h[n][m] + dt * hDot[n][m];
+      const cosM = Math.cos(m * lambda);
+      const sinM = Math.sin(m * lambda);
+
+      north += radialFactor * (gnm * cosM + hnm * sinM) * dP[n][m];
+      east += radialFactor * m * (gnm * sinM - hnm * cosM) * P[n][m];
+      down -= radialFactor * (n + 1) * (gnm * cosM + hnm * sinM) * P[n][m];
+    }
+  }
+  east /= sinTheta;
+
+  // Rotate north back into the geodetic frame (east is unaffected)
+  const psi = phiGeocentric - phi;
+  const geodeticNorth = north * Math.cos(psi) - down * Math.sin(psi);
+
+  return (Math.atan2(east, geodeticNorth) * 180) / Math.PI;
+}
+
+/**
+ * Converts a magnetic compass heading to true north.
+ *
+ * @param heading - Magnetic heading in degrees
+ * @param declination - Declination in degrees (east positive)
+ * @returns True heading in degrees (0-360)
+ */
+export function toTrueHeading(heading: number, declination: number): number {
+  return (((heading + declination) % 360) + 360) % 360;
+}
+
+/**
+ * Formats a declination for display, e.g. "12.3° E"
+ */
+export function formatDeclination(declination: number): string {
+  const direction = t(declination >= 0 ? 'direction.E' : 'direction.W');
+  return `${formatNumber(Math.abs(declination), 1)}° ${direction}`;
+}
+
+/**
+ * Declination correction preference
+ * - v1: { ios, android } booleans
+ */
+const declinationCorrectionStore = defineRecord<DeclinationCorrection>({
+  key: STORAGE_KEYS.declinationCorrection,
+  version: 1,
+  schema: z.object({ ios: z.boolean(), android: z.boolean() }),
+  fallback: () => ({ ...DEFAULT_DECLINATION_CORRECTION }),
+});
+
+/**
+ * Retrieves which platforms have their compass corrected to true north
+ */
+export function getDeclinationCorrection(): Promise<DeclinationCorrection> {
+  return declinationCorrectionStore.read();
+}
+
+/**
+ * Saves which platforms have their compass corrected to true north
+ */
+export function setDeclinationCorrection(correction: DeclinationCorrection): Promise<boolean> {
+  return declinationCorrectionStore.write(correction);
+}
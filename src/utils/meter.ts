@@ -0,0 +1,104 @@
+/**
+ * =============================================================================
+ * PARKING METER - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Time limits for paid or restricted parking ("2-hour street parking").
+ * A meter is attached to a SavedLocation and drives:
+ * - The live countdown shown in CarFinder
+ * - Reminder notifications a few minutes before it runs out
+ *   (scheduled in notifications.ts)
+ *
+ * The reminder lead times chosen last are remembered as the default for
+ * the next meter.
+ * =============================================================================
+ */
+
+import { z } from 'zod';
+import { STORAGE_KEYS, defineRecord } from './persistence';
+import { t } from './i18n';
+
+/**
+ * Type definition for a parking time limit
+ */
+export interface ParkingMeter {
+  expiresAt: number;          // Unix timestamp when the paid time runs out
+  reminderMinutes: number[];  // Minutes before expiry to send a reminder
+}
+
+/**
+ * Lead times offered in the meter form, in minutes
+ */
+export const REMINDER_OPTIONS = [30, 15, 10, 5];
+
+/**
+ * Lead times used until the user picks their own
+ */
+export const DEFAULT_REMINDER_MINUTES = [15, 5];
+
+/**
+ * Quick durations offered in the meter form, in minutes
+ */
+export const METER_DURATION_PRESETS = [30, 60, 120, 180];
+
+/**
+ * Remaining time under which the countdown is highlighted
+ */
+export const METER_WARNING_MS = 15 * 60 * 1000;
+
+/**
+ * Last used reminder lead times
+ * - v1: list of minutes
+ */
+const reminderMinutesStore = defineRecord<number[]>({
+  key: STORAGE_KEYS.meterReminderMinutes,
+  version: 1,
+  schema: z.array(z.number().int().positive()),
+  fallback: () => DEFAULT_REMINDER_MINUTES,
+});
+
+/**
+ * Retrieves the reminder lead times to preselect for a new meter
+ */
+export function getPreferredReminderMinutes(): Promise<number[]> {
+  return reminderMinutesStore.read();
+}
+
+/**
+ * Remembers the reminder lead times for the next meter
+ */
+export async function setPreferredReminderMinutes(minutes: number[]): Promise<void> {
+  await reminderMinutesStore.write(minutes);
+}
+
+/**
+ * Formats the time left on a meter.
+ * Shows seconds so the countdown visibly ticks.
+ *
+ * @param remainingMs - Milliseconds until expiry (negative once expired)
+ * @returns e.g. "1:05:09", "12:30", or "Expired" in the current language
+ */
+export function formatCountdown(remainingMs: number): string {
+  if (remainingMs <= 0) return t('meter.countdownExpired');
+
+  const totalSeconds = Math.ceil(remainingMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `${minutes}:${pad(seconds)}`;
+}
+
+/**
+ * Formats a reminder lead time for display
+ *
+ * @returns e.g. "15 minutes" in the current language
+ */
+export function formatReminderLead(minutes: number): string {
+  return minutes >= 60 && minutes % 60 === 0
+    ? t('meter.leadHours', { count: minutes / 60 })
+    : t('meter.leadMinutes', { count: minutes });
+}
@@ -5,9 +5,60 @@
  * 
  * Handles push notification functionality for the Car Finder PWA.
  * Allows showing a persistent "Find Car" notification when location is saved.
+ *
+ * Each vehicle gets its own notification tag, so saving one vehicle does not
+ * replace (and clearing one does not dismiss) another vehicle's notification.
+ *
+ * METER REMINDERS:
+ * Reminders before a parking meter expires are scheduled with Notification
+ * Triggers where supported, so they fire even if the app is closed.
+ * Elsewhere they fall back to timers that only run while the app is open;
+ * CarFinder reschedules them every time it loads.
+ *
+ * Text is in the app's current language at the time the notification is
+ * shown or scheduled (see i18n.ts).
  * =============================================================================
  */
 
+import { Vehicle } from './vehicles';
+import { ParkingMeter, formatReminderLead } from './meter';
+import { UnitSystem, formatAccuracy } from './units';
+import { t } from './i18n';
+import { SavedLocation } from './gps';
+import { formatParkedAgo } from './time';
+
+/**
+ * Notification options including the action buttons and timestamp supported
+ * by service worker notifications
+ */
+type ActionNotificationOptions = NotificationOptions & {
+  actions?: Array<{ action: string; title: string }>;
+  timestamp?: number;
+  showTrigger?: unknown;
+};
+
+/**
+ * Notification Triggers API (Chromium only, not in the DOM typings)
+ */
+type TimestampTriggerConstructor = new (timestamp: number) => unknown;
+
+/**
+ * Page-side reminder timers, by vehicle ID (fallback scheduling)
+ */
+const reminderTimers = new Map<string, number[]>();
+
+/**
+ * Longest delay setTimeout can handle (~24.8 days)
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Builds the notification tag for a vehicle
+ */
+export function getVehicleNotificationTag(vehicleId: string): string {
+  return `car-location-${vehicleId}`;
+}
+
 /**
  * Check if notifications are supported in this browser
  */
@@ -43,11 +94,52 @@ export async function requestNotificationPermission(): Promise<boolean> {
   }
 }
 
+/**
+ * Builds the "Car Location Saved" notification title and options.
+ * The body leads with how long ago the car was parked.
+ */
+function buildCarSavedNotification(
+  vehicle: Vehicle,
+  location: SavedLocation,
+  units: UnitSystem
+): { title: string; options: ActionNotificationOptions } {
+  const parked = location.accuracy !== undefined
+    ? `${formatParkedAgo(location.timestamp)} • ${t('notification.savedWithin', { accuracy: formatAccuracy(location.accuracy, units) })}`
+    : formatParkedAgo(location.timestamp);
+
+  return {
+    title: t('notification.savedTitle', { icon: vehicle.icon, vehicle: vehicle.name }),
+    options: {
+      body: `${parked}\n${t('notification.savedBody', { vehicle: vehicle.name })}`,
+      icon: '/icons/icon-192.png',
+      badge: '/icons/icon-192.png',
+      tag: getVehicleNotificationTag(vehicle.id), // Replaces this vehicle's previous notification
+      timestamp: location.timestamp,
+      requireInteraction: true, // Keeps notification visible until user interacts
+      data: { vehicleId: vehicle.id }, // Lets the service worker deep-link to this vehicle
+      actions: [
+        {
+          action: 'find',
+          title: t('notification.findCar'),
+        },
+      ],
+    },
+  };
+}
+
 /**
  * Show the "Car Location Saved" notification with a "Find Car" action
  * This notification stays in the user's tray until they need it
+ *
+ * @param vehicle - The vehicle whose location was saved
+ * @param location - The saved location
+ * @param units - Unit preference for the accuracy
  */
-export async function showCarSavedNotification(): Promise<boolean> {
+export async function showCarSavedNotification(
+  vehicle: Vehicle,
+  location: SavedLocation,
+  units: UnitSystem = 'auto'
+): Promise<boolean> {
   if (!isNotificationSupported()) {
     return false;
   }
@@ -59,23 +151,10 @@ export async function showCarSavedNotification(): Promise<boolean> {
 
   try {
     const registration = await navigator.serviceWorker.ready;
+    const { title, options } = buildCarSavedNotification(vehicle, location, units);
     
     // Use type assertion for extended NotificationOptions with actions
-    const options: NotificationOptions & { actions?: Array<{ action: string; title: string }> } = {
-      body: 'Tap to navigate back to your car',
-      icon: '/icons/icon-192.png',
-      badge: '/icons/icon-192.png',
-      tag: 'car-location', // Replaces any existing notification with same tag
-      requireInteraction: true, // Keeps notification visible until user interacts
-      actions: [
-        {
-          action: 'find',
-          title: 'Find Car',
-        },
-      ],
-    };
-    
-    await registration.showNotification('🚗 Car Location Saved', options as NotificationOptions);
+    await registration.showNotification(title, options as NotificationOptions);
 
     console.log('[Notifications] Car saved notification shown');
     return true;
@@ -86,17 +165,56 @@ export async function showCarSavedNotification(): Promise<boolean> {
 }
 
 /**
- * Dismiss the car location notification
- * Called when user clears their saved location
+ * Updates the "parked ... ago" text of a vehicle's saved notification.
+ * Only a notification that is still in the tray is replaced, so one the user
+ * dismissed does not come back.
+ *
+ * @param vehicle - The vehicle whose location was saved
+ * @param location - The saved location
+ * @param units - Unit preference for the accuracy
+ * @returns Whether a notification was updated
+ */
+export async function refreshCarSavedNotification(
+  vehicle: Vehicle,
+  location: SavedLocation,
+  units: UnitSystem = 'auto'
+): Promise<boolean> {
+  if (!isNotificationSupported() || Notification.permission !== 'granted') {
+    return false;
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    const tag = getVehicleNotificationTag(vehicle.id);
+    const existing = await registration.getNotifications({ tag });
+    if (existing.length === 0) {
+      return false;
+    }
+
+    const { title, options } = buildCarSavedNotification(vehicle, location, units);
+    // Same tag without renotify: replaces the text without alerting again
+    await registration.showNotification(title, options as NotificationOptions);
+    return true;
+  } catch (error) {
+    console.error('[Notifications] Error refreshing notification:', error);
+    return false;
+  }
+}
+
+/**
+ * Dismiss a vehicle's location notification
+ * Called when user clears that vehicle's saved location
+ *
+ * @param vehicleId - The vehicle whose notification should be closed
  */
-export async function dismissCarNotification(): Promise<void> {
+export async function dismissCarNotification(vehicleId: string): Promise<void> {
   if (!isNotificationSupported()) {
     return;
   }
 
   try {
     const registration = await navigator.serviceWorker.ready;
-    const notifications = await registration.getNotifications({ tag: 'car-location' });
+    const notifications = await registration.getNotifications({ tag: getVehicleNotificationTag(vehicleId) });
     
     notifications.forEach((notification) => {
       notification.close();
@@ -107,3 +225,145 @@ export async function dismissCarNotification(): Promise<void> {
     console.error('[Notifications] Error dismissing notification:', error);
   }
 }
+
+/**
+ * Builds the notification tag for one of a vehicle's meter reminders
+ *
+ * @param leadMinutes - Minutes before expiry (0 for the expiry itself)
+ */
+function getMeterReminderTag(vehicleId: string, leadMinutes: number): string {
+  return `meter-reminder-${vehicleId}-${leadMinutes}`;
+}
+
+/**
+ * Returns the TimestampTrigger constructor if scheduled notifications
+ * are supported
+ */
+function getTimestampTrigger(): TimestampTriggerConstructor | null {
+  const trigger = (window as unknown as { TimestampTrigger?: TimestampTriggerConstructor }).TimestampTrigger;
+  return trigger && 'showTrigger' in Notification.prototype ? trigger : null;
+}
+
+/**
+ * Schedule reminder notifications before a vehicle's meter expires,
+ * plus one when it does. Replaces any reminders still pending for the
+ * vehicle; ones already shown stay visible. Reminders whose time has
+ * passed are skipped.
+ *
+ * @param vehicle - The vehicle parked at the meter
+ * @param meter - Expiry time and reminder lead times
+ * @returns true if at least one reminder was scheduled
+ */
+export async function scheduleMeterReminders(vehicle: Vehicle, meter: ParkingMeter): Promise<boolean> {
+  await clearMeterReminders(vehicle.id, true);
+
+  if (!isNotificationSupported()) {
+    return false;
+  }
+
+  const hasPermission = await requestNotificationPermission();
+  if (!hasPermission) {
+    return false;
+  }
+
+  const now = Date.now();
+  const reminders = [...new Set([...meter.reminderMinutes, 0])]
+    .map((leadMinutes) => ({ leadMinutes, fireAt: meter.expiresAt - leadMinutes * 60000 }))
+    .filter(({ fireAt }) => fireAt > now);
+  if (reminders.length === 0) {
+    return false;
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    const TimestampTrigger = getTimestampTrigger();
+    const timers: number[] = [];
+
+    for (const { leadMinutes, fireAt } of reminders) {
+      const options: ActionNotificationOptions = {
+        body: leadMinutes > 0
+          ? t('notification.meterExpiresIn', { vehicle: vehicle.name, lead: formatReminderLead(leadMinutes) })
+          : t('notification.meterExpired', { vehicle: vehicle.name }),
+        icon: '/icons/icon-192.png',
+        badge: '/icons/icon-192.png',
+        tag: getMeterReminderTag(vehicle.id, leadMinutes),
+        requireInteraction: leadMinutes === 0,
+        data: { vehicleId: vehicle.id }, // Lets the service worker deep-link to this vehicle
+        actions: [
+          {
+            action: 'find',
+            title: t('notification.findCar'),
+          },
+        ],
+      };
+      const title = leadMinutes > 0
+        ? t('notification.meterLeftTitle', { vehicle: vehicle.name, lead: formatReminderLead(leadMinutes) })
+        : t('notification.meterExpiredTitle', { vehicle: vehicle.name });
+
+      if (TimestampTrigger) {
+        options.showTrigger = new TimestampTrigger(fireAt);
+        await registration.showNotification(title, options as NotificationOptions);
+      } else if (fireAt - now <= MAX_TIMER_DELAY) {
+        timers.push(window.setTimeout(() => {
+          registration.showNotification(title, options as NotificationOptions).catch((error) => {
+            console.error('[Notifications] Error showing meter reminder:', error);
+          });
+        }, fireAt - now));
+      }
+    }
+
+    reminderTimers.set(vehicle.id, timers);
+    console.log(`[Notifications] Scheduled ${reminders.length} meter reminder(s)`);
+    return true;
+  } catch (error) {
+    console.error('[Notifications] Error scheduling meter reminders:', error);
+    return false;
+  }
+}
+
+/**
+ * Cancel a vehicle's pending meter reminders and close any already shown
+ * Called when the meter is removed or the location is cleared/replaced
+ *
+ * @param vehicleId - The vehicle whose reminders should be cancelled
+ */
+export function cancelMeterReminders(vehicleId: string): Promise<void> {
+  return clearMeterReminders(vehicleId, false);
+}
+
+/**
+ * Stops a vehicle's reminder timers and closes its reminder notifications
+ *
+ * @param vehicleId - The vehicle whose reminders should be cleared
+ * @param pendingOnly - Only close scheduled reminders that haven't fired,
+ *                      leaving the ones the user can see
+ */
+async function clearMeterReminders(vehicleId: string, pendingOnly: boolean): Promise<void> {
+  reminderTimers.get(vehicleId)?.forEach((timer) => window.clearTimeout(timer));
+  reminderTimers.delete(vehicleId);
+
+  if (!isNotificationSupported()) {
+    return;
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    // includeTriggered also returns scheduled notifications that haven't fired yet
+    const notifications = await registration.getNotifications({
+      includeTriggered: true,
+    } as GetNotificationOptions);
+    const prefix = `meter-reminder-${vehicleId}-`;
+    // A scheduled notification's timestamp is its trigger time (browsers
+    // without one have no scheduled notifications, only timers)
+    const now = Date.now();
+    const isPending = (notification: Notification) =>
+      ((notification as Notification & { timestamp?: number }).timestamp ?? 0) > now;
+
+    notifications
+      .filter((notification) => notification.tag.startsWith(prefix))
+      .filter((notification) => !pendingOnly || isPending(notification))
+      .forEach((notification) => notification.close());
+  } catch (error) {
+    console.error('[Notifications] Error cancelling meter reminders:', error);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * =============================================================================
+ * DEVICE ORIENTATION MATH - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Turns a device orientation (quaternion, or the alpha/beta/gamma Euler
+ * angles of deviceorientation events) into a compass heading that stays
+ * correct however the phone is held.
+ *
+ * WHICH WAY IS "FORWARD"?
+ * - Phone flat: the top edge of the screen (as the user reads it)
+ * - Phone upright: the direction the back camera looks
+ * - In between: both point the same way horizontally, so their horizontal
+ *   projections are added; one of them is always long enough to give a
+ *   stable direction, where alpha alone swings wildly as the phone is
+ *   raised toward vertical
+ *
+ * FRAMES:
+ * - Device: x to the right of the screen, y to its top, z out of the screen
+ * - Earth: x east, y north, z up
+ * =============================================================================
+ */
+
+/**
+ * Which browser API orientation comes from
+ */
+export type OrientationSource = 'absolute-sensor' | 'deviceorientationabsolute' | 'deviceorientation';
+
+/**
+ * Display labels for orientation sources
+ */
+export const ORIENTATION_SOURCE_LABELS: Record<OrientationSource, string> = {
+  'absolute-sensor': 'AbsoluteOrientationSensor',
+  deviceorientationabsolute: 'deviceorientationabsolute',
+  deviceorientation: 'deviceorientation',
+};
+
+/**
+ * Unit quaternion [x, y, z, w] rotating device coordinates into Earth
+ * coordinates (the layout used by the Generic Sensor API)
+ */
+export type Quaternion = [number, number, number, number];
+
+/**
+ * Converts deviceorientation Euler angles to a quaternion.
+ * The angles are intrinsic Z-X'-Y'' rotations, as defined by the
+ * DeviceOrientation Event specification.
+ *
+ * @param alpha - Rotation around z in degrees
+ * @param beta - Rotation around x' in degrees
+ * @param gamma - Rotation around y'' in degrees
+ * @returns Equivalent quaternion
+ */
+export function quaternionFromEuler(alpha: number, beta: number, gamma: number): Quaternion {
+  const toHalfRadians = (degrees: number) => (degrees * Math.PI) / 360;
+  const cX = Math.cos(toHalfRadians(beta));
+  const cY = Math.cos(toHalfRadians(gamma));
+  const cZ = Math.cos(toHalfRadians(alpha));
+  const sX = Math.sin(toHalfRadians(beta));
+  const sY = Math.sin(toHalfRadians(gamma));
+  const sZ = Math.sin(toHalfRadians(alpha));
+
+  return [
+    sX * cY * cZ - cX * sY * sZ,
+    cX * sY * cZ + sX * cY * sZ,
+    cX * cY * sZ + sX * sY * cZ,
+    cX * cY * cZ - sX * sY * sZ,
+  ];
+}
+
+/**
+ * Calculates the compass heading of a device.
+ *
+ * @param quaternion - Device orientation relative to the Earth
+ * @param screenAngle - Screen rotation in degrees (screen.orientation.angle)
+ * @returns Heading in degrees (0-360), or null if the orientation has no
+ *          meaningful horizontal direction
+ */
+export function headingFromQuaternion(quaternion: Quaternion, screenAngle = 0): number | null {
+  const [x, y, z, w] = quaternion;
+
+  // Rotation matrix columns for the device's x, y and z axes (Earth frame)
+  const xAxis = [1 - 2 * (y * y + z * z), 2 * (x * y + z * w), 2 * (x * z - y * w)];
+  const yAxis = [2 * (x * y - z * w), 1 - 2 * (x * x + z * z), 2 * (y * z + x * w)];
+  const zAxis = [2 * (x * z + y * w), 2 * (y * z - x * w), 1 - 2 * (x * x + y * y)];
+
+  // Top of the screen as the user sees it (rotated in landscape)
+  const screenRadians = (screenAngle * Math.PI) / 180;
+  const sin = Math.sin(screenRadians);
+  const cos = Math.cos(screenRadians);
+  const screenUp = [0, 1].map((i) => sin * xAxis[i] + cos * yAxis[i]);
+
+  // Horizontal forward direction: screen top plus camera direction (-z)
+  const east = screenUp[0] - zAxis[0];
+  const north = screenUp[1] - zAxis[1];
+  if (Math.hypot(east, north) < 1e-6) return null;
+
+  return ((Math.atan2(east, north) * 180) / Math.PI + 360) % 360;
+}
@@ -0,0 +1,68 @@
+/**
+ * =============================================================================
+ * PARKING DETAILS - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Structured, human-readable information about a parking spot that GPS
+ * cannot capture: the garage level, section/row, spot number and a
+ * free-text note ("next to the elevators").
+ *
+ * All fields are optional and stored as entered (trimmed); an empty form
+ * stores no details at all.
+ * =============================================================================
+ */
+
+import { t } from './i18n';
+
+/**
+ * Type definition for the details of a parking spot
+ */
+export interface ParkingDetails {
+  level?: string;    // Floor or level, e.g. "3" or "P2"
+  section?: string;  // Section, row or zone, e.g. "C"
+  spot?: string;     // Spot number, e.g. "47"
+  note?: string;     // Free-text note
+}
+
+/**
+ * Maximum lengths accepted for each field
+ */
+export const PARKING_DETAIL_LIMITS = {
+  level: 20,
+  section: 20,
+  spot: 20,
+  note: 200,
+} as const;
+
+/**
+ * Trims every field and drops the empty ones.
+ *
+ * @param details - Raw form values
+ * @returns Cleaned details, or undefined if no field has a value
+ */
+export function normalizeParkingDetails(details: ParkingDetails): ParkingDetails | undefined {
+  const normalized: ParkingDetails = {};
+  (Object.keys(PARKING_DETAIL_LIMITS) as (keyof ParkingDetails)[]).forEach((field) => {
+    const value = details[field]?.trim().slice(0, PARKING_DETAIL_LIMITS[field]);
+    if (value) normalized[field] = value;
+  });
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/**
+ * Formats the location fields as a single line, e.g. "Level 3 • Section C • Spot 47"
+ * in the current language.
+ * The note is not included.
+ *
+ * @returns The formatted line, or an empty string if there is nothing to show
+ */
+export function formatParkingDetails(details: ParkingDetails | undefined): string {
+  if (!details) return '';
+  return [
+    details.level && t('details.level', { level: details.level }),
+    details.section && t('details.section', { section: details.section }),
+    details.spot && t('details.spot', { spot: details.spot }),
+  ]
+    .filter(Boolean)
+    .join(' • ');
+}
@@ -0,0 +1,411 @@
+/**
+ * =============================================================================
+ * VERSIONED PERSISTENCE LAYER - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Single entry point for everything the app keeps on the device.
+ *
+ * FEATURES:
+ * - One registry of storage keys (STORAGE_KEYS) instead of per-util constants
+ * - Every record is wrapped in a { version, data } envelope
+ * - Older versions are migrated forward automatically and written back
+ * - Data is validated against a zod schema on every read
+ * - Corrupt data is moved aside ("quarantined") instead of thrown at the UI
+ * - Storage is async: IndexedDB with a localStorage fallback (storageBackend.ts)
+ *
+ * VERSIONING:
+ * - Version 0 means "legacy, no envelope": whatever was stored before this
+ *   layer existed. If it is not valid JSON it is treated as a plain string,
+ *   which is how simple preferences (e.g. the API key) used to be stored.
+ * - migrations[n] upgrades data from version n to n + 1
+ *
+ * COLLECTIONS:
+ * - List and map stores validate each item separately, so one bad history
+ *   entry is quarantined on its own rather than taking the whole log with it
+ *
+ * CONCURRENCY:
+ * - update() calls on the same key are serialized, so read-modify-write
+ *   sequences (e.g. saving two vehicles at once) cannot overwrite each other
+ * =============================================================================
+ */
+
+import { z } from 'zod';
+import { getStorageBackend } from './storageBackend';
+
+/**
+ * STORAGE KEYS
+ * Every key used by the app. Namespaced to avoid conflicts.
+ */
+export const STORAGE_KEYS = {
+  savedLocations: 'carfinder_saved_locations',
+  legacySavedLocation: 'carfinder_saved_location',
+  vehicles: 'carfinder_vehicles',
+  activeVehicle: 'carfinder_active_vehicle',
+  parkingHistory: 'carfinder_parking_history',
+  googleApiKey: 'carfinder_google_api_key',
+  superPreciseMode: 'carfinder_super_precise_mode',
+  meterReminderMinutes: 'carfinder_meter_reminder_minutes',
+  floorHeight: 'carfinder_floor_height',
+  declinationCorrection: 'carfinder_declination_correction',
+  unitSystem: 'carfinder_unit_system',
+  locale: 'carfinder_locale',
+  directionStyle: 'carfinder_direction_style',
+} as const;
+
+/**
+ * Prefix for quarantined copies of corrupt records
+ */
+const QUARANTINE_PREFIX = 'carfinder_quarantine:';
+
+/**
+ * Upgrades raw data from one version to the next
+ */
+type Migration = (data: unknown) => unknown;
+
+/**
+ * Stored wrapper around every record
+ */
+interface Envelope {
+  version: number;
+  data: unknown;
+}
+
+/**
+ * A quarantined copy of data that failed to parse, migrate or validate
+ */
+export interface QuarantinedRecord {
+  key: string;
+  quarantinedAt: number;
+  reason: string;
+  raw: string;
+}
+
+/**
+ * Typed handle for one persisted record
+ */
+export interface RecordStore<T> {
+  /** Reads, migrates and validates the record; resolves to the fallback if absent or corrupt */
+  read: () => Promise<T>;
+  /** Validates and writes the record; resolves to false if invalid or storage failed */
+  write: (value: T) => Promise<boolean>;
+  /** Atomically reads, transforms and writes the record */
+  update: (mutator: (current: T) => T) => Promise<boolean>;
+  /** Removes the record */
+  remove: () => Promise<void>;
+}
+
+interface BaseDefinition {
+  /** Storage key (use STORAGE_KEYS) */
+  key: string;
+  /** Current schema version; bump when the stored shape changes */
+  version: number;
+  /** migrations[n] upgrades version n data to version n + 1 */
+  migrations?: Record<number, Migration>;
+}
+
+interface RecordDefinition<T> extends BaseDefinition {
+  /** Schema the record must satisfy; its output is trusted to be a T */
+  schema: z.ZodTypeAny;
+  /** Value returned when the record is absent or corrupt */
+  fallback: () => T;
+}
+
+interface CollectionDefinition extends BaseDefinition {
+  /** Schema each item is validated against; its output is trusted to be an item */
+  itemSchema: z.ZodTypeAny;
+}
+
+/**
+ * Outcome of validating migrated data
+ * - rewrite: valid data that differs from what is stored (pruned items)
+ * - reason: set when the whole record is corrupt and must be quarantined
+ */
+interface Validation<T> {
+  value: T;
+  rewrite: boolean;
+  reason?: string;
+}
+
+/**
+ * Stores a quarantine entry for later inspection.
+ * Failure to store it is logged but never fatal.
+ */
+async function storeQuarantine(key: string, raw: string, reason: string): Promise<void> {
+  const record: QuarantinedRecord = { key, quarantinedAt: Date.now(), reason, raw };
+  try {
+    const backend = await getStorageBackend();
+    await backend.setItem(`${QUARANTINE_PREFIX}${key}:${record.quarantinedAt}`, JSON.stringify(record));
+  } catch (error) {
+    // Storage full: losing the copy is better than keeping the corrupt original
+    console.error('[Persistence] Failed to store quarantined data:', error);
+  }
+}
+
+/**
+ * Moves a corrupt value aside under a quarantine key and removes the original.
+ * The app then behaves as if the record were absent.
+ */
+async function quarantine(key: string, raw: string, reason: string): Promise<void> {
+  console.warn(`[Persistence] Quarantining corrupt data in "${key}": ${reason}`);
+  await storeQuarantine(key, raw, reason);
+  try {
+    const backend = await getStorageBackend();
+    await backend.removeItem(key);
+  } catch (error) {
+    console.error(`[Persistence] Failed to remove "${key}":`, error);
+  }
+}
+
+/**
+ * Type guard for the { version, data } wrapper
+ */
+function isEnvelope(value: unknown): value is Envelope {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Envelope).version === 'number' &&
+    'data' in value
+  );
+}
+
+/**
+ * Parses a raw stored string into an envelope.
+ * Legacy (pre-envelope) values become version 0.
+ */
+function parseEnvelope(raw: string): Envelope {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    // Legacy preferences were stored as bare strings
+    return { version: 0, data: raw };
+  }
+  return isEnvelope(parsed) ? parsed : { version: 0, data: parsed };
+}
+
+/**
+ * Runs migrations until the data reaches the target version.
+ *
+ * @throws If a migration step is missing or throws, or the stored version is newer
+ */
+function migrate(envelope: Envelope, def: BaseDefinition): unknown {
+  if (envelope.version > def.version) {
+    throw new Error(`stored version ${envelope.version} is newer than supported ${def.version}`);
+  }
+
+  let data = envelope.data;
+  for (let version = envelope.version; version < def.version; version++) {
+    const step = def.migrations?.[version];
+    if (!step) {
+      throw new Error(`no migration from version ${version}`);
+    }
+    data = step(data);
+  }
+  return data;
+}
+
+/**
+ * Writes data wrapped in an envelope with the current version.
+ */
+async function writeEnvelope(key: string, version: number, data: unknown): Promise<boolean> {
+  try {
+    const envelope: Envelope = { version, data };
+    const backend = await getStorageBackend();
+    await backend.setItem(key, JSON.stringify(envelope));
+    return true;
+  } catch (error) {
+    // Storage might be full or disabled
+    console.error(`[Persistence] Failed to write "${key}":`, error);
+    return false;
+  }
+}
+
+/**
+ * Formats the first zod issue for log and quarantine messages
+ */
+function describeIssue(error: z.ZodError): string {
+  const issue = error.issues[0];
+  return issue ? `${issue.path.join('.') || '(root)'}: ${issue.message}` : 'invalid data';
+}
+
+/**
+ * Builds a store from a definition and a validation strategy.
+ * Shared by records, lists and maps.
+ */
+function createStore<T>(
+  def: BaseDefinition,
+  fallback: () => T,
+  writeSchema: z.ZodTypeAny,
+  validate: (data: unknown) => Promise<Validation<T>>
+): RecordStore<T> {
+  // Tail of the pending update() chain for this key
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<T> => {
+    let raw: string | null;
+    try {
+      const backend = await getStorageBackend();
+      raw = await backend.getItem(def.key);
+    } catch (error) {
+      console.error(`[Persistence] Failed to read "${def.key}":`, error);
+      return fallback();
+    }
+    if (raw === null) return fallback();
+
+    const envelope = parseEnvelope(raw);
+    let data: unknown;
+    try {
+      data = migrate(envelope, def);
+    } catch (error) {
+      await quarantine(def.key, raw, `migration failed: ${(error as Error).message}`);
+      return fallback();
+    }
+
+    const result = await validate(data);
+    if (result.reason) {
+      await quarantine(def.key, raw, result.reason);
+      return fallback();
+    }
+    if (result.rewrite || envelope.version !== def.version) {
+      await writeEnvelope(def.key, def.version, result.value);
+    }
+    return result.value;
+  };
+
+  const write = async (value: T): Promise<boolean> => {
+    const parsed = writeSchema.safeParse(value);
+    if (!parsed.success) {
+      console.error(`[Persistence] Refusing to write invalid "${def.key}":`, describeIssue(parsed.error));
+      return false;
+    }
+    return writeEnvelope(def.key, def.version, parsed.data);
+  };
+
+  const update = (mutator: (current: T) => T): Promise<boolean> => {
+    const next = queue.then(async () => write(mutator(await read())));
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  const remove = async (): Promise<void> => {
+    try {
+      const backend = await getStorageBackend();
+      await backend.removeItem(def.key);
+    } catch (error) {
+      console.error(`[Persistence] Failed to remove "${def.key}":`, error);
+    }
+  };
+
+  return { read, write, update, remove };
+}
+
+/**
+ * Defines a single validated record.
+ *
+ * @param def - Key, version, schema, migrations and fallback value
+ * @returns Store handle with read/write/update/remove
+ */
+export function defineRecord<T>(def: RecordDefinition<T>): RecordStore<T> {
+  return createStore<T>(def, def.fallback, def.schema, async (data) => {
+    const parsed = def.schema.safeParse(data);
+    return parsed.success
+      ? { value: parsed.data as T, rewrite: false }
+      : { value: def.fallback(), rewrite: false, reason: describeIssue(parsed.error) };
+  });
+}
+
+/**
+ * Validates items one by one, quarantining any that fail.
+ *
+ * @returns The valid items and whether anything was dropped
+ */
+async function partitionItems<T>(
+  key: string,
+  entries: Array<[string, unknown]>,
+  itemSchema: z.ZodTypeAny
+): Promise<{ valid: Array<[string, T]>; dropped: boolean }> {
+  const valid: Array<[string, T]> = [];
+  const invalid: Record<string, unknown> = {};
+  const reasons: string[] = [];
+
+  for (const [id, item] of entries) {
+    const parsed = itemSchema.safeParse(item);
+    if (parsed.success) {
+      valid.push([id, parsed.data as T]);
+    } else {
+      invalid[id] = item;
+      reasons.push(`[${id}] ${describeIssue(parsed.error)}`);
+    }
+  }
+
+  const dropped = reasons.length > 0;
+  if (dropped) {
+    // Only the bad items are moved aside; the caller rewrites the record without them
+    console.warn(`[Persistence] Quarantining ${reasons.length} invalid item(s) in "${key}"`);
+    await storeQuarantine(key, JSON.stringify(invalid), reasons.join('; '));
+  }
+  return { valid, dropped };
+}
+
+/**
+ * Defines an array of individually validated items.
+ *
+ * @param def - Key, version, item schema and migrations
+ * @returns Store handle; read() resolves to [] when absent or corrupt
+ */
+export function defineList<T>(def: CollectionDefinition): RecordStore<T[]> {
+  return createStore<T[]>(def, () => [], z.array(def.itemSchema), async (data) => {
+    if (!Array.isArray(data)) {
+      return { value: [], rewrite: false, reason: 'expected a list' };
+    }
+
+    const entries = data.map((item, index): [string, unknown] => [String(index), item]);
+    const { valid, dropped } = await partitionItems<T>(def.key, entries, def.itemSchema);
+    return { value: valid.map(([, item]) => item), rewrite: dropped };
+  });
+}
+
+/**
+ * Defines a string-keyed map of individually validated items.
+ *
+ * @param def - Key, version, item schema and migrations
+ * @returns Store handle; read() resolves to {} when absent or corrupt
+ */
+export function defineMap<T>(def: CollectionDefinition): RecordStore<Record<string, T>> {
+  return createStore<Record<string, T>>(def, () => ({}), z.record(z.string(), def.itemSchema), async (data) => {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      return { value: {}, rewrite: false, reason: 'expected a map' };
+    }
+
+    const { valid, dropped } = await partitionItems<T>(def.key, Object.entries(data), def.itemSchema);
+    return { value: Object.fromEntries(valid), rewrite: dropped };
+  });
+}
+
+/**
+ * Lists all quarantined records, newest first.
+ * Useful for diagnostics and manual recovery.
+ */
+export async function getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+  const backend = await getStorageBackend();
+  const keys = (await backend.keys()).filter((key) => key.startsWith(QUARANTINE_PREFIX));
+  const records: QuarantinedRecord[] = [];
+
+  for (const key of keys) {
+    try {
+      records.push(JSON.parse((await backend.getItem(key)) ?? ''));
+    } catch {
+      // A corrupt quarantine entry is not worth surfacing
+    }
+  }
+  return records.sort((a, b) => b.quarantinedAt - a.quarantinedAt);
+}
+
+/**
+ * Deletes all quarantined records.
+ */
+export async function clearQuarantinedRecords(): Promise<void> {
+  const backend = await getStorageBackend();
+  const keys = (await backend.keys()).filter((key) => key.startsWith(QUARANTINE_PREFIX));
+  await Promise.all(keys.map((key) => backend.removeItem(key)));
+}
@@ -0,0 +1,100 @@
+/**
+ * =============================================================================
+ * PHOTO ATTACHMENTS - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Turns photos taken or picked by the user (pillar numbers, row signs,
+ * nearby landmarks) into compact JPEG data URLs that can be stored with a
+ * SavedLocation.
+ *
+ * Camera photos are often 4000px+ and several MB, so every photo is
+ * downscaled and re-encoded before it is stored. Data URLs keep photos
+ * self-contained: they survive storage round-trips and work offline.
+ * =============================================================================
+ */
+
+/**
+ * Maximum number of photos attached to a single location
+ */
+export const MAX_PHOTOS_PER_LOCATION = 6;
+
+/**
+ * Longest edge (in pixels) of a stored photo
+ */
+const MAX_PHOTO_DIMENSION = 1280;
+
+/**
+ * JPEG quality used when re-encoding (0-1)
+ */
+const PHOTO_QUALITY = 0.8;
+
+/**
+ * Decodes an image file into an HTMLImageElement
+ */
+function loadImage(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not decode image'));
+    };
+    image.src = url;
+  });
+}
+
+/**
+ * Downscales a photo and encodes it as a JPEG data URL.
+ * Aspect ratio is preserved; small images are not upscaled.
+ *
+ * @param file - Image file from a file input or camera capture
+ * @returns JPEG data URL
+ * @throws If the file is not a decodable image
+ */
+export async function resizePhoto(file: Blob): Promise<string> {
+  const image = await loadImage(file);
+  const scale = Math.min(1, MAX_PHOTO_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.round(image.naturalWidth * scale);
+  const height = Math.round(image.naturalHeight * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context unavailable');
+  }
+  context.drawImage(image, 0, 0, width, height);
+
+  return canvas.toDataURL('image/jpeg', PHOTO_QUALITY);
+}
+
+/**
+ * Converts picked files into storable photos.
+ * Files that fail to decode are skipped.
+ *
+ * @param files - Files from a file input
+ * @param limit - Maximum number of photos to return
+ * @returns JPEG data URLs in the order the files were picked
+ */
+export async function readPhotos(files: FileList | File[], limit: number = MAX_PHOTOS_PER_LOCATION): Promise<string[]> {
+  const images = Array.from(files)
+    .filter((file) => file.type.startsWith('image/'))
+    .slice(0, Math.max(0, limit));
+
+  const photos: string[] = [];
+  for (const file of images) {
+    // Sequential on purpose: decoding several full-size photos at once can
+    // exhaust memory on phones
+    try {
+      photos.push(await resizePhoto(file));
+    } catch (error) {
+      console.error('[Photos] Failed to process photo:', error);
+    }
+  }
+  return photos;
+}
@@ -0,0 +1,83 @@
+/**
+ * =============================================================================
+ * QR CODES - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Encodes a parking spot as a QR code and reads spots back from scanned
+ * codes, so two phones next to each other can exchange a location without
+ * a messenger. Both directions work fully offline.
+ *
+ * PAYLOAD:
+ * The QR code contains the same link used for sharing (see share.ts).
+ * Scanning it with the phone's own camera app therefore opens Car Finder
+ * in find mode, while the in-app scanner reads the location directly.
+ * Plain "geo:" URIs (RFC 5870) from other apps are accepted as well.
+ * =============================================================================
+ */
+
+import QRCode from 'qrcode';
+import jsQR from 'jsqr';
+import { SHARED_ROUTE, SharedLocation, parseSharedLocation } from './share';
+
+/**
+ * Renders text as a QR code image.
+ *
+ * @param text - Content to encode
+ * @param size - Image width/height in pixels
+ * @returns PNG data URL
+ */
+export function generateQrDataUrl(text: string, size: number = 288): Promise<string> {
+  return QRCode.toDataURL(text, {
+    width: size,
+    margin: 2,
+    // Medium error correction keeps the code scannable on a cracked or dim screen
+    errorCorrectionLevel: 'M',
+  });
+}
+
+/**
+ * Looks for a QR code in a camera frame.
+ *
+ * @param image - Pixels of the frame
+ * @returns The decoded text, or null if no code was found
+ */
+export function decodeQrFromImage(image: ImageData): string | null {
+  const result = jsQR(image.data, image.width, image.height, {
+    inversionAttempts: 'dontInvert',
+  });
+  return result?.data ?? null;
+}
+
+/**
+ * Parses a "geo:lat,lng[;u=uncertainty]" URI
+ */
+function parseGeoUri(text: string): SharedLocation | null {
+  const match = /^geo:(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)(?:,[^;?]*)?((?:;[^?]*)?)/i.exec(text.trim());
+  if (!match) return null;
+
+  const params = new URLSearchParams({ lat: match[1], lng: match[2] });
+  const uncertainty = /;u=(\d+(?:\.\d+)?)/i.exec(match[3]);
+  if (uncertainty) params.set('acc', uncertainty[1]);
+  return parseSharedLocation(params);
+}
+
+/**
+ * Interprets the text of a scanned QR code as a location.
+ * Accepts Car Finder share links from any host (e.g. a different
+ * deployment) and geo: URIs.
+ *
+ * @param text - Decoded QR content
+ * @returns The location, or null if the code does not contain one
+ */
+export function parseScannedLocation(text: string): SharedLocation | null {
+  if (/^geo:/i.test(text.trim())) {
+    return parseGeoUri(text);
+  }
+
+  try {
+    const url = new URL(text);
+    return url.pathname.endsWith(SHARED_ROUTE) ? parseSharedLocation(url.searchParams) : null;
+  } catch {
+    return null;
+  }
+}
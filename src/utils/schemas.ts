@@ -0,0 +1,72 @@
+/**
+ * =============================================================================
+ * STORAGE SCHEMAS - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Zod schemas describing every record the app persists.
+ * persistence.ts validates stored data against these on every read, so a
+ * corrupt or hand-edited value can never reach the UI.
+ *
+ * Keep these in sync with the TypeScript interfaces they mirror
+ * (gps.ts, parkingDetails.ts, meter.ts, vehicles.ts, history.ts). With
+ * strict mode off, zod cannot infer required fields, so the interfaces
+ * remain the source of truth for types.
+ * =============================================================================
+ */
+
+import { z } from 'zod';
+import type { VehicleType } from './vehicles';
+import { PARKING_DETAIL_LIMITS } from './parkingDetails';
+
+const latitude = z.number().min(-90).max(90);
+const longitude = z.number().min(-180).max(180);
+
+export const LocationSourceSchema = z.enum(['gps', 'google']);
+
+export const ParkingDetailsSchema = z.object({
+  level: z.string().max(PARKING_DETAIL_LIMITS.level).optional(),
+  section: z.string().max(PARKING_DETAIL_LIMITS.section).optional(),
+  spot: z.string().max(PARKING_DETAIL_LIMITS.spot).optional(),
+  note: z.string().max(PARKING_DETAIL_LIMITS.note).optional(),
+});
+
+export const ParkingMeterSchema = z.object({
+  expiresAt: z.number().int().nonnegative(),
+  reminderMinutes: z.array(z.number().int().positive()),
+});
+
+export const SavedLocationSchema = z.object({
+  latitude,
+  longitude,
+  timestamp: z.number().int().nonnegative(),
+  accuracy: z.number().nonnegative().optional(),
+  altitude: z.number().optional(),
+  altitudeAccuracy: z.number().nonnegative().optional(),
+  provider: LocationSourceSchema.optional(),
+  photos: z.array(z.string().startsWith('data:image/')).optional(),
+  details: ParkingDetailsSchema.optional(),
+  meter: ParkingMeterSchema.optional(),
+});
+
+const VEHICLE_TYPE_VALUES: [VehicleType, ...VehicleType[]] = [
+  'car', 'suv', 'truck', 'van', 'motorcycle', 'scooter', 'bicycle',
+];
+
+export const VehicleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  color: z.string().min(1),
+  icon: z.string().min(1),
+  type: z.enum(VEHICLE_TYPE_VALUES),
+});
+
+export const ParkingSessionSchema = z.object({
+  id: z.string().min(1),
+  vehicleId: z.string().min(1),
+  location: SavedLocationSchema,
+  startedAt: z.number().int().nonnegative(),
+  endedAt: z.number().int().nonnegative().nullable(),
+  accuracy: z.number().nonnegative().optional(),
+  provider: LocationSourceSchema,
+  name: z.string().optional(),
+});
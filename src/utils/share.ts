@@ -0,0 +1,140 @@
+/**
+ * =============================================================================
+ * LOCATION SHARING - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Builds and reads links that carry a parked car's position, so someone
+ * else can open the app straight into find mode for it.
+ *
+ * LINK FORMAT:
+ *   /shared?lat=<deg>&lng=<deg>[&acc=<m>][&t=<unix ms>][&name=<label>]
+ *          [&level=..][&section=..][&spot=..][&note=..]
+ *
+ * Everything lives in the query string, so links work offline and without
+ * any server. Incoming links are validated like stored data.
+ * =============================================================================
+ */
+
+import { SavedLocation } from './gps';
+import { normalizeParkingDetails } from './parkingDetails';
+import { SavedLocationSchema } from './schemas';
+
+/**
+ * Path of the route that opens shared links
+ */
+export const SHARED_ROUTE = '/shared';
+
+/**
+ * Coordinate precision in shared links (6 decimals ≈ 0.1 m)
+ */
+const COORDINATE_DECIMALS = 6;
+
+/**
+ * A location received through a shared link
+ */
+export interface SharedLocation {
+  location: SavedLocation;
+  name?: string;  // Label chosen by the sender, e.g. the vehicle name
+}
+
+/**
+ * Outcome of a share attempt
+ * - 'shared': handed to the native share sheet
+ * - 'copied': link copied to the clipboard
+ * - 'cancelled': user dismissed the share sheet
+ * - 'failed': neither sharing nor copying worked
+ */
+export type ShareResult = 'shared' | 'copied' | 'cancelled' | 'failed';
+
+/**
+ * Builds a link that opens the app in find mode for a location.
+ * Photos are not included (too large for a URL).
+ *
+ * @param location - The location to share
+ * @param name - Optional label shown to the recipient
+ * @returns Absolute URL
+ */
+export function buildShareUrl(location: SavedLocation, name?: string): string {
+  const params = new URLSearchParams({
+    lat: location.latitude.toFixed(COORDINATE_DECIMALS),
+    lng: location.longitude.toFixed(COORDINATE_DECIMALS),
+  });
+  if (location.accuracy !== undefined) params.set('acc', Math.round(location.accuracy).toString());
+  params.set('t', location.timestamp.toString());
+  if (name) params.set('name', name);
+
+  const { details } = location;
+  if (details?.level) params.set('level', details.level);
+  if (details?.section) params.set('section', details.section);
+  if (details?.spot) params.set('spot', details.spot);
+  if (details?.note) params.set('note', details.note);
+
+  return `${window.location.origin}${SHARED_ROUTE}?${params.toString()}`;
+}
+
+/**
+ * Reads a shared location from a link's query parameters.
+ *
+ * @param params - Query parameters of the shared link
+ * @returns The location, or null if the link is missing or has invalid coordinates
+ */
+export function parseSharedLocation(params: URLSearchParams): SharedLocation | null {
+  const lat = params.get('lat');
+  const lng = params.get('lng');
+  if (!lat || !lng) return null;
+
+  // An empty or non-positive acc would claim a perfect fix; treat it as absent
+  const accuracy = params.get('acc')?.trim() ? Number(params.get('acc')) : undefined;
+  const timestamp = Number(params.get('t'));
+  const details = normalizeParkingDetails({
+    level: params.get('level') ?? undefined,
+    section: params.get('section') ?? undefined,
+    spot: params.get('spot') ?? undefined,
+    note: params.get('note') ?? undefined,
+  });
+
+  const location: SavedLocation = {
+    latitude: Number(lat),
+    longitude: Number(lng),
+    timestamp: Number.isInteger(timestamp) && timestamp > 0 ? timestamp : Date.now(),
+    ...(accuracy !== undefined && Number.isFinite(accuracy) && accuracy > 0 && { accuracy }),
+    ...(details && { details }),
+  };
+
+  if (!SavedLocationSchema.safeParse(location).success) {
+    console.error('[Share] Ignoring invalid shared location');
+    return null;
+  }
+
+  const name = params.get('name')?.trim().slice(0, 60);
+  return { location, name: name || undefined };
+}
+
+/**
+ * Shares a link with the native share sheet, falling back to the clipboard.
+ *
+ * @param url - Link to share
+ * @param title - Share sheet title
+ * @param text - Message shown with the link
+ */
+export async function shareLink(url: string, title: string, text: string): Promise<ShareResult> {
+  if (navigator.share) {
+    try {
+      await navigator.share({ title, text, url });
+      return 'shared';
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return 'cancelled';
+      }
+      console.error('[Share] Web Share failed, falling back to clipboard:', error);
+    }
+  }
+
+  try {
+    await navigator.clipboard.writeText(url);
+    return 'copied';
+  } catch (error) {
+    console.error('[Share] Clipboard write failed:', error);
+    return 'failed';
+  }
+}
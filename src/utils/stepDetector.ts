@@ -0,0 +1,138 @@
+/**
+ * =============================================================================
+ * STEP DETECTOR - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Counts walking steps from the accelerometer (DeviceMotionEvent), for
+ * dead reckoning when GPS is unavailable (see deadReckoning.ts).
+ *
+ * ALGORITHM:
+ * - Uses the magnitude of acceleration including gravity, so the result
+ *   doesn't depend on how the phone is held
+ * - A fast low-pass filter removes jitter; a slow one tracks the gravity
+ *   baseline
+ * - A step is a peak rising more than STEP_THRESHOLD above the baseline,
+ *   after the signal has dropped back below it (hysteresis), and at least
+ *   MIN_STEP_INTERVAL_MS after the previous step
+ *
+ * PERMISSION:
+ * iOS 13+ requires requestMotionPermission() from a user gesture.
+ * =============================================================================
+ */
+
+/**
+ * Smoothing factor of the jitter filter (per sample at ~60 Hz)
+ */
+const SIGNAL_SMOOTHING = 0.3;
+
+/**
+ * Smoothing factor of the gravity baseline filter
+ */
+const BASELINE_SMOOTHING = 0.02;
+
+/**
+ * Rise above baseline that counts as a step (m/s²)
+ */
+const STEP_THRESHOLD = 1.2;
+
+/**
+ * Shortest time between two steps (ms); ~3.3 steps/s is a fast run
+ */
+const MIN_STEP_INTERVAL_MS = 300;
+
+/**
+ * Step detector handle
+ */
+export interface StepDetector {
+  /** Feed one acceleration magnitude sample (m/s²) */
+  process: (magnitude: number, timestamp: number) => void;
+  /** Listen to devicemotion events */
+  start: () => void;
+  /** Stop listening */
+  stop: () => void;
+}
+
+/**
+ * Check whether motion permission must be requested (iOS 13+)
+ */
+function needsMotionPermission(): boolean {
+  return (
+    typeof DeviceMotionEvent !== 'undefined' &&
+    typeof (DeviceMotionEvent as unknown as { requestPermission?: unknown }).requestPermission === 'function'
+  );
+}
+
+/**
+ * Request access to motion sensors where the browser requires it.
+ * Must be called in response to user interaction (click/tap).
+ *
+ * @returns true if motion events can be used
+ */
+export async function requestMotionPermission(): Promise<boolean> {
+  if (typeof DeviceMotionEvent === 'undefined') return false;
+  if (!needsMotionPermission()) return true;
+
+  try {
+    const permission = await (
+      DeviceMotionEvent as unknown as { requestPermission: () => Promise<PermissionState> }
+    ).requestPermission();
+    return permission === 'granted';
+  } catch (error) {
+    console.error('[StepDetector] Motion permission request failed:', error);
+    return false;
+  }
+}
+
+/**
+ * Creates a step detector.
+ *
+ * @param onStep - Called with the timestamp of each detected step
+ * @returns Step detector handle
+ */
+export function createStepDetector(onStep: (timestamp: number) => void): StepDetector {
+  let signal: number | null = null;
+  let baseline: number | null = null;
+  let armed = false;
+  let lastStepAt = -Infinity;
+
+  const process = (magnitude: number, timestamp: number) => {
+    if (signal === null) {
+      signal = magnitude;
+      baseline = magnitude;
+      return;
+    }
+
+    signal += SIGNAL_SMOOTHING * (magnitude - signal);
+    baseline += BASELINE_SMOOTHING * (magnitude - baseline);
+    const rise = signal - baseline;
+
+    if (rise < 0) {
+      armed = true;
+    } else if (armed && rise > STEP_THRESHOLD && timestamp - lastStepAt >= MIN_STEP_INTERVAL_MS) {
+      armed = false;
+      lastStepAt = timestamp;
+      onStep(timestamp);
+    }
+  };
+
+  const handleMotion = (event: DeviceMotionEvent) => {
+    const acceleration = event.accelerationIncludingGravity;
+    if (acceleration?.x == null || acceleration.y == null || acceleration.z == null) return;
+    process(Math.hypot(acceleration.x, acceleration.y, acceleration.z), Date.now());
+  };
+
+  return {
+    process,
+    start: () => {
+      if (typeof DeviceMotionEvent === 'undefined') return;
+      window.removeEventListener('devicemotion', handleMotion);
+      window.addEventListener('devicemotion', handleMotion);
+    },
+    stop: () => {
+      window.removeEventListener('devicemotion', handleMotion);
+      signal = null;
+      baseline = null;
+      armed = false;
+    },
+  };
+}
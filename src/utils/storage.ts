@@ -1,69 +1,130 @@
 /**
  * =============================================================================
- * LOCAL STORAGE UTILITIES - CAR FINDER PWA
+ * CAR LOCATION STORAGE - CAR FINDER PWA
  * =============================================================================
- * 
- * Simple localStorage wrapper for persisting car location data.
- * Handles JSON serialization/deserialization and error cases.
- * 
- * Storage is kept minimal (~10-20 lines as specified) while being robust.
+ *
+ * Persists car location data through the versioned persistence layer
+ * (see persistence.ts), which handles serialization, validation,
+ * migrations and quarantining of corrupt data. All functions are async:
+ * data lives in IndexedDB, with localStorage as a fallback.
+ *
+ * Each vehicle in the garage (see vehicles.ts) has at most one active
+ * saved location. All locations are stored together in a single map
+ * keyed by vehicle ID.
  * =============================================================================
  */
 
 import { SavedLocation } from './gps';
+import { DEFAULT_VEHICLE_ID } from './vehicles';
+import { STORAGE_KEYS, defineMap, defineRecord } from './persistence';
+import { SavedLocationSchema } from './schemas';
 
 /**
- * STORAGE KEY
- * The key used in localStorage for the saved car location.
- * Namespaced to avoid conflicts with other apps.
+ * Saved locations indexed by vehicle ID
  */
-const STORAGE_KEY = 'carfinder_saved_location';
+export type SavedLocationMap = Record<string, SavedLocation>;
 
 /**
- * Saves the car location to localStorage.
- * Serializes the location object to JSON.
- * 
- * @param location - The location object to save
- * @returns true if saved successfully, false if storage failed
+ * Saved locations map
+ * - v0: unversioned map (before the persistence layer)
+ * - v1: same shape, wrapped in a version envelope
+ */
+const locationsStore = defineMap<SavedLocation>({
+  key: STORAGE_KEYS.savedLocations,
+  version: 1,
+  itemSchema: SavedLocationSchema,
+  migrations: {
+    0: (data) => data,
+  },
+});
+
+/**
+ * Single-location record used before vehicle profiles existed.
+ * Its contents are moved to the default vehicle on first read.
+ */
+const legacyLocationStore = defineRecord<SavedLocation | null>({
+  key: STORAGE_KEYS.legacySavedLocation,
+  version: 0,
+  schema: SavedLocationSchema.nullable(),
+  fallback: () => null,
+});
+
+/**
+ * Moves a location saved under the legacy single-car key into the map.
+ * Runs once per app session; later calls reuse the same promise.
  */
-export function saveCarLocation(location: SavedLocation): boolean {
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(location));
-    return true;
-  } catch (error) {
-    // Storage might be full or disabled
-    console.error('[Storage] Failed to save location:', error);
-    return false;
+let legacyMigration: Promise<void> | null = null;
+
+function migrateLegacyLocation(): Promise<void> {
+  if (!legacyMigration) {
+    legacyMigration = (async () => {
+      const legacy = await legacyLocationStore.read();
+      if (!legacy) return;
+
+      const migrated = await locationsStore.update((locations) =>
+        locations[DEFAULT_VEHICLE_ID] ? locations : { ...locations, [DEFAULT_VEHICLE_ID]: legacy }
+      );
+      if (migrated) {
+        await legacyLocationStore.remove();
+      }
+    })();
   }
+  return legacyMigration;
 }
 
 /**
- * Retrieves the saved car location from localStorage.
- * 
+ * Retrieves every saved location in the garage.
+ *
+ * @returns Map of vehicle ID to saved location (empty if none)
+ */
+export async function getAllCarLocations(): Promise<SavedLocationMap> {
+  await migrateLegacyLocation();
+  return locationsStore.read();
+}
+
+/**
+ * Saves a vehicle's location.
+ * Replaces any location previously saved for the same vehicle.
+ *
+ * @param vehicleId - The vehicle the location belongs to
+ * @param location - The location object to save
+ * @returns true if saved successfully, false if invalid or storage failed
+ */
+export async function saveCarLocation(vehicleId: string, location: SavedLocation): Promise<boolean> {
+  await migrateLegacyLocation();
+  return locationsStore.update((locations) => ({ ...locations, [vehicleId]: location }));
+}
+
+/**
+ * Retrieves a vehicle's saved location.
+ *
+ * @param vehicleId - The vehicle to look up
  * @returns The saved location object, or null if not found/invalid
  */
-export function getCarLocation(): SavedLocation | null {
-  try {
-    const data = localStorage.getItem(STORAGE_KEY);
-    return data ? JSON.parse(data) : null;
-  } catch (error) {
-    console.error('[Storage] Failed to read location:', error);
-    return null;
-  }
+export async function getCarLocation(vehicleId: string): Promise<SavedLocation | null> {
+  return (await getAllCarLocations())[vehicleId] ?? null;
 }
 
 /**
- * Clears the saved car location from localStorage.
+ * Clears a vehicle's saved location.
+ *
+ * @param vehicleId - The vehicle whose location should be removed
  */
-export function clearCarLocation(): void {
-  localStorage.removeItem(STORAGE_KEY);
+export async function clearCarLocation(vehicleId: string): Promise<void> {
+  await migrateLegacyLocation();
+  await locationsStore.update((locations) => {
+    const next = { ...locations };
+    delete next[vehicleId];
+    return next;
+  });
 }
 
 /**
- * Checks if a car location is currently saved.
- * 
+ * Checks if a location is currently saved for a vehicle.
+ *
+ * @param vehicleId - The vehicle to check
  * @returns true if a location is saved, false otherwise
  */
-export function hasCarLocation(): boolean {
-  return localStorage.getItem(STORAGE_KEY) !== null;
+export async function hasCarLocation(vehicleId: string): Promise<boolean> {
+  return (await getCarLocation(vehicleId)) !== null;
 }
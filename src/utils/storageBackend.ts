@@ -0,0 +1,210 @@
+/**
+ * =============================================================================
+ * STORAGE BACKENDS - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Async key/value storage used by the persistence layer (persistence.ts).
+ *
+ * BACKENDS:
+ * - IndexedDB (preferred): asynchronous, much larger quota, and less likely
+ *   to be evicted, especially once persistent storage is granted
+ * - localStorage (fallback): used when IndexedDB is unavailable or fails to
+ *   open (e.g. some private browsing modes)
+ *
+ * MIGRATION:
+ * The first time IndexedDB opens successfully, any app data still in
+ * localStorage (keys starting with "carfinder_") is moved into it.
+ * =============================================================================
+ */
+
+/**
+ * Minimal async key/value interface shared by all backends.
+ * Values are strings; the persistence layer handles (de)serialization.
+ */
+export interface StorageBackend {
+  /** Which implementation is in use (for diagnostics) */
+  readonly name: 'indexeddb' | 'localstorage';
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+  /** All stored keys */
+  keys: () => Promise<string[]>;
+}
+
+const DB_NAME = 'carfinder';
+const DB_VERSION = 1;
+const STORE_NAME = 'records';
+
+/**
+ * Prefix shared by every key the app writes
+ */
+const APP_KEY_PREFIX = 'carfinder_';
+
+/**
+ * Wraps an IDBRequest in a Promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves when a transaction commits, rejects if it fails or aborts
+ */
+function promisifyTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * localStorage-backed implementation
+ */
+export function createLocalStorageBackend(): StorageBackend {
+  return {
+    name: 'localstorage',
+    async getItem(key) {
+      return localStorage.getItem(key);
+    },
+    async setItem(key, value) {
+      localStorage.setItem(key, value);
+    },
+    async removeItem(key) {
+      localStorage.removeItem(key);
+    },
+    async keys() {
+      const keys: string[] = [];
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key !== null) keys.push(key);
+      }
+      return keys;
+    },
+  };
+}
+
+/**
+ * Opens (and if needed creates) the app database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Database upgrade blocked by another tab'));
+  });
+}
+
+/**
+ * Moves app data left in localStorage into IndexedDB.
+ * Existing IndexedDB values win; localStorage copies are removed only
+ * after the transaction has committed.
+ */
+async function migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+  const legacyKeys = (await createLocalStorageBackend().keys())
+    .filter((key) => key.startsWith(APP_KEY_PREFIX));
+  if (legacyKeys.length === 0) return;
+
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  for (const key of legacyKeys) {
+    const value = localStorage.getItem(key);
+    if (value === null) continue;
+    // add() fails on existing keys; swallow so the rest of the batch proceeds
+    const request = store.add(value, key);
+    request.onerror = (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+    };
+  }
+  await promisifyTransaction(transaction);
+
+  legacyKeys.forEach((key) => localStorage.removeItem(key));
+  console.log(`[StorageBackend] Migrated ${legacyKeys.length} key(s) from localStorage`);
+}
+
+/**
+ * IndexedDB-backed implementation
+ *
+ * @throws If IndexedDB is unavailable or the database cannot be opened
+ */
+export async function createIndexedDbBackend(): Promise<StorageBackend> {
+  if (typeof indexedDB === 'undefined') {
+    throw new Error('IndexedDB is not supported');
+  }
+
+  const db = await openDatabase();
+  await migrateFromLocalStorage(db);
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const [result] = await Promise.all([
+      promisifyRequest(action(transaction.objectStore(STORE_NAME))),
+      promisifyTransaction(transaction),
+    ]);
+    return result;
+  };
+
+  return {
+    name: 'indexeddb',
+    async getItem(key) {
+      const value = await run('readonly', (store) => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    async setItem(key, value) {
+      await run('readwrite', (store) => store.put(value, key));
+    },
+    async removeItem(key) {
+      await run('readwrite', (store) => store.delete(key));
+    },
+    async keys() {
+      const keys = await run('readonly', (store) => store.getAllKeys());
+      return keys.map(String);
+    },
+  };
+}
+
+/**
+ * Asks the browser not to evict our data under storage pressure.
+ * Best effort: browsers may silently refuse.
+ */
+async function requestPersistentStorage(): Promise<void> {
+  try {
+    if (navigator.storage?.persist && !(await navigator.storage.persisted())) {
+      const granted = await navigator.storage.persist();
+      console.log('[StorageBackend] Persistent storage', granted ? 'granted' : 'not granted');
+    }
+  } catch (error) {
+    console.warn('[StorageBackend] Persistent storage request failed:', error);
+  }
+}
+
+let backendPromise: Promise<StorageBackend> | null = null;
+
+/**
+ * Returns the shared storage backend, opening it on first use.
+ * Prefers IndexedDB and falls back to localStorage.
+ */
+export function getStorageBackend(): Promise<StorageBackend> {
+  if (!backendPromise) {
+    backendPromise = createIndexedDbBackend()
+      .then((backend) => {
+        requestPersistentStorage();
+        return backend;
+      })
+      .catch((error) => {
+        console.warn('[StorageBackend] IndexedDB unavailable, using localStorage:', error);
+        return createLocalStorageBackend();
+      });
+  }
+  return backendPromise;
+}
@@ -0,0 +1,71 @@
+/**
+ * =============================================================================
+ * TIME FORMATTING - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Durations and relative times in the current language:
+ * - "2h 14m" for how long a car has been parked
+ * - "Parked 2h 14m ago" for the saved card and notification
+ * - "yesterday at 6:40 PM" for recent timestamps (date-fns formatRelative);
+ *   anything older than a week gets the full date from formatTimestamp
+ * =============================================================================
+ */
+
+import { formatRelative } from 'date-fns';
+import { formatTimestamp } from './gps';
+import { getDateLocale, getLocale, t } from './i18n';
+
+/**
+ * How far back (ms) timestamps are described relative to today
+ * (formatRelative names the weekday for the past six days)
+ */
+const RELATIVE_WINDOW_MS = 6 * 24 * 60 * 60 * 1000;
+
+/**
+ * Formats a length of time as "2h 14m" / "45m" / "<1m".
+ *
+ * @param ms - Duration in milliseconds
+ * @returns Compact duration in the current language
+ */
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60000);
+  if (totalMinutes < 1) return t('duration.lessThanMinute');
+
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return t('duration.daysHours', { days, hours });
+  if (hours > 0) return t('duration.hoursMinutes', { hours, minutes });
+  return t('duration.minutes', { minutes });
+}
+
+/**
+ * Describes how long ago a car was parked.
+ *
+ * @param parkedAt - When the location was saved (ms)
+ * @param now - Current time (ms)
+ * @returns e.g. "Parked 2h 14m ago", or "Parked just now" in the first minute
+ */
+export function formatParkedAgo(parkedAt: number, now: number = Date.now()): string {
+  const elapsed = now - parkedAt;
+  return elapsed < 60000
+    ? t('time.parkedJustNow')
+    : t('time.parkedAgo', { duration: formatDuration(elapsed) });
+}
+
+/**
+ * Formats a timestamp relative to today, e.g. "Yesterday at 6:40 PM".
+ *
+ * @param timestamp - Time to describe (ms)
+ * @param now - Current time (ms)
+ * @returns Relative day and time for the past week, otherwise the full date
+ */
+export function formatRelativeTimestamp(timestamp: number, now: number = Date.now()): string {
+  if (Math.abs(now - timestamp) > RELATIVE_WINDOW_MS) {
+    return formatTimestamp(timestamp);
+  }
+
+  const relative = formatRelative(timestamp, now, { locale: getDateLocale() });
+  return relative.charAt(0).toLocaleUpperCase(getLocale()) + relative.slice(1);
+}
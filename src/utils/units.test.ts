@@ -0,0 +1,42 @@
+/**
+ * =============================================================================
+ * DISTANCE FORMATTING TESTS - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Checks where distances switch to miles or kilometers, and that automatic
+ * units follow the app's language rather than the browser's.
+ * =============================================================================
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { setLocale } from './i18n';
+import { formatDistance, getMeasurementSystem } from './units';
+
+const METERS_PER_FOOT = 0.3048;
+
+describe('formatDistance', () => {
+  afterEach(() => setLocale('en'));
+
+  it('stays in feet or meters below 1000', () => {
+    expect(formatDistance(999.4 * METERS_PER_FOOT, 'imperial')).toEqual({ value: '999', unit: 'ft' });
+    expect(formatDistance(999.4, 'metric')).toEqual({ value: '999', unit: 'm' });
+  });
+
+  it('switches units when the rounded value reaches 1000', () => {
+    expect(formatDistance(999.6 * METERS_PER_FOOT, 'imperial')).toEqual({ value: '0.2', unit: 'mi' });
+    expect(formatDistance(999.6, 'metric')).toEqual({ value: '1.0', unit: 'km' });
+  });
+
+  it('drops the decimal once the rounded value reaches 10', () => {
+    expect(formatDistance(9960, 'metric')).toEqual({ value: '10', unit: 'km' });
+    expect(formatDistance(9940, 'metric')).toEqual({ value: '9.9', unit: 'km' });
+  });
+
+  it('picks automatic units from the app\'s language', () => {
+    setLocale('en');
+    expect(getMeasurementSystem('auto')).toBe('imperial');
+    setLocale('de');
+    expect(getMeasurementSystem('auto')).toBe('metric');
+    expect(formatDistance(1500)).toEqual({ value: '1,5', unit: 'km' });
+  });
+});
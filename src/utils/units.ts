@@ -0,0 +1,237 @@
+/**
+ * =============================================================================
+ * UNITS & MEASUREMENT FORMATTING - CAR FINDER PWA
+ * =============================================================================
+ *
+ * The one place lengths and speeds are turned into text. Everything is
+ * stored and computed in meters (and m/s); only display goes through here.
+ *
+ * UNIT SYSTEMS:
+ * - Imperial: feet, then miles from 1000 ft
+ * - Metric: meters, then kilometers from 1000 m
+ * - Auto: imperial or metric depending on the app's language
+ * - Steps: walking distances in steps; accuracy, altitude and speed have no
+ *   sensible step equivalent and use the locale's units instead
+ * =============================================================================
+ */
+
+import { z } from 'zod';
+import { STORAGE_KEYS, defineRecord } from './persistence';
+import { STEP_LENGTH } from './deadReckoning';
+import { formatNumber, getLocale, t } from './i18n';
+
+/**
+ * Unit preference chosen by the user
+ */
+export type UnitSystem = 'auto' | 'imperial' | 'metric' | 'steps';
+
+/**
+ * Unit systems in the order they are offered in Settings
+ * (labels are the "units.system.*" messages)
+ */
+export const UNIT_SYSTEMS: readonly UnitSystem[] = ['auto', 'imperial', 'metric', 'steps'];
+
+/**
+ * Units of length measurements like accuracy and altitude
+ */
+export type MeasurementSystem = 'imperial' | 'metric';
+
+/**
+ * Formatted distance, split so the number can be styled on its own
+ */
+export interface FormattedDistance {
+  value: string;
+  unit: string;
+}
+
+/**
+ * Conversion factors
+ */
+const FEET_PER_METER = 3.28084;
+const FEET_PER_MILE = 5280;
+const METERS_PER_KILOMETER = 1000;
+const MPH_PER_METER_PER_SECOND = 2.23694;
+const KMH_PER_METER_PER_SECOND = 3.6;
+
+/**
+ * Feet / meters below which distances stay in the small unit
+ * (the 1000ft switch point was specified by the user)
+ */
+const SMALL_UNIT_LIMIT = 1000;
+
+/**
+ * Steps beyond which counting steps stops being useful and the locale's
+ * long unit (mi or km) is shown instead
+ */
+const MAX_STEPS = 1000;
+
+/**
+ * Regions that measure in feet and miles
+ */
+const IMPERIAL_REGIONS = new Set(['US', 'LR', 'MM']);
+
+/**
+ * Unit system preference
+ * - v1: one of the UnitSystem values
+ */
+const unitSystemStore = defineRecord<UnitSystem>({
+  key: STORAGE_KEYS.unitSystem,
+  version: 1,
+  schema: z.enum(['auto', 'imperial', 'metric', 'steps']),
+  fallback: () => 'auto',
+});
+
+/**
+ * Retrieves the preferred unit system
+ */
+export function getUnitSystem(): Promise<UnitSystem> {
+  return unitSystemStore.read();
+}
+
+/**
+ * Saves the preferred unit system
+ */
+export function setUnitSystem(system: UnitSystem): Promise<boolean> {
+  return unitSystemStore.write(system);
+}
+
+/**
+ * Picks imperial or metric for a locale.
+ *
+ * @param locale - BCP 47 language tag (defaults to the app's language)
+ * @returns Measurement system used in the locale's region
+ */
+export function getLocaleMeasurementSystem(locale: string = getLocale()): MeasurementSystem {
+  try {
+    // maximize() fills in the likely region, e.g. "en" -> "en-Latn-US"
+    const region = new Intl.Locale(locale).maximize().region;
+    return region && IMPERIAL_REGIONS.has(region) ? 'imperial' : 'metric';
+  } catch {
+    return 'metric';
+  }
+}
+
+/**
+ * Resolves the units used for accuracy, altitude and speed.
+ *
+ * @param system - Unit preference
+ * @returns Imperial or metric
+ */
+export function getMeasurementSystem(system: UnitSystem): MeasurementSystem {
+  return system === 'imperial' || system === 'metric' ? system : getLocaleMeasurementSystem();
+}
+
+/**
+ * Formats a long distance in miles or kilometers, with one decimal below 10.
+ * Rounds first so 9.96 shows as "10", not "10.0".
+ */
+function formatLongLength(value: number, unit: string): FormattedDistance {
+  const tenths = Math.round(value * 10) / 10;
+  return tenths < 10
+    ? { value: formatNumber(tenths, 1), unit }
+    : { value: formatNumber(Math.round(value), 0), unit };
+}
+
+/**
+ * Formats a length in feet/miles or meters/kilometers. The small unit is
+ * rounded before comparing with the switch point, so 999.6 ft becomes
+ * "0.2 mi" rather than "1,000 ft".
+ */
+function formatLength(meters: number, system: MeasurementSystem): FormattedDistance {
+  if (system === 'imperial') {
+    const feet = Math.round(meters * FEET_PER_METER);
+    if (feet < SMALL_UNIT_LIMIT) {
+      return { value: formatNumber(feet, 0), unit: 'ft' };
+    }
+    return formatLongLength((meters * FEET_PER_METER) / FEET_PER_MILE, 'mi');
+  }
+
+  const roundedMeters = Math.round(meters);
+  if (roundedMeters < SMALL_UNIT_LIMIT) {
+    return { value: formatNumber(roundedMeters, 0), unit: 'm' };
+  }
+  return formatLongLength(meters / METERS_PER_KILOMETER, 'km');
+}
+
+/**
+ * Formats a distance to walk.
+ *
+ * @param meters - Distance in meters
+ * @param system - Unit preference
+ * @returns Object with formatted value and unit string
+ */
+export function formatDistance(meters: number, system: UnitSystem = 'auto'): FormattedDistance {
+  if (system === 'steps') {
+    const steps = Math.round(meters / STEP_LENGTH);
+    if (steps <= MAX_STEPS) {
+      return { value: formatNumber(steps, 0), unit: t('units.steps', { count: steps }) };
+    }
+  }
+  return formatLength(meters, getMeasurementSystem(system));
+}
+
+/**
+ * Formats a distance to walk as a single string, e.g. "120 ft"
+ *
+ * @param meters - Distance in meters
+ * @param system - Unit preference
+ */
+export function formatDistanceText(meters: number, system: UnitSystem = 'auto'): string {
+  const { value, unit } = formatDistance(meters, system);
+  return `${value} ${unit}`;
+}
+
+/**
+ * Formats a position accuracy radius, e.g. "±12 ft"
+ *
+ * @param meters - Accuracy in meters
+ * @param system - Unit preference
+ */
+export function formatAccuracy(meters: number, system: UnitSystem = 'auto'): string {
+  const { value, unit } = formatLength(meters, getMeasurementSystem(system));
+  return `±${value} ${unit}`;
+}
+
+/**
+ * Formats an altitude or height, e.g. "42 ft"
+ *
+ * @param meters - Altitude in meters
+ * @param system - Unit preference
+ */
+export function formatAltitude(meters: number, system: UnitSystem = 'auto'): string {
+  const value = metersToLength(meters, system);
+  return `${formatNumber(Math.round(value), 0)} ${getLengthUnit(system)}`;
+}
+
+/**
+ * Formats a ground speed, e.g. "3 mph"
+ *
+ * @param metersPerSecond - Speed in m/s
+ * @param system - Unit preference
+ */
+export function formatSpeed(metersPerSecond: number, system: UnitSystem = 'auto'): string {
+  return getMeasurementSystem(system) === 'imperial'
+    ? `${formatNumber(Math.round(metersPerSecond * MPH_PER_METER_PER_SECOND), 0)} mph`
+    : `${formatNumber(Math.round(metersPerSecond * KMH_PER_METER_PER_SECOND), 0)} km/h`;
+}
+
+/**
+ * Unit for short lengths (heights, settings inputs) in a unit system
+ */
+export function getLengthUnit(system: UnitSystem): 'ft' | 'm' {
+  return getMeasurementSystem(system) === 'imperial' ? 'ft' : 'm';
+}
+
+/**
+ * Converts meters to the short length unit of a unit system
+ */
+export function metersToLength(meters: number, system: UnitSystem): number {
+  return getLengthUnit(system) === 'ft' ? meters * FEET_PER_METER : meters;
+}
+
+/**
+ * Converts a value in the short length unit of a unit system to meters
+ */
+export function lengthToMeters(value: number, system: UnitSystem): number {
+  return getLengthUnit(system) === 'ft' ? value / FEET_PER_METER : value;
+}
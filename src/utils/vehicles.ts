@@ -0,0 +1,194 @@
+/**
+ * =============================================================================
+ * VEHICLE PROFILES - CAR FINDER PWA
+ * =============================================================================
+ *
+ * Manages the household "garage": a list of vehicle profiles, each of which
+ * can have its own saved parking location (see storage.ts).
+ *
+ * A default vehicle is always present so single-car users never see an
+ * empty garage, and so locations saved before profiles existed have an
+ * owner to migrate to.
+ * =============================================================================
+ */
+
+import { z } from 'zod';
+import { STORAGE_KEYS, defineList, defineRecord } from './persistence';
+import { VehicleSchema } from './schemas';
+import { MessageKey, t } from './i18n';
+
+/**
+ * Supported vehicle kinds
+ * Used to pick a sensible default icon and label
+ */
+export type VehicleType = 'car' | 'suv' | 'truck' | 'van' | 'motorcycle' | 'scooter' | 'bicycle';
+
+/**
+ * Type definition for a vehicle profile
+ */
+export interface Vehicle {
+  id: string;
+  name: string;
+  color: string;  // Any CSS color, used for markers and the switcher chip
+  icon: string;   // Emoji shown on markers and in notifications
+  type: VehicleType;
+}
+
+/**
+ * Default icon and label (message key) for each vehicle type
+ */
+export const VEHICLE_TYPES: Record<VehicleType, { icon: string; label: MessageKey }> = {
+  car: { icon: '🚗', label: 'vehicleType.car' },
+  suv: { icon: '🚙', label: 'vehicleType.suv' },
+  truck: { icon: '🛻', label: 'vehicleType.truck' },
+  van: { icon: '🚐', label: 'vehicleType.van' },
+  motorcycle: { icon: '🏍️', label: 'vehicleType.motorcycle' },
+  scooter: { icon: '🛵', label: 'vehicleType.scooter' },
+  bicycle: { icon: '🚲', label: 'vehicleType.bicycle' },
+};
+
+/**
+ * Palette offered when creating a vehicle
+ * First entry matches the original single-car marker color
+ */
+export const VEHICLE_COLORS = [
+  'hsl(25, 100%, 50%)',
+  'hsl(200, 100%, 50%)',
+  'hsl(140, 70%, 45%)',
+  'hsl(280, 80%, 60%)',
+  'hsl(350, 90%, 55%)',
+  'hsl(50, 100%, 50%)',
+];
+
+/**
+ * ID of the vehicle created automatically on first run.
+ * Locations saved before vehicle profiles existed are migrated to it.
+ */
+export const DEFAULT_VEHICLE_ID = 'default';
+
+/**
+ * Vehicle profiles
+ * - v0: unversioned list (before the persistence layer)
+ * - v1: same shape, wrapped in a version envelope
+ */
+const vehiclesStore = defineList<Vehicle>({
+  key: STORAGE_KEYS.vehicles,
+  version: 1,
+  itemSchema: VehicleSchema,
+  migrations: {
+    0: (data) => data,
+  },
+});
+
+/**
+ * Selected vehicle ID
+ * - v0: bare string (before the persistence layer)
+ * - v1: same value, wrapped in a version envelope
+ */
+const activeVehicleStore = defineRecord<string | null>({
+  key: STORAGE_KEYS.activeVehicle,
+  version: 1,
+  schema: z.string().min(1).nullable(),
+  fallback: () => null,
+  migrations: {
+    0: (data) => data,
+  },
+});
+
+/**
+ * Builds the vehicle used when the garage is empty.
+ * Also serves as a placeholder while the garage is loading. Its name is
+ * in the language current when it is created.
+ */
+export function createDefaultVehicle(): Vehicle {
+  return {
+    id: DEFAULT_VEHICLE_ID,
+    name: t('vehicle.defaultName'),
+    color: VEHICLE_COLORS[0],
+    icon: VEHICLE_TYPES.car.icon,
+    type: 'car',
+  };
+}
+
+/**
+ * Generates a reasonably unique ID for a new vehicle
+ */
+function generateVehicleId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `vehicle-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Substitutes the default vehicle for an empty list
+ */
+function withDefaultVehicle(vehicles: Vehicle[]): Vehicle[] {
+  return vehicles.length > 0 ? vehicles : [createDefaultVehicle()];
+}
+
+/**
+ * Retrieves all vehicle profiles.
+ * Always returns at least the default vehicle.
+ *
+ * @returns List of vehicles in creation order
+ */
+export async function getVehicles(): Promise<Vehicle[]> {
+  return withDefaultVehicle(await vehiclesStore.read());
+}
+
+/**
+ * Creates and stores a new vehicle profile.
+ *
+ * @param profile - Vehicle details without an ID
+ * @returns The created vehicle, or null if invalid or storage failed
+ */
+export async function addVehicle(profile: Omit<Vehicle, 'id'>): Promise<Vehicle | null> {
+  const vehicle: Vehicle = { ...profile, id: generateVehicleId() };
+  const saved = await vehiclesStore.update((vehicles) => [...withDefaultVehicle(vehicles), vehicle]);
+  return saved ? vehicle : null;
+}
+
+/**
+ * Updates an existing vehicle profile in place.
+ *
+ * @param vehicle - Vehicle with updated fields (matched by ID)
+ * @returns true if saved successfully
+ */
+export function updateVehicle(vehicle: Vehicle): Promise<boolean> {
+  return vehiclesStore.update((vehicles) =>
+    withDefaultVehicle(vehicles).map((v) => (v.id === vehicle.id ? vehicle : v))
+  );
+}
+
+/**
+ * Removes a vehicle profile.
+ * Callers are responsible for clearing the vehicle's saved location.
+ *
+ * @param vehicleId - ID of the vehicle to remove
+ * @returns true if saved successfully
+ */
+export async function removeVehicle(vehicleId: string): Promise<boolean> {
+  if ((await activeVehicleStore.read()) === vehicleId) {
+    await activeVehicleStore.remove();
+  }
+  return vehiclesStore.update((vehicles) =>
+    withDefaultVehicle(vehicles).filter((v) => v.id !== vehicleId)
+  );
+}
+
+/**
+ * Retrieves the ID of the vehicle selected in the switcher.
+ * Falls back to the first vehicle if the stored ID no longer exists.
+ */
+export async function getActiveVehicleId(): Promise<string> {
+  const [vehicles, stored] = await Promise.all([getVehicles(), activeVehicleStore.read()]);
+  return stored && vehicles.some((v) => v.id === stored) ? stored : vehicles[0].id;
+}
+
+/**
+ * Remembers which vehicle is selected in the switcher.
+ */
+export async function setActiveVehicleId(vehicleId: string): Promise<void> {
+  await activeVehicleStore.write(vehicleId);
+}